@@ -5,18 +5,21 @@ import { fileURLToPath } from 'url';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
-async function buildWidget() {
-  console.log('Building volunteer widget...');
+// Each widget is bundled into a standalone HTML file served as a ui:// resource
+const widgets = [
+  { name: 'volunteer', entry: 'volunteer-list.tsx', globalName: 'VolunteerWidget', output: 'volunteer-widget.html' },
+  { name: 'donation', entry: 'donation-options.tsx', globalName: 'DonationWidget', output: 'donation-widget.html' },
+];
 
-  // Ensure dist directory exists
-  mkdirSync(`${__dirname}/dist`, { recursive: true });
+async function buildWidget({ name, entry, globalName, output }) {
+  console.log(`Building ${name} widget...`);
 
   // Bundle React component
   const result = await esbuild.build({
-    entryPoints: [`${__dirname}/widget/volunteer-list.tsx`],
+    entryPoints: [`${__dirname}/widget/${entry}`],
     bundle: true,
     format: 'iife',
-    globalName: 'VolunteerWidget',
+    globalName,
     jsx: 'automatic',
     jsxImportSource: 'react',
     platform: 'browser',
@@ -74,16 +77,25 @@ async function buildWidget() {
 
     // Mount the component
     const root = ReactDOM.createRoot(document.getElementById('root'));
-    root.render(React.createElement(VolunteerWidget.default));
+    root.render(React.createElement(${globalName}.default));
   </script>
 </body>
 </html>`;
 
-  writeFileSync(`${__dirname}/dist/volunteer-widget.html`, html);
-  console.log('✓ Widget built: dist/volunteer-widget.html');
+  writeFileSync(`${__dirname}/dist/${output}`, html);
+  console.log(`✓ Widget built: dist/${output}`);
+}
+
+async function buildWidgets() {
+  // Ensure dist directory exists
+  mkdirSync(`${__dirname}/dist`, { recursive: true });
+
+  for (const widget of widgets) {
+    await buildWidget(widget);
+  }
 }
 
-buildWidget().catch((err) => {
+buildWidgets().catch((err) => {
   console.error('Build failed:', err);
   process.exit(1);
 });
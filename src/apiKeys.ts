@@ -0,0 +1,70 @@
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import { ApiKeyStore, ScopeSchema, type Scope } from "./auth.js";
+
+/**
+ * Manage per-client API keys in the key file (API_KEYS_PATH, default
+ * data/api-keys.json):
+ *
+ *   npm run auth:keys -- add partner-a --scopes read,intake [--name "Partner A"] [--expires 2027-06-30]
+ *   npm run auth:keys -- list
+ *   npm run auth:keys -- revoke partner-a
+ *
+ * `add` prints the new key once; only its hash is stored. Adding an
+ * existing client ID replaces its key. A running server picks up changes
+ * on the next request, but only checks keys if the file existed when it
+ * started.
+ */
+
+const USAGE = "Usage: auth:keys add <client-id> --scopes <read,intake,admin> [--name <name>] [--expires <date>] | list | revoke <client-id>";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const [command, ...args] = process.argv.slice(2);
+
+const option = (name: string) => {
+  const idx = args.indexOf(`--${name}`);
+  return idx === -1 ? undefined : args[idx + 1];
+};
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+try {
+  const store = new ApiKeyStore(process.env.API_KEYS_PATH ?? join(__dirname, "../data/api-keys.json"));
+
+  switch (command) {
+    case "add": {
+      const id = args[0];
+      if (!id || id.startsWith("--")) fail(USAGE);
+      const scopes = (option("scopes") ?? "read").split(",").map((scope) => scope.trim());
+      const invalid = scopes.filter((scope) => !ScopeSchema.safeParse(scope).success);
+      if (invalid.length > 0) fail(`Unknown scope ${invalid.join(", ")}; use ${ScopeSchema.options.join(", ")}`);
+      const expires = option("expires");
+      const expiresAt = expires ? new Date(expires) : undefined;
+      if (expiresAt && isNaN(expiresAt.getTime())) fail(`Invalid --expires date "${expires}"`);
+
+      const key = store.issue(id, scopes as Scope[], { name: option("name"), expiresAt });
+      console.log(`✓ API key for ${id} (${scopes.join(", ")}):\n\n  ${key}\n\nStore it now; it can't be shown again.`);
+      break;
+    }
+    case "list":
+      for (const client of store.list()) {
+        const status = client.disabled ? "revoked" : client.expires_at ? `expires ${client.expires_at}` : "active";
+        console.log(`${client.id}\t${client.scopes.join(",")}\t${status}\t${client.name ?? ""}`);
+      }
+      break;
+    case "revoke":
+      if (!args[0]) fail(USAGE);
+      if (!store.revoke(args[0])) fail(`No client "${args[0]}"`);
+      console.log(`✓ Revoked API key for ${args[0]}`);
+      break;
+    default:
+      fail(USAGE);
+  }
+} catch (error: any) {
+  console.error("❌ API key update failed:", error.message);
+  process.exit(1);
+}
@@ -0,0 +1,52 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "fs";
+import { dirname } from "path";
+import type { ContentChange } from "./contentAdmin.js";
+
+/**
+ * Who changed which content record and how, one JSON object per line with
+ * the record before and after the change. Entries are written before the
+ * change is saved, so a save that then fails leaves an entry for a change
+ * that wasn't applied (the admin API answers 500), but an applied change is
+ * never missing from the log.
+ */
+
+export interface AuditActor {
+  name: string;
+  // False when the name is self-declared (X-Admin-User with the shared
+  // admin token) rather than taken from the caller's own credential
+  verified: boolean;
+}
+
+export type AuditEntry = ContentChange & {
+  at: string;
+  actor: string;
+  actor_verified: boolean;
+};
+
+export class AuditLog {
+  constructor(private path: string) {}
+
+  record(change: ContentChange, actor: AuditActor, now: Date): AuditEntry {
+    const entry: AuditEntry = { at: now.toISOString(), actor: actor.name, actor_verified: actor.verified, ...change };
+    mkdirSync(dirname(this.path), { recursive: true });
+    appendFileSync(this.path, JSON.stringify(entry) + "\n", "utf-8");
+    return entry;
+  }
+
+  // Most recent first; malformed lines are skipped with a warning
+  list(limit = 100): AuditEntry[] {
+    if (!existsSync(this.path)) return [];
+    const entries: AuditEntry[] = [];
+    readFileSync(this.path, "utf-8")
+      .split("\n")
+      .forEach((line, idx) => {
+        if (!line.trim()) return;
+        try {
+          entries.push(JSON.parse(line));
+        } catch {
+          console.warn(`⚠️  Skipping malformed audit entry on line ${idx + 1} of ${this.path}`);
+        }
+      });
+    return entries.reverse().slice(0, limit);
+  }
+}
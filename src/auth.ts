@@ -0,0 +1,381 @@
+import { createHash, randomBytes } from "crypto";
+import { existsSync, mkdirSync, readFileSync, statSync } from "fs";
+import { dirname } from "path";
+import type { RequestHandler } from "express";
+import { z } from "zod";
+import type { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import {
+  InsufficientScopeError,
+  InvalidTokenError,
+  OAuthError,
+  ServerError,
+} from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { writeFileAtomic } from "./dataProviders.js";
+import { systemClock, type Clock } from "./clock.js";
+import { formatPath } from "./schema.js";
+
+/**
+ * Client authentication for the MCP endpoints, following the MCP
+ * authorization spec: the server is an OAuth 2.1 resource server that
+ * accepts bearer tokens, either API keys from a local key file or access
+ * tokens from an external authorization server (checked by RFC 7662 token
+ * introspection). Either way the request gets an AuthInfo with the client's
+ * ID and scopes, which transports pass on to tool handlers.
+ *
+ * Scopes:
+ * - `read`: the public information tools, resources and prompts
+ * - `intake`: tools that record submissions from the public
+ * - `admin`: the /admin HTTP API
+ */
+
+// Set by authenticate(); the SDK transports read it from here
+declare module "express-serve-static-core" {
+  interface Request {
+    auth?: AuthInfo;
+  }
+}
+
+export const ScopeSchema = z.enum(["read", "intake", "admin"]);
+export type Scope = z.infer<typeof ScopeSchema>;
+
+export const SCOPES = ScopeSchema.options;
+
+// Tools that need more than `read`
+const TOOL_SCOPES: Record<string, Scope> = {
+  submit_volunteer_inquiry: "intake",
+};
+
+/**
+ * Scopes needed for an MCP request body: a JSON-RPC message or batch.
+ * Every request needs `read`; tool calls add the tool's own scope.
+ */
+export function requiredScopes(body: unknown): Scope[] {
+  const scopes = new Set<Scope>(["read"]);
+  for (const message of Array.isArray(body) ? body : [body]) {
+    if (message?.method === "tools/call" && typeof message.params?.name === "string") {
+      scopes.add(TOOL_SCOPES[message.params.name] ?? "read");
+    }
+  }
+  return [...scopes];
+}
+
+// API keys carry a prefix so they can be told apart from OAuth access tokens
+const API_KEY_PREFIX = "cctc_";
+
+export const generateApiKey = () => API_KEY_PREFIX + randomBytes(32).toString("base64url");
+
+export const hashApiKey = (key: string) => createHash("sha256").update(key).digest("hex");
+
+const ApiKeyClientSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().optional(),
+  scopes: z.array(ScopeSchema).min(1),
+  // Only the hash is stored; the key itself is shown once when created
+  key_sha256: z.string().regex(/^[0-9a-f]{64}$/),
+  created_at: z.string(),
+  expires_at: z.string().datetime({ offset: true }).nullable().default(null),
+  disabled: z.boolean().default(false),
+});
+
+export type ApiKeyClient = z.infer<typeof ApiKeyClientSchema>;
+
+const ApiKeyFileSchema = z.object({
+  clients: z.array(ApiKeyClientSchema),
+}).superRefine((file, ctx) => {
+  const seen = new Set<string>();
+  file.clients.forEach((client, idx) => {
+    if (seen.has(client.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["clients", idx, "id"], message: `Duplicate client id "${client.id}"` });
+    }
+    seen.add(client.id);
+  });
+});
+
+/**
+ * Per-client API keys in a JSON file (by default data/api-keys.json, which
+ * is git-ignored). The file is re-read when it changes, so keys can be
+ * added or revoked without a restart; if an edit leaves it invalid, the
+ * last valid keys stay in use.
+ */
+export class ApiKeyStore implements OAuthTokenVerifier {
+  private clients: ApiKeyClient[] = [];
+  private loadedMtimeMs = -1;
+
+  constructor(private path: string, private clock: Clock = systemClock) {}
+
+  exists(): boolean {
+    return existsSync(this.path);
+  }
+
+  list(): ApiKeyClient[] {
+    this.refresh();
+    return this.clients;
+  }
+
+  private refresh() {
+    if (!this.exists()) {
+      this.clients = [];
+      this.loadedMtimeMs = -1;
+      return;
+    }
+    const mtimeMs = statSync(this.path).mtimeMs;
+    if (mtimeMs === this.loadedMtimeMs) return;
+
+    let problem: string;
+    try {
+      const parsed = ApiKeyFileSchema.safeParse(JSON.parse(readFileSync(this.path, "utf-8")));
+      if (parsed.success) {
+        this.clients = parsed.data.clients;
+        this.loadedMtimeMs = mtimeMs;
+        return;
+      }
+      problem = parsed.error.issues.map((issue) => `${formatPath(issue.path)}: ${issue.message}`).join("; ");
+    } catch (error: any) {
+      problem = error.message;
+    }
+    if (this.loadedMtimeMs === -1) {
+      throw new Error(`Invalid API key file ${this.path}: ${problem}`);
+    }
+    console.error(`❌ Invalid API key file ${this.path}, keeping the previous keys: ${problem}`);
+    this.loadedMtimeMs = mtimeMs;
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    this.refresh();
+    const hash = hashApiKey(token);
+    const client = this.clients.find((c) => c.key_sha256 === hash);
+    if (!client || client.disabled) {
+      throw new InvalidTokenError("Unknown or revoked API key");
+    }
+    const expiresAt = client.expires_at ? Math.floor(new Date(client.expires_at).getTime() / 1000) : undefined;
+    if (expiresAt !== undefined && expiresAt * 1000 <= this.clock().getTime()) {
+      throw new InvalidTokenError("API key has expired");
+    }
+    return { token, clientId: client.id, scopes: client.scopes, expiresAt, extra: { name: client.name ?? client.id } };
+  }
+
+  /**
+   * Add a client with a new key, replacing the key of an existing client
+   * with the same ID. Returns the key; it can't be recovered later.
+   */
+  issue(id: string, scopes: Scope[], options: { name?: string; expiresAt?: Date } = {}): string {
+    this.refresh();
+    const key = generateApiKey();
+    const client = ApiKeyClientSchema.parse({
+      id,
+      name: options.name,
+      scopes,
+      key_sha256: hashApiKey(key),
+      created_at: this.clock().toISOString(),
+      expires_at: options.expiresAt?.toISOString() ?? null,
+    });
+    this.write([...this.clients.filter((c) => c.id !== id), client]);
+    return key;
+  }
+
+  /**
+   * Disable a client's key. Returns false if there is no such client.
+   */
+  revoke(id: string): boolean {
+    this.refresh();
+    if (!this.clients.some((c) => c.id === id)) return false;
+    this.write(this.clients.map((c) => (c.id === id ? { ...c, disabled: true } : c)));
+    return true;
+  }
+
+  private write(clients: ApiKeyClient[]) {
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileAtomic(this.path, JSON.stringify({ clients }, null, 2) + "\n");
+    this.clients = clients;
+    this.loadedMtimeMs = statSync(this.path).mtimeMs;
+  }
+}
+
+export interface IntrospectionOptions {
+  // RFC 7662 introspection endpoint of the authorization server
+  url: string;
+  // Credentials this server uses to call the endpoint, if it requires them
+  clientId?: string;
+  clientSecret?: string;
+  // This server's resource identifier; tokens must list it as an audience
+  resource: string;
+}
+
+// The RFC 7662 fields this server reads; anything else is ignored
+const IntrospectionResponseSchema = z.object({
+  active: z.boolean(),
+  scope: z.string().optional(),
+  client_id: z.string().optional(),
+  sub: z.string().optional(),
+  exp: z.number().optional(),
+  aud: z.union([z.string(), z.array(z.string())]).optional(),
+});
+
+// How long an introspection result is reused before asking again
+const INTROSPECTION_CACHE_MS = 60 * 1000;
+
+/**
+ * OAuth access tokens issued by an external authorization server, checked
+ * with token introspection. Only tokens issued for this server (RFC 8707
+ * audience) are accepted, and only the scopes this server defines are kept.
+ */
+export class IntrospectionVerifier implements OAuthTokenVerifier {
+  private cache = new Map<string, { info: AuthInfo; until: number }>();
+
+  constructor(private options: IntrospectionOptions, private clock: Clock = systemClock) {}
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const now = this.clock().getTime();
+    const cacheKey = hashApiKey(token);
+    const cached = this.cache.get(cacheKey);
+    if (cached && cached.until > now) {
+      return cached.info;
+    }
+
+    const headers: Record<string, string> = { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" };
+    if (this.options.clientId) {
+      const credentials = `${encodeURIComponent(this.options.clientId)}:${encodeURIComponent(this.options.clientSecret ?? "")}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+    }
+    let response: Response;
+    try {
+      response = await fetch(this.options.url, {
+        method: "POST",
+        headers,
+        body: new URLSearchParams({ token, token_type_hint: "access_token" }),
+      });
+    } catch (error: any) {
+      throw new ServerError(`Token introspection failed: ${error.message}`);
+    }
+    if (!response.ok) {
+      throw new ServerError(`Token introspection failed with HTTP ${response.status}`);
+    }
+
+    let body: unknown;
+    try {
+      body = await response.json();
+    } catch (error: any) {
+      throw new ServerError(`Token introspection returned invalid JSON: ${error.message}`);
+    }
+    const parsed = IntrospectionResponseSchema.safeParse(body);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((issue) => `${formatPath(issue.path)}: ${issue.message}`);
+      throw new ServerError(`Token introspection returned an invalid response (${issues.join("; ")})`);
+    }
+    const result = parsed.data;
+    if (!result.active) {
+      throw new InvalidTokenError("Token is not active");
+    }
+    const audiences = Array.isArray(result.aud) ? result.aud : result.aud ? [result.aud] : [];
+    const resource = this.options.resource.replace(/\/$/, "");
+    if (!audiences.some((aud) => aud.replace(/\/$/, "") === resource)) {
+      throw new InvalidTokenError("Token was not issued for this server");
+    }
+
+    // Rate limits, sessions and the audit log are keyed on the client, so a
+    // token that doesn't say who it belongs to can't be used
+    const clientId = result.client_id || result.sub;
+    if (!clientId) {
+      throw new InvalidTokenError("Token has no client_id or sub");
+    }
+
+    const info: AuthInfo = {
+      token,
+      clientId,
+      scopes: (result.scope ?? "").split(" ").filter((scope): scope is Scope => ScopeSchema.safeParse(scope).success),
+      expiresAt: result.exp,
+      resource: new URL(this.options.resource),
+      extra: { subject: result.sub, name: clientId },
+    };
+    if (info.expiresAt !== undefined && info.expiresAt * 1000 <= now) {
+      throw new InvalidTokenError("Token has expired");
+    }
+
+    for (const [key, entry] of this.cache) {
+      if (entry.until <= now) this.cache.delete(key);
+    }
+    const until = Math.min(now + INTROSPECTION_CACHE_MS, info.expiresAt !== undefined ? info.expiresAt * 1000 : Infinity);
+    this.cache.set(cacheKey, { info, until });
+    return info;
+  }
+}
+
+/**
+ * Route API keys to the key store and everything else to OAuth, whichever
+ * are configured. Returns null when neither is, leaving the endpoints open.
+ */
+export function createTokenVerifier(apiKeys?: ApiKeyStore, oauth?: OAuthTokenVerifier): OAuthTokenVerifier | null {
+  if (!apiKeys && !oauth) return null;
+  return {
+    verifyAccessToken: async (token) => {
+      if (token.startsWith(API_KEY_PREFIX) && apiKeys) {
+        return apiKeys.verifyAccessToken(token);
+      }
+      if (oauth) {
+        return oauth.verifyAccessToken(token);
+      }
+      throw new InvalidTokenError("Unknown or revoked API key");
+    },
+  };
+}
+
+export interface AuthenticateOptions {
+  verifier: OAuthTokenVerifier;
+  // Scopes the request needs; checked after the token is verified
+  scopes: (req: Parameters<RequestHandler>[0]) => Scope[];
+  // Protected resource metadata URL (RFC 9728), advertised when OAuth is enabled
+  resourceMetadataUrl?: string;
+}
+
+/**
+ * Require a valid bearer token with the request's scopes, and set
+ * `req.auth`. Failures get a WWW-Authenticate challenge as in the MCP
+ * authorization spec: 401 for a missing or invalid token, 403 with the
+ * needed scopes for a token that lacks them.
+ */
+export function authenticate({ verifier, scopes, resourceMetadataUrl }: AuthenticateOptions): RequestHandler {
+  const challenge = (error: OAuthError, scope?: string) =>
+    [
+      `Bearer error="${error.errorCode}"`,
+      `error_description="${error.message}"`,
+      scope && `scope="${scope}"`,
+      resourceMetadataUrl && `resource_metadata="${resourceMetadataUrl}"`,
+    ]
+      .filter(Boolean)
+      .join(", ");
+
+  return async (req, res, next) => {
+    const required = scopes(req);
+    try {
+      const [type, token] = (req.headers.authorization ?? "").split(" ");
+      if (type?.toLowerCase() !== "bearer" || !token) {
+        throw new InvalidTokenError("Missing bearer token");
+      }
+      const authInfo = await verifier.verifyAccessToken(token);
+      const missing = required.filter((scope) => !authInfo.scopes.includes(scope));
+      if (missing.length > 0) {
+        throw new InsufficientScopeError(`Requires scope ${missing.join(", ")}`);
+      }
+      req.auth = authInfo;
+      next();
+    } catch (error) {
+      if (error instanceof InvalidTokenError) {
+        res.set("WWW-Authenticate", challenge(error));
+        res.status(401).json(error.toResponseObject());
+      } else if (error instanceof InsufficientScopeError) {
+        res.set("WWW-Authenticate", challenge(error, required.join(" ")));
+        res.status(403).json(error.toResponseObject());
+      } else if (error instanceof OAuthError) {
+        console.error("Error verifying access token:", error.message);
+        res.status(error instanceof ServerError ? 500 : 400).json(error.toResponseObject());
+      } else {
+        console.error("Error verifying access token:", error);
+        res.status(500).json(new ServerError("Internal Server Error").toResponseObject());
+      }
+    }
+  };
+}
+
+// Client label for log lines, e.g. " [client partner-a]"
+export const clientLabel = (auth?: AuthInfo) => (auth ? ` [client ${auth.clientId}]` : "");
@@ -0,0 +1,16 @@
+/**
+ * Source of the current time. Tools take a clock instead of calling
+ * `new Date()` directly so date-dependent behavior (upcoming shifts, past
+ * events, opening hours) can be tested against a fixed instant.
+ */
+export type Clock = () => Date;
+
+export const systemClock: Clock = () => new Date();
+
+/**
+ * A clock frozen at `instant`, for tests and reproducible output.
+ */
+export const fixedClock = (instant: Date | string): Clock => {
+  const time = new Date(instant).getTime();
+  return () => new Date(time);
+};
@@ -0,0 +1,162 @@
+import type { z } from "zod";
+import {
+  EventSchema,
+  eventKey,
+  formatPath,
+  InKindCategorySchema,
+  LocationSchema,
+  OpportunitySchema,
+  ServiceSchema,
+} from "./schema.js";
+
+/**
+ * Record-level edits for the admin content API. Changes are applied to the
+ * raw content (as stored by the data provider) and validated twice: the
+ * record against its own schema for a precise error, then the whole
+ * content by DataStore.update, which also catches broken references.
+ */
+
+export type ContentCollectionName = "opportunities" | "services" | "locations" | "events" | "in-kind-categories";
+
+interface ContentCollection {
+  schema: z.AnyZodObject;
+  // The record's key in URLs; the same key the data providers use
+  key: (record: Record<string, unknown>) => string;
+  // What the key is, for error messages
+  keyLabel: string;
+  // JSON path for error messages
+  path: string;
+  records: (raw: any) => any[];
+}
+
+export const CONTENT_COLLECTIONS: Record<ContentCollectionName, ContentCollection> = {
+  opportunities: {
+    schema: OpportunitySchema,
+    key: (record) => String(record.id),
+    keyLabel: "id",
+    path: "volunteer.opportunities",
+    records: (raw) => raw.volunteer.opportunities,
+  },
+  services: {
+    schema: ServiceSchema,
+    key: (record) => String(record.name),
+    keyLabel: "name",
+    path: "organization.services",
+    records: (raw) => raw.organization.services,
+  },
+  locations: {
+    schema: LocationSchema,
+    key: (record) => String(record.name),
+    keyLabel: "name",
+    path: "organization.locations",
+    records: (raw) => raw.organization.locations,
+  },
+  events: {
+    schema: EventSchema,
+    key: eventKey,
+    keyLabel: "date and name",
+    path: "organization.upcoming_events",
+    records: (raw) => raw.organization.upcoming_events,
+  },
+  "in-kind-categories": {
+    schema: InKindCategorySchema,
+    key: (record) => String(record.category),
+    keyLabel: "category",
+    path: "donations.in_kind.accepted_items",
+    records: (raw) => raw.donations.in_kind.accepted_items,
+  },
+};
+
+export const isContentCollection = (name: string): name is ContentCollectionName => Object.hasOwn(CONTENT_COLLECTIONS, name);
+
+export type ContentAction = "create" | "replace" | "patch" | "delete";
+
+// One applied change, as recorded in the audit log
+export type ContentChange = {
+  action: ContentAction;
+  collection: ContentCollectionName;
+  key: string;
+  before: unknown;
+  after: unknown;
+};
+
+/**
+ * A request the content API can't apply. `status` is the HTTP status to
+ * answer with; `issues` lists validation problems as "json.path: message".
+ */
+export class ContentError extends Error {
+  constructor(public status: number, message: string, public issues: string[] = []) {
+    super(message);
+    this.name = "ContentError";
+  }
+}
+
+function validateRecord(collection: ContentCollection, record: unknown) {
+  const result = collection.schema.safeParse(record);
+  if (!result.success) {
+    throw new ContentError(
+      400,
+      "Invalid record",
+      result.error.issues.map((issue) => `${formatPath(issue.path)}: ${issue.message}`)
+    );
+  }
+  return result.data;
+}
+
+/**
+ * The record stored under `key`, or null.
+ */
+export function findRecord(raw: any, name: ContentCollectionName, key: string): unknown {
+  const collection = CONTENT_COLLECTIONS[name];
+  return collection.records(raw).find((record) => collection.key(record) === key) ?? null;
+}
+
+/**
+ * Apply one change to `raw` in place. `key` is required except for
+ * create; `body` is ignored for delete. Records are stored as validated,
+ * with unknown fields dropped.
+ */
+export function applyContentChange(
+  raw: any,
+  name: ContentCollectionName,
+  action: ContentAction,
+  key: string | undefined,
+  body: unknown
+): ContentChange {
+  const collection = CONTENT_COLLECTIONS[name];
+  const records = collection.records(raw);
+  const indexOf = (k: string) => records.findIndex((record) => collection.key(record) === k);
+
+  if (action === "create") {
+    const record = validateRecord(collection, body);
+    const newKey = collection.key(record);
+    if (indexOf(newKey) !== -1) {
+      throw new ContentError(409, `${collection.path} already has a record with ${collection.keyLabel} "${newKey}"`);
+    }
+    records.push(record);
+    return { action, collection: name, key: newKey, before: null, after: record };
+  }
+
+  const index = key === undefined ? -1 : indexOf(key);
+  if (index === -1) {
+    throw new ContentError(404, `No record with ${collection.keyLabel} "${key}" in ${collection.path}`);
+  }
+  const before = records[index];
+
+  if (action === "delete") {
+    records.splice(index, 1);
+    return { action, collection: name, key: key!, before, after: null };
+  }
+
+  if (body === null || typeof body !== "object" || Array.isArray(body)) {
+    throw new ContentError(400, "Request body must be a JSON object");
+  }
+  const record = validateRecord(collection, action === "patch" ? { ...before, ...body } : body);
+  // Renames are allowed as long as they don't collide with another record
+  const newKey = collection.key(record);
+  if (newKey !== key && indexOf(newKey) !== -1) {
+    throw new ContentError(409, `${collection.path} already has a record with ${collection.keyLabel} "${newKey}"`);
+  }
+  records[index] = record;
+  return { action, collection: name, key: newKey, before, after: record };
+}
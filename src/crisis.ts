@@ -0,0 +1,188 @@
+import type { CCData, Coordinates, CrisisLine, Language, Location, OpenStatus, UrgentNeed } from "./schema.js";
+import { formatOpeningHours, openStatus } from "./hours.js";
+import { distanceMiles, roundMiles } from "./geo.js";
+import { messages } from "./i18n.js";
+
+/**
+ * Urgent-need detection and immediate help. Messages like "I have nowhere to
+ * sleep tonight" are recognized as shelter, food or safety needs, and answered
+ * with the crisis lines and the shelter and meal sites listed for that need in
+ * the `crisis` section of CC.json, ahead of any ordinary search results.
+ */
+
+// Safety outranks shelter, shelter outranks food
+const NEED_ORDER: UrgentNeed[] = ["safety", "shelter", "food"];
+
+interface NeedPatterns {
+  // First-person statements of need; these count whatever else the message says
+  statements: RegExp[];
+  // Asking where to get food or a bed; these don't count in a message about
+  // giving, so "food drive volunteer opportunities" stays an ordinary search
+  requests: RegExp[];
+}
+
+// Matched against lowercased text with accents stripped and curly
+// apostrophes straightened. These look for first-person statements of need,
+// in English or Spanish, so informational queries like "homeless shelter
+// Minneapolis" or "are used car seats safe to donate" stay ordinary searches.
+const NEED_PATTERNS: Record<UrgentNeed, NeedPatterns> = {
+  safety: {
+    statements: [
+      /\b(suicid\w*|kill(ing)? myself|end(ing)? my life|end it all|want(ed)? to die|hurt(ing)? myself|self[- ]harm)\b/,
+      /\b(abusive|(being|been|was|am|get|getting) abused|abus(es|ing) me|domestic violence|beat(s|ing)? me|hit(s|ting)? me(?! up)|hurt(s|ing)? me|threaten(s|ed|ing)? (me|to kill))\b/,
+      /\b(i'?m|i am|we'?re|we are|i feel|we feel) (not safe|unsafe|in danger)\b/,
+      /\b((i|we) (don'?t|do not) feel safe|(not safe|unsafe) (at|in) (my |our )?home|(afraid|scared) for my (life|safety)|(i'?m|i am|we'?re|we are) fleeing)\b/,
+      /\b(quiero (morir(me)?|matarme)|suicid(arme|io)|hacerme dano|me (pega|golpea|maltrata|amenaza)|violencia domestica|no (estoy|estamos) a salvo|no me siento segur[oa]|tengo miedo por mi vida)\b/,
+    ],
+    requests: [],
+  },
+  shelter: {
+    statements: [
+      /\b(nowhere|no ?where|no place|nowhere else) to (sleep|stay|go|live)\b/,
+      /\b(sleep(ing)?|stay(ing)?|liv(e|ing)) (outside|outdoors|on the streets?|in (my|a|the|our) (car|tent))\b/,
+      /\b(i'?m|i am|we'?re|we are|just became|became) (now )?homeless\b/,
+      /\b(got |been |being |getting )?(evicted|kicked out|locked out)\b/,
+      /\b(no (tengo|tenemos) (a ?donde|donde) (dormir|quedarme|quedarnos|ir|vivir)|(duermo|dormimos|estoy durmiendo|vivo|vivimos) en (la calle|(mi|el|un) (carro|coche|auto))|(estoy|estamos) sin (hogar|casa|techo)|(me|nos) (desalojaron|echaron))\b/,
+    ],
+    requests: [
+      /\b(need|find|get) (a )?(bed(?! ?frames?)|shelter|place to (sleep|stay)|somewhere to (sleep|stay))\b/,
+      /\b(necesito|necesitamos|busco|buscamos) (un )?(albergue|refugio|lugar (para|donde) dormir|donde dormir|cama)\b/,
+    ],
+  },
+  food: {
+    statements: [
+      /\b(haven'?t|have not|didn'?t|did not) (eaten|eat)\b/,
+      /\b(nothing|no ?thing) to eat\b/,
+      /\b((i|we) (have|'ve got|have got) no food|(i'?m|i am|we'?re|we are|(i|we) (ran|have run|'ve run)) out of food|no food (at home|in the house))\b/,
+      /\b(i'?m|i am|we'?re|we are|(my )?(kids|children|family) (are|is)) (so |really |very )?(hungry|starving)\b/,
+      /\bcan'?t afford (food|groceries|to eat)\b/,
+      /\b((tengo|tenemos) hambre|(mis hijos|mi familia|los ninos) (tienen|tiene) hambre|no (he|hemos) comido|no (tengo|tenemos) (nada )?(que comer|comida))\b/,
+    ],
+    requests: [
+      /\b(need|where can i get|looking for) (some |a )?(food|meal|something to eat)\b/,
+      /\b(necesito|necesitamos|busco|donde (puedo )?conseguir) (comida|algo de comer)\b/,
+    ],
+  },
+};
+
+// Donating, volunteering and organizing drives
+const GIVING_CONTEXT = /\b(donat\w*|volunteer\w*|drop[- ]?off|drives?|fundrais\w*|donar|donacion(es)?|voluntari\w*)\b/;
+
+/**
+ * The urgent needs a message expresses, most pressing first; empty when it
+ * reads as an ordinary question.
+ */
+export function detectUrgentNeeds(text: string): UrgentNeed[] {
+  const normalized = text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[‘’`]/g, "'");
+  const giving = GIVING_CONTEXT.test(normalized);
+  return NEED_ORDER.filter((need) => {
+    const { statements, requests } = NEED_PATTERNS[need];
+    return statements.some((pattern) => pattern.test(normalized)) || (!giving && requests.some((pattern) => pattern.test(normalized)));
+  });
+}
+
+export type ImmediateHelpLocation = Pick<Location, "name" | "address" | "phone"> & {
+  status: OpenStatus;
+  hours: string;
+  distance_miles: number | null;
+};
+
+export type NeedHelp = {
+  need: UrgentNeed;
+  guidance: string;
+  locations: ImmediateHelpLocation[];
+  services: { name: string; description: string }[];
+};
+
+// Structured output of get_immediate_help, and of urgent search_org_info calls
+export type ImmediateHelp = {
+  urgent: true;
+  notice: string;
+  crisis_lines: CrisisLine[];
+  needs: NeedHelp[];
+  main_phone: string;
+  language: Language;
+};
+
+/**
+ * Crisis lines and sites for `needs`. Lines keep their CC.json order; sites
+ * that are open now come first, then the nearest when an origin is given.
+ */
+export function immediateHelp(
+  ccData: CCData,
+  needs: UrgentNeed[],
+  now: Date,
+  origin: Coordinates | null,
+  language: Language = "en"
+): ImmediateHelp {
+  const { crisis, organization } = ccData;
+  const ordered = NEED_ORDER.filter((need) => needs.includes(need));
+
+  return {
+    urgent: true,
+    notice: crisis.notice,
+    crisis_lines: crisis.lines.filter((line) => line.needs.some((need) => ordered.includes(need))),
+    needs: ordered.map((need) => {
+      const resources = crisis.needs[need];
+      const locations = resources.locations
+        .flatMap((name) => organization.locations.find((loc) => loc.name === name) ?? [])
+        .map((loc, rank) => ({
+          rank,
+          location: {
+            name: loc.name,
+            address: loc.address,
+            phone: loc.phone,
+            status: openStatus(loc.opening_hours, now, language),
+            hours: formatOpeningHours(loc.opening_hours, language),
+            distance_miles: origin ? roundMiles(distanceMiles(origin, loc.coordinates)) : null,
+          },
+        }))
+        .sort((a, b) =>
+          Number(b.location.status.open_now) - Number(a.location.status.open_now) ||
+          (a.location.distance_miles ?? 0) - (b.location.distance_miles ?? 0) ||
+          a.rank - b.rank
+        )
+        .map(({ location }) => location);
+      const services = resources.services.flatMap((name) => {
+        const svc = organization.services.find((s) => s.name === name);
+        return svc ? [{ name: svc.name, description: svc.description }] : [];
+      });
+      return { need, guidance: resources.guidance, locations, services };
+    }),
+    main_phone: organization.contact.main_phone,
+    language,
+  };
+}
+
+/**
+ * Markdown for the help block: notice, crisis lines, then each need's sites.
+ */
+export function formatImmediateHelp(help: ImmediateHelp): string {
+  const m = messages(help.language);
+  const lines = help.crisis_lines.map((line) => {
+    const reach = [line.phone && m.call(line.phone), line.text && m.text(line.text)].filter(Boolean).join(" / ");
+    return `• **${line.name}** - ${reach} (${line.available})\n  ${line.description}` + (line.url ? `\n  ${line.url}` : "");
+  });
+
+  const sections = help.needs.map((need) => {
+    const sites = need.locations.map(
+      (loc, idx) =>
+        `${idx + 1}. **${loc.name}**` + (loc.distance_miles !== null ? ` - ${m.milesAway(loc.distance_miles)}` : "") +
+        `\n   ${loc.address}\n   ${loc.status.summary}\n   ${m.hours}: ${loc.hours}` +
+        (loc.phone ? `\n   ${m.phone}: ${loc.phone}` : "")
+    );
+    const services = need.services.map((svc) => `- **${svc.name}**: ${svc.description}`);
+    return [`**${m.needHeadings[need.need]}**`, need.guidance, ...sites, ...services].join("\n\n");
+  });
+
+  return [
+    `🚨 **${m.urgentHeading}**\n\n${help.notice}`,
+    `**${m.callOrTextNow}:**\n${lines.join("\n")}`,
+    ...sections,
+    m.mainLine(help.main_phone),
+  ].join("\n\n");
+}
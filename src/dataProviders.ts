@@ -0,0 +1,413 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, statSync, unlinkSync, writeFileSync } from "fs";
+import { basename, dirname, extname, join } from "path";
+import { isDeepStrictEqual } from "util";
+import initSqlJs, { type SqlJsStatic } from "sql.js";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import { eventKey } from "./schema.js";
+
+/**
+ * Where the organization content comes from. Providers return the raw
+ * content in the CC.json shape; DataStore validates it, so every provider
+ * gets the same schema checks and error reports.
+ *
+ * - `json`: the single CC.json file
+ * - `directory`: one YAML or JSON file per opportunity, service, location
+ *   and event, plus one file per remaining section
+ * - `sqlite`: a local SQLite database with the same split
+ */
+export interface DataProvider {
+  // For log messages, e.g. "directory content/"
+  readonly description: string;
+  load(): unknown;
+  // Replace the stored content; each file is written atomically
+  save(data: unknown): void;
+  // Changes whenever the content may have changed; polled for hot reload
+  version(): string;
+}
+
+// Write to a temporary file and rename it into place, so readers and the
+// reload watcher never see a half-written file
+export function writeFileAtomic(path: string, content: string | Uint8Array) {
+  const tmp = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmp, content);
+  renameSync(tmp, path);
+}
+
+export type DataProviderKind = "json" | "directory" | "sqlite";
+
+export const DATA_PROVIDER_KINDS: DataProviderKind[] = ["json", "directory", "sqlite"];
+
+// Content as loaded, before validation: any field may be missing or malformed
+type RawRecord = Record<string, unknown>;
+
+const asRecord = (value: unknown): RawRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value) ? (value as RawRecord) : {};
+
+// Record collections stored one record per file (or row). Everything else
+// in a top-level section is stored whole.
+const RECORD_COLLECTIONS = [
+  { name: "opportunities", section: "volunteer", field: "opportunities", key: (record: RawRecord) => String(record.id) },
+  { name: "services", section: "organization", field: "services", key: (record: RawRecord) => String(record.name) },
+  { name: "locations", section: "organization", field: "locations", key: (record: RawRecord) => String(record.name) },
+  { name: "events", section: "organization", field: "upcoming_events", key: (record: RawRecord) => eventKey(record) },
+] as const;
+
+const SECTIONS = ["volunteer", "donations", "organization", "crisis"] as const;
+
+type StoredRecord = { key: string; data: unknown };
+
+export type SplitData = {
+  sections: Record<string, Record<string, unknown>>;
+  collections: Record<string, StoredRecord[]>;
+};
+
+/**
+ * Split CC.json content into sections and per-record collections, in
+ * their original order.
+ */
+export function splitData(raw: unknown): SplitData {
+  const content = asRecord(raw);
+  const sections: SplitData["sections"] = {};
+  for (const section of SECTIONS) {
+    sections[section] = { ...asRecord(content[section]) };
+  }
+  const collections: SplitData["collections"] = {};
+  for (const collection of RECORD_COLLECTIONS) {
+    const records = sections[collection.section][collection.field] ?? [];
+    if (!Array.isArray(records)) {
+      throw new Error(`${collection.section}.${collection.field} must be a list`);
+    }
+    delete sections[collection.section][collection.field];
+    collections[collection.name] = records.map((data: unknown) => ({ key: collection.key(asRecord(data)), data }));
+  }
+  return { sections, collections };
+}
+
+/**
+ * Reassemble the CC.json shape from sections and ordered collections.
+ */
+export function assembleData({ sections, collections }: SplitData): Record<string, unknown> {
+  const data: Record<string, Record<string, unknown>> = {};
+  for (const section of SECTIONS) {
+    if (sections[section] !== undefined) data[section] = { ...sections[section] };
+  }
+  for (const collection of RECORD_COLLECTIONS) {
+    data[collection.section] ??= {};
+    data[collection.section][collection.field] = (collections[collection.name] ?? []).map((record) => record.data);
+  }
+  return data;
+}
+
+export class JsonFileProvider implements DataProvider {
+  readonly description: string;
+
+  constructor(private path: string) {
+    this.description = basename(path);
+  }
+
+  load(): unknown {
+    return JSON.parse(readFileSync(this.path, "utf-8"));
+  }
+
+  // Keeps the file's line endings and trailing newline (or lack of one)
+  save(data: unknown) {
+    const existing = existsSync(this.path) ? readFileSync(this.path, "utf-8") : "";
+    let text = JSON.stringify(data, null, 2);
+    if (existing.includes("\r\n")) text = text.replace(/\n/g, "\r\n");
+    if (existing === "" || /\n$/.test(existing)) text += existing.includes("\r\n") ? "\r\n" : "\n";
+    writeFileAtomic(this.path, text);
+  }
+
+  version(): string {
+    const stats = statSync(this.path);
+    return `${stats.mtimeMs}:${stats.size}`;
+  }
+}
+
+const DATA_FILE_EXTENSIONS = [".yaml", ".yml", ".json"];
+
+const serializeDataFile = (path: string, value: unknown) =>
+  extname(path) === ".json" ? JSON.stringify(value, null, 2) + "\n" : stringifyYaml(value);
+
+const parseDataFile = (path: string): unknown => {
+  const text = readFileSync(path, "utf-8");
+  try {
+    return extname(path) === ".json" ? JSON.parse(text) : parseYaml(text);
+  } catch (error: any) {
+    throw new Error(`${path}: ${error.message}`);
+  }
+};
+
+/**
+ * A directory laid out as:
+ *
+ *   volunteer.yaml, donations.yaml, organization.yaml, crisis.yaml
+ *   opportunities/*.yaml, services/*.yaml, locations/*.yaml, events/*.yaml
+ *
+ * Any file may be .yaml, .yml or .json. Records are ordered by the number
+ * their file name starts with, so the exporter prefixes them with their
+ * position; a renamed record keeps its file's position. Saves only touch the
+ * files whose content changed, so per-record history stays readable. Each file is replaced atomically but a
+ * save as a whole is not: if writing fails partway, the directory holds the
+ * files written so far and the next load sees that mix.
+ */
+export class DirectoryProvider implements DataProvider {
+  readonly description: string;
+
+  constructor(private dir: string) {
+    this.description = `directory ${dir}`;
+  }
+
+  load(): unknown {
+    if (!existsSync(this.dir)) {
+      throw new Error(`Data directory ${this.dir} does not exist`);
+    }
+    const sections: SplitData["sections"] = {};
+    for (const section of SECTIONS) {
+      const file = this.sectionFile(section);
+      if (file) sections[section] = parseDataFile(file) as Record<string, unknown>;
+    }
+    const collections: SplitData["collections"] = {};
+    for (const collection of RECORD_COLLECTIONS) {
+      collections[collection.name] = this.recordFiles(collection.name).map((file) => ({
+        key: basename(file, extname(file)),
+        data: parseDataFile(file),
+      }));
+    }
+    return assembleData({ sections, collections });
+  }
+
+  save(data: unknown) {
+    const { sections, collections } = splitData(data);
+    // Work out every write and removal before touching the directory, so a
+    // record file that fails to parse can't leave the save half done
+    const writes = new Map<string, unknown>();
+    const removals: string[] = [];
+    for (const section of SECTIONS) {
+      writes.set(this.sectionFile(section) ?? join(this.dir, `${section}.yaml`), sections[section]);
+    }
+
+    for (const collection of RECORD_COLLECTIONS) {
+      const dir = join(this.dir, collection.name);
+      const files = this.recordFiles(collection.name);
+      const keys = files.map((file) => collection.key(asRecord(parseDataFile(file))));
+      const existing = new Map(keys.map((key, i) => [key, files[i]]));
+      const kept = new Set(collections[collection.name].map((record) => record.key));
+      // New records go after the existing ones, in the format already in use
+      let next = Math.max(0, ...files.map((file) => parseInt(basename(file), 10) || 0)) + 1;
+      const ext = files.length > 0 ? extname(files[0]) : ".yaml";
+
+      collections[collection.name].forEach((record, i) => {
+        let file = existing.get(record.key);
+        existing.delete(record.key);
+        if (!file) {
+          // A renamed record takes over the position of the file it replaces
+          const replaced = files[i] !== undefined && !kept.has(keys[i]) && existing.get(keys[i]) === files[i] ? files[i] : undefined;
+          const position = replaced && basename(replaced).match(/^\d+/)?.[0];
+          if (replaced && position) {
+            existing.delete(keys[i]);
+            file = join(dir, `${position}-${slug(record.key)}${extname(replaced)}`);
+            if (file !== replaced) removals.push(replaced);
+          } else {
+            file = join(dir, `${String(next++).padStart(2, "0")}-${slug(record.key)}${ext}`);
+          }
+        }
+        writes.set(file, record.data);
+      });
+      // Whatever is left was removed
+      removals.push(...existing.values());
+    }
+
+    const changed = [...writes].filter(([file, value]) => !existsSync(file) || !isDeepStrictEqual(parseDataFile(file), value));
+    for (const [file, value] of changed) {
+      mkdirSync(dirname(file), { recursive: true });
+      writeFileAtomic(file, serializeDataFile(file, value));
+    }
+    for (const file of removals) unlinkSync(file);
+  }
+
+  version(): string {
+    const files = [
+      ...SECTIONS.map((section) => this.sectionFile(section)).filter((file): file is string => file !== null),
+      ...RECORD_COLLECTIONS.flatMap((collection) => this.recordFiles(collection.name)),
+    ];
+    return files.map((file) => `${file}:${statSync(file).mtimeMs}`).join("|");
+  }
+
+  private sectionFile(section: string): string | null {
+    for (const ext of DATA_FILE_EXTENSIONS) {
+      const file = join(this.dir, `${section}${ext}`);
+      if (existsSync(file)) return file;
+    }
+    return null;
+  }
+
+  // Ordered by numeric prefix, so "100-x" follows "99-y" whatever the padding
+  private recordFiles(collection: string): string[] {
+    const dir = join(this.dir, collection);
+    if (!existsSync(dir)) return [];
+    const position = (name: string) => {
+      const prefix = parseInt(name, 10);
+      return Number.isNaN(prefix) ? Infinity : prefix;
+    };
+    return readdirSync(dir)
+      .filter((name) => DATA_FILE_EXTENSIONS.includes(extname(name)))
+      .sort((a, b) => position(a) - position(b) || (a < b ? -1 : a > b ? 1 : 0))
+      .map((name) => join(dir, name));
+  }
+}
+
+const SQLITE_SCHEMA = `
+CREATE TABLE sections (
+  name TEXT PRIMARY KEY,
+  data TEXT NOT NULL
+);
+CREATE TABLE records (
+  collection TEXT NOT NULL,
+  key TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  data TEXT NOT NULL,
+  PRIMARY KEY (collection, key)
+);
+`;
+
+/**
+ * A SQLite database with a `sections` table (one JSON document per
+ * top-level section) and a `records` table (one JSON document per
+ * opportunity, service, location or event, ordered by `position`).
+ * The file is read whole on each load, so edits from the sqlite3 CLI or
+ * other tools are picked up on the next reload.
+ */
+export class SqliteProvider implements DataProvider {
+  readonly description: string;
+
+  constructor(private path: string, private sql: SqlJsStatic) {
+    this.description = `SQLite ${basename(path)}`;
+  }
+
+  load(): unknown {
+    const db = new this.sql.Database(readFileSync(this.path));
+    try {
+      const sections: SplitData["sections"] = {};
+      for (const [name, data] of db.exec("SELECT name, data FROM sections")[0]?.values ?? []) {
+        sections[String(name)] = this.parse(data, `sections.${name}`);
+      }
+      const collections: SplitData["collections"] = {};
+      const rows = db.exec("SELECT collection, key, data FROM records ORDER BY collection, position, key")[0]?.values ?? [];
+      for (const [collection, key, data] of rows) {
+        (collections[String(collection)] ??= []).push({
+          key: String(key),
+          data: this.parse(data, `records.${collection}.${key}`),
+        });
+      }
+      return assembleData({ sections, collections });
+    } finally {
+      db.close();
+    }
+  }
+
+  save(data: unknown) {
+    writeFileAtomic(this.path, sqliteBytes(this.sql, data));
+  }
+
+  version(): string {
+    const stats = statSync(this.path);
+    return `${stats.mtimeMs}:${stats.size}`;
+  }
+
+  private parse(data: unknown, where: string) {
+    try {
+      return JSON.parse(String(data));
+    } catch (error: any) {
+      throw new Error(`${where}: ${error.message}`);
+    }
+  }
+}
+
+// Loaded once; the WebAssembly module is only needed for the sqlite provider
+let sqlJs: Promise<SqlJsStatic> | undefined;
+const loadSqlJs = () => (sqlJs ??= initSqlJs());
+
+/**
+ * The provider for `kind` (default json), reading from `path` or the
+ * kind's default location under `baseDir`.
+ */
+export async function createDataProvider(kind: string | undefined, path: string | undefined, baseDir: string): Promise<DataProvider> {
+  switch (kind ?? "json") {
+    case "json":
+      return new JsonFileProvider(path ?? join(baseDir, "CC.json"));
+    case "directory":
+      return new DirectoryProvider(path ?? join(baseDir, "content"));
+    case "sqlite":
+      return new SqliteProvider(path ?? join(baseDir, "cc.sqlite"), await loadSqlJs());
+    default:
+      throw new Error(`Unknown DATA_PROVIDER "${kind}"; expected ${DATA_PROVIDER_KINDS.join(", ")}`);
+  }
+}
+
+const slug = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+/**
+ * Write content to a new directory in the DirectoryProvider layout.
+ * Refuses to write into a non-empty directory so stale records can't linger.
+ */
+export function writeDirectory(data: unknown, dir: string, format: "yaml" | "json" = "yaml") {
+  if (existsSync(dir) && readdirSync(dir).length > 0) {
+    throw new Error(`${dir} is not empty`);
+  }
+  const { sections, collections } = splitData(data);
+
+  mkdirSync(dir, { recursive: true });
+  for (const [name, section] of Object.entries(sections)) {
+    const file = join(dir, `${name}.${format}`);
+    writeFileSync(file, serializeDataFile(file, section), "utf-8");
+  }
+  for (const [name, records] of Object.entries(collections)) {
+    mkdirSync(join(dir, name), { recursive: true });
+    const width = String(records.length).length;
+    records.forEach((record, i) => {
+      const position = String(i + 1).padStart(Math.max(width, 2), "0");
+      const file = join(dir, name, `${position}-${slug(record.key)}.${format}`);
+      writeFileSync(file, serializeDataFile(file, record.data), "utf-8");
+    });
+  }
+}
+
+/**
+ * Write content to a new SQLite database for SqliteProvider.
+ */
+export async function writeSqlite(data: unknown, path: string) {
+  if (existsSync(path)) {
+    throw new Error(`${path} already exists`);
+  }
+  writeFileSync(path, sqliteBytes(await loadSqlJs(), data));
+}
+
+// A complete database image; saves replace the file rather than editing in place
+function sqliteBytes(SQL: SqlJsStatic, data: unknown): Uint8Array {
+  const db = new SQL.Database();
+  try {
+    db.run(SQLITE_SCHEMA);
+    const { sections, collections } = splitData(data);
+    for (const [name, section] of Object.entries(sections)) {
+      db.run("INSERT INTO sections (name, data) VALUES (?, ?)", [name, JSON.stringify(section)]);
+    }
+    for (const [collection, records] of Object.entries(collections)) {
+      records.forEach((record, position) => {
+        db.run("INSERT INTO records (collection, key, position, data) VALUES (?, ?, ?, ?)", [
+          collection,
+          record.key,
+          position,
+          JSON.stringify(record.data),
+        ]);
+      });
+    }
+    return db.export();
+  } finally {
+    db.close();
+  }
+}
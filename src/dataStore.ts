@@ -0,0 +1,115 @@
+import { parseCCData, DataValidationError, type CCData } from "./schema.js";
+import type { DataProvider } from "./dataProviders.js";
+
+export type ReloadResult =
+  | { ok: true; opportunities: number }
+  | { ok: false; error: string; issues: string[] };
+
+type ReloadListener = (data: CCData) => void;
+
+/**
+ * Holds the current validated content from a data provider. Reloads parse
+ * and validate first and only swap the reference on success, so tool calls
+ * always see either the old or the new data in full.
+ */
+export class DataStore {
+  private data: CCData;
+  private listeners: ReloadListener[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  // Provider version last loaded or saved, compared by the watcher
+  private lastVersion = "";
+
+  constructor(private provider: DataProvider) {
+    this.data = this.read();
+  }
+
+  get current(): CCData {
+    return this.data;
+  }
+
+  reload(): ReloadResult {
+    try {
+      this.data = this.read();
+    } catch (error: any) {
+      const issues = error instanceof DataValidationError ? error.issues : [];
+      console.error(`❌ ${this.provider.description} reload failed, keeping previous version:`, error.message);
+      return { ok: false, error: error.message, issues };
+    }
+
+    console.log(`✓ Reloaded ${this.data.volunteer.opportunities.length} volunteer opportunities`);
+    this.notify();
+    return { ok: true, opportunities: this.data.volunteer.opportunities.length };
+  }
+
+  /**
+   * Apply `change` to a fresh copy of the stored content, validate the
+   * result and save it through the provider. Throws DataValidationError,
+   * with nothing written, when the changed content is invalid. `beforeSave`
+   * runs once the change has validated; if it throws, nothing is saved.
+   * Listeners run as for a reload.
+   */
+  update(change: (raw: any) => void, beforeSave?: (data: CCData) => void): CCData {
+    const raw = this.provider.load();
+    change(raw);
+    const data = parseCCData(raw);
+    beforeSave?.(data);
+    this.provider.save(raw);
+    // Our own write isn't an outside change for the watcher to reload
+    this.lastVersion = this.version();
+    this.data = data;
+    this.notify();
+    return data;
+  }
+
+  // Returns a function that removes the listener again
+  onReload(listener: ReloadListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  // Polls the provider's version rather than using fs.watch so editors that
+  // save by rename-and-replace are still picked up
+  watch(intervalMs = 2000) {
+    if (this.timer) return;
+    this.lastVersion = this.version();
+    this.timer = setInterval(() => {
+      const current = this.version();
+      if (current !== this.lastVersion) {
+        this.lastVersion = current;
+        console.log(`${this.provider.description} changed on disk, reloading...`);
+        this.reload();
+      }
+    }, intervalMs);
+  }
+
+  unwatch() {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // A file missing mid-save reads as a change; the reload then fails and keeps the old data
+  private version(): string {
+    try {
+      return this.provider.version();
+    } catch {
+      return "unavailable";
+    }
+  }
+
+  private notify() {
+    for (const listener of this.listeners) {
+      try {
+        listener(this.data);
+      } catch (error) {
+        console.error("Error in data reload listener:", error);
+      }
+    }
+  }
+
+  private read(): CCData {
+    return parseCCData(this.provider.load());
+  }
+}
@@ -0,0 +1,280 @@
+import { messages } from "./i18n.js";
+import type { InKindCategory, InKindDonation, Language } from "./schema.js";
+import { stem, tokenize } from "./search.js";
+
+/**
+ * "Can I donate this?" checks against the in-kind wishlist. Category details
+ * are parsed into individual items with any size range or audience they
+ * specify ("athletic shoes (men's sizes 9-13)"), and a donor's description is
+ * matched against those items and the not-accepted list.
+ */
+
+export type ItemCondition = "new" | "used" | "expired";
+export type EligibilityVerdict = "accepted" | "rejected" | "call_to_confirm";
+
+type Audience = "men" | "women" | "child" | "adult";
+
+const LETTER_SIZES = ["XS", "S", "M", "L", "XL", "2XL", "3XL", "4XL", "5XL"];
+const BED_SIZES = ["twin", "full", "queen", "king"];
+
+export type SizeRange =
+  | { unit: "size" | "in" | "qt"; min: number; max: number }
+  | { unit: "letter"; min: number; max: number }
+  | { unit: "bed"; values: string[] };
+
+export type AcceptedItem = {
+  category: string;
+  item: string;
+  restrictions: string | null;
+  size: SizeRange | null;
+  audience: Audience | null;
+  terms: string[];
+};
+
+export type EligibilityResult = {
+  verdict: EligibilityVerdict;
+  reason: string;
+  category: string | null;
+  matched_item: string | null;
+  restrictions: string | null;
+};
+
+// Everyday words mapped onto the wording used in the wishlist
+const ITEM_SYNONYMS = new Map<string, string[]>(
+  Object.entries({
+    sneakers: ["athletic", "shoes"],
+    tennis: ["athletic", "shoes"],
+    runners: ["athletic", "shoes"],
+    parka: ["coats"],
+    hoodie: ["sweatshirts"],
+    trousers: ["pants"],
+    slacks: ["pants"],
+    crocs: ["slip", "shoes"],
+    comforter: ["comforters", "blankets"],
+    quilt: ["blankets"],
+    soup: ["food"],
+    cereal: ["food"],
+    pasta: ["food"],
+    canned: ["food"],
+  }).map(([word, synonyms]) => [stem(word), synonyms.map(stem)])
+);
+
+// Terms too generic to identify an item on their own
+const GENERIC_TERMS = new Set(["item", "size", "new", "used", "adult", "men", "women", "set"].map(stem));
+
+/**
+ * Split "a, b (x, y), c" into items, keeping parenthesized lists together.
+ */
+export function splitItems(details: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of details) {
+    if (char === "(") depth++;
+    if (char === ")") depth = Math.max(0, depth - 1);
+    if (char === "," && depth === 0) {
+      items.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+  return items.map((item) => item.trim()).filter(Boolean);
+}
+
+const letterIndex = (size: string) => {
+  const normalized = size.toUpperCase().replace(/^XXXL$/, "3XL").replace(/^XXL$/, "2XL");
+  return LETTER_SIZES.indexOf(normalized);
+};
+
+function parseSizeRange(text: string): SizeRange | null {
+  const unitRange = text.match(/(\d+(?:\.\d+)?)\s*(in|qt)\s*(?:-|to)\s*(\d+(?:\.\d+)?)\s*(?:in|qt)/i);
+  if (unitRange) {
+    return { unit: unitRange[2].toLowerCase() as "in" | "qt", min: Number(unitRange[1]), max: Number(unitRange[3]) };
+  }
+  const numbered = text.match(/sizes?\s+(\d+(?:\.\d+)?)\s*(?:-|to)\s*(\d+(?:\.\d+)?)/i);
+  if (numbered) {
+    return { unit: "size", min: Number(numbered[1]), max: Number(numbered[2]) };
+  }
+  const letters = text.match(/\b(XS|S|M|L|XL|\dXL)\s*-\s*(XS|S|M|L|XL|\dXL)\b/);
+  if (letters) {
+    return { unit: "letter", min: letterIndex(letters[1]), max: letterIndex(letters[2]) };
+  }
+  // "full" alone is a bottle size ("full and travel sizes"), not a bed size
+  const beds = BED_SIZES.filter((bed) => new RegExp(`\\b${bed}\\b`, "i").test(text));
+  return beds.some((bed) => bed !== "full") ? { unit: "bed", values: beds } : null;
+}
+
+function parseAudience(text: string): Audience | null {
+  const lower = text.toLowerCase().replace(/’/g, "'");
+  if (/\b(women'?s|ladies|female)\b/.test(lower) && !/\bmale and female\b/.test(lower)) return "women";
+  if (/\b(men'?s)\b/.test(lower)) return "men";
+  if (/\b(kids?|child|children'?s?|youth|toddlers?|boys?|girls?|baby|infant)\b/.test(lower)) return "child";
+  if (/\badults?\b/.test(lower)) return "adult";
+  return null;
+}
+
+/**
+ * Accepted items of every wishlist category, with parsed sizes and audience.
+ */
+export function parseAcceptedItems(categories: InKindCategory[]): AcceptedItem[] {
+  return categories.flatMap((category) =>
+    splitItems(category.details).map((item) => {
+      const name = item.replace(/\([^)]*\)/g, " ");
+      return {
+        category: category.category,
+        item,
+        restrictions: category.restrictions ?? null,
+        size: parseSizeRange(item),
+        audience: parseAudience(item),
+        terms: [...new Set(tokenize(name).filter((t) => !GENERIC_TERMS.has(t)))],
+      };
+    })
+  );
+}
+
+type RequestedSize =
+  | { unit: "size" | "in" | "qt"; value: number }
+  | { unit: "letter"; value: number }
+  | { unit: "bed"; value: string };
+
+function parseRequestedSizes(description: string): RequestedSize[] {
+  const sizes: RequestedSize[] = [];
+  const lower = description.toLowerCase();
+
+  const inches = lower.match(/(\d+(?:\.\d+)?)\s*(?:in\b|inch|inches|"|″|waist)/);
+  if (inches) sizes.push({ unit: "in", value: Number(inches[1]) });
+  const quarts = lower.match(/(\d+(?:\.\d+)?)\s*(?:qt|quart)/);
+  if (quarts) sizes.push({ unit: "qt", value: Number(quarts[1]) });
+  const numbered = lower.match(/\bsize\s+(\d+(?:\.\d+)?)\b/) ?? lower.match(/\b(\d+(?:\.\d+)?)\s*(?:mens|men'?s|womens|women'?s)\b/);
+  if (numbered) sizes.push({ unit: "size", value: Number(numbered[1]) });
+
+  const letter = lower.match(/(?<![\w'’])(xs|s|m|l|xl|xxl|xxxl|[2-5]xl|small|medium|large|x-large)(?![\w'’])/);
+  if (letter) {
+    const words: Record<string, string> = { small: "S", medium: "M", large: "L", "x-large": "XL" };
+    const index = letterIndex(words[letter[1]] ?? letter[1]);
+    if (index >= 0) sizes.push({ unit: "letter", value: index });
+  }
+
+  const bed = BED_SIZES.find((b) => new RegExp(`\\b${b}\\b`).test(lower));
+  if (bed) sizes.push({ unit: "bed", value: bed });
+
+  return sizes;
+}
+
+const describeSize = (item: string) => item.match(/\(([^)]*)\)/)?.[1] ?? item;
+
+// Whether the requested size fits; null when the donor gave no comparable size
+function sizeFits(range: SizeRange, requested: RequestedSize[]): boolean | null {
+  const size = requested.find((s) => s.unit === range.unit);
+  if (!size) return null;
+  if (range.unit === "bed") return range.values.includes(size.value as string);
+  return (size.value as number) >= range.min && (size.value as number) <= range.max;
+}
+
+function audienceFits(required: Audience | null, requested: Audience | null): boolean {
+  if (!required || !requested) return true;
+  if (required === "adult") return requested !== "child";
+  return required === requested;
+}
+
+// A not-accepted entry matches when all words of one of its "or" alternatives appear
+function notAcceptedMatch(notAccepted: string[], terms: Set<string>): string | undefined {
+  return notAccepted.find((entry) =>
+    entry
+      .replace(/\([^)]*\)/g, " ")
+      .split(/\bor\b/i)
+      .map((alternative) => tokenize(alternative).filter((t) => !GENERIC_TERMS.has(t) || t === stem("used")))
+      .some((alternative) => alternative.length > 0 && alternative.every((t) => terms.has(t)))
+  );
+}
+
+// The wishlist item in `localized` at the same position as `item` in
+// `inKind`, falling back to the English item when the lists don't line up
+function localizeItem(item: AcceptedItem, inKind: InKindDonation, localized: InKindDonation) {
+  const index = inKind.accepted_items.findIndex((cat) => cat.category === item.category);
+  const category = localized.accepted_items[index];
+  const items = splitItems(category.details);
+  const englishItems = splitItems(inKind.accepted_items[index].details);
+  return {
+    category: category.category,
+    item: items.length === englishItems.length ? items[englishItems.indexOf(item.item)] : item.item,
+    restrictions: category.restrictions ?? null,
+  };
+}
+
+/**
+ * Check whether an item can be dropped off. Rejections cover the
+ * not-accepted list and condition rules; anything not clearly on the
+ * wishlist, or outside the sizes it asks for, is "call_to_confirm".
+ * Matching runs on the English wishlist in `inKind`; the reason and the
+ * matched entry are reported in `language`, from `localized`.
+ */
+export function checkDonationItem(
+  inKind: InKindDonation,
+  description: string,
+  condition: ItemCondition,
+  language: Language = "en",
+  localized: InKindDonation = inKind
+): EligibilityResult {
+  const m = messages(language);
+  const descriptionTerms = tokenize(description);
+  const terms = new Set([...descriptionTerms, ...tokenize(condition)]);
+  for (const term of descriptionTerms) {
+    ITEM_SYNONYMS.get(term)?.forEach((synonym) => terms.add(synonym));
+  }
+
+  // Rank wishlist items by shared terms, then by size and audience fit
+  const requestedSizes = parseRequestedSizes(description);
+  const requestedAudience = parseAudience(description);
+  const candidates = parseAcceptedItems(inKind.accepted_items)
+    .map((item) => {
+      const overlap = item.terms.filter((t) => terms.has(t)).length;
+      const fits = item.size ? sizeFits(item.size, requestedSizes) : null;
+      const audienceOk = audienceFits(item.audience, requestedAudience);
+      return { item, overlap, fits, audienceOk };
+    })
+    .filter((c) => c.overlap > 0)
+    .sort(
+      (a, b) =>
+        b.overlap - a.overlap ||
+        Number(b.fits !== false) - Number(a.fits !== false) ||
+        Number(b.audienceOk) - Number(a.audienceOk)
+    );
+  const best = candidates[0];
+  const local = best ? localizeItem(best.item, inKind, localized) : null;
+  const matched = local
+    ? { category: local.category, matched_item: local.item, restrictions: local.restrictions }
+    : { category: null, matched_item: null, restrictions: null };
+
+  const excluded = notAcceptedMatch(inKind.not_accepted, terms);
+  if (excluded) {
+    const entry = localized.not_accepted[inKind.not_accepted.indexOf(excluded)] ?? excluded;
+    return { verdict: "rejected", reason: m.reasonNotAccepted(entry), ...matched };
+  }
+  if (condition !== "new" && local && best.item.restrictions && /\bnew\b|expired/i.test(best.item.restrictions)) {
+    return { verdict: "rejected", reason: m.reasonRestricted(local.category, local.restrictions ?? best.item.restrictions), ...matched };
+  }
+  if (condition !== "new") {
+    return { verdict: "rejected", reason: m.reasonMustBeNew, ...matched };
+  }
+
+  if (!best || !local) {
+    return { verdict: "call_to_confirm", reason: m.reasonNotOnWishlist, ...matched };
+  }
+  if (!best.audienceOk) {
+    return { verdict: "call_to_confirm", reason: m.reasonOtherStyles(local.item), ...matched };
+  }
+  if (best.fits === false) {
+    return { verdict: "call_to_confirm", reason: m.reasonOutsideSize(describeSize(local.item)), ...matched };
+  }
+  const onWishlist = m.reasonOnWishlist(local.category, local.item);
+  return {
+    verdict: "accepted",
+    reason: best.item.size && best.fits === null
+      ? `${onWishlist} ${m.reasonCheckSize(describeSize(local.item))}`
+      : onWishlist,
+    ...matched,
+  };
+}
@@ -0,0 +1,21 @@
+/**
+ * Helpers for numeric and true/false settings read from the environment. Bad values
+ * throw, so a typo fails at startup instead of silently using a default.
+ */
+
+export const positiveInteger = (name: string, value: string | undefined, fallback: number) => {
+  if (value === undefined || value.trim() === "") return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive integer, got "${value}"`);
+  }
+  return parsed;
+};
+
+export const booleanSetting = (name: string, value: string | undefined, fallback: boolean) => {
+  if (value === undefined || value.trim() === "") return fallback;
+  const normalized = value.trim().toLowerCase();
+  if (normalized === "true") return true;
+  if (normalized === "false") return false;
+  throw new Error(`${name} must be true or false, got "${value}"`);
+};
@@ -0,0 +1,53 @@
+import type { EventStore, EventId, StreamId } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+interface StoredEvent {
+  streamId: StreamId;
+  message: JSONRPCMessage;
+}
+
+/**
+ * In-memory event store backing resumable Streamable HTTP sessions.
+ * Keeps the most recent events per stream so a client that reconnects with
+ * Last-Event-ID can replay anything it missed.
+ */
+export class InMemoryEventStore implements EventStore {
+  private events = new Map<EventId, StoredEvent>();
+  private counter = 0;
+
+  constructor(private maxEventsPerStream = 100) {}
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    // Zero-padded counter keeps event IDs sortable in insertion order
+    const eventId = `${streamId}_${String(++this.counter).padStart(10, "0")}`;
+    this.events.set(eventId, { streamId, message });
+    this.prune(streamId);
+    return eventId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const lastEvent = this.events.get(lastEventId);
+    if (!lastEvent) {
+      return "";
+    }
+
+    for (const [eventId, event] of this.events) {
+      if (event.streamId === lastEvent.streamId && eventId > lastEventId) {
+        await send(eventId, event.message);
+      }
+    }
+
+    return lastEvent.streamId;
+  }
+
+  private prune(streamId: StreamId) {
+    const streamEvents = [...this.events.entries()].filter(([, e]) => e.streamId === streamId);
+    const excess = streamEvents.length - this.maxEventsPerStream;
+    for (let i = 0; i < excess; i++) {
+      this.events.delete(streamEvents[i][0]);
+    }
+  }
+}
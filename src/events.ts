@@ -0,0 +1,46 @@
+import { messages } from "./i18n.js";
+import type { Language, OrgEvent } from "./schema.js";
+import { tokenize } from "./search.js";
+
+export interface EventQuery {
+  // Inclusive YYYY-MM-DD bounds
+  from?: string;
+  to?: string;
+  keyword?: string;
+}
+
+export type UpcomingEvent = OrgEvent & { days_until: number };
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+
+/**
+ * Events on or after `today` (Twin Cities date) within the requested range,
+ * soonest first. Past events are always dropped, whatever `from` says.
+ * Every keyword term must appear in the event name or description.
+ */
+export function upcomingEvents(events: OrgEvent[], query: EventQuery, today: string): UpcomingEvent[] {
+  const from = query.from && query.from > today ? query.from : today;
+  const terms = query.keyword ? tokenize(query.keyword) : [];
+
+  return events
+    .filter((evt) => evt.date >= from && (!query.to || evt.date <= query.to))
+    .filter((evt) => {
+      if (terms.length === 0) return true;
+      const eventTerms = new Set(tokenize(`${evt.name} ${evt.description}`));
+      return terms.every((term) => eventTerms.has(term));
+    })
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((evt) => ({ ...evt, days_until: daysBetween(today, evt.date) }));
+}
+
+/**
+ * "Thursday, December 11, 2025 (in 3 days)"
+ */
+export function formatEventDate(evt: UpcomingEvent, language: Language = "en"): string {
+  const m = messages(language);
+  const date = new Date(`${evt.date}T12:00:00Z`);
+  const label = m.longDate(m.weekdays[date.getUTCDay()], m.months[date.getUTCMonth()], date.getUTCDate(), date.getUTCFullYear());
+  const relative = evt.days_until === 0 ? m.today : evt.days_until === 1 ? m.tomorrow : m.inDays(evt.days_until);
+  return `${label} (${relative})`;
+}
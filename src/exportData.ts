@@ -0,0 +1,53 @@
+import { dirname, join, resolve } from "path";
+import { fileURLToPath } from "url";
+import { writeFileSync } from "fs";
+import { createDataProvider, writeDirectory, writeSqlite } from "./dataProviders.js";
+import { parseCCData } from "./schema.js";
+
+/**
+ * Copy the content from the configured provider (DATA_PROVIDER / DATA_PATH,
+ * default CC.json) into another provider's format:
+ *
+ *   npm run data:export -- directory content/ [--json]
+ *   npm run data:export -- sqlite cc.sqlite
+ *   npm run data:export -- json CC.json
+ *
+ * The source is validated first; what's written is the source as authored,
+ * without schema defaults filled in.
+ */
+
+const USAGE = "Usage: data:export <directory|sqlite|json> <target> [--json]";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const [kind, target, ...flags] = process.argv.slice(2);
+if (!kind || !target) {
+  console.error(USAGE);
+  process.exit(1);
+}
+
+try {
+  const source = await createDataProvider(process.env.DATA_PROVIDER, process.env.DATA_PATH, join(__dirname, ".."));
+  const data = source.load();
+  parseCCData(data);
+
+  const path = resolve(target);
+  switch (kind) {
+    case "directory":
+      writeDirectory(data, path, flags.includes("--json") ? "json" : "yaml");
+      break;
+    case "sqlite":
+      await writeSqlite(data, path);
+      break;
+    case "json":
+      writeFileSync(path, JSON.stringify(data, null, 2) + "\n", "utf-8");
+      break;
+    default:
+      console.error(USAGE);
+      process.exit(1);
+  }
+  console.log(`✓ Exported ${source.description} to ${kind} ${path}`);
+} catch (error: any) {
+  console.error("❌ Export failed:", error.message);
+  process.exit(1);
+}
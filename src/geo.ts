@@ -0,0 +1,133 @@
+import type { Coordinates } from "./schema.js";
+
+/**
+ * Offline geocoding for "near me" searches. ZIP codes resolve through a
+ * local table of approximate ZCTA centroids for the Twin Cities metro, so no
+ * external geocoding API is needed.
+ */
+
+// [lat, lng] per ZIP code
+const ZIP_CENTROIDS: Record<string, [number, number]> = {
+  // Minneapolis
+  "55401": [44.9844, -93.27],
+  "55402": [44.9759, -93.2716],
+  "55403": [44.9706, -93.2864],
+  "55404": [44.9637, -93.2642],
+  "55405": [44.9697, -93.3034],
+  "55406": [44.9384, -93.2214],
+  "55407": [44.9378, -93.2545],
+  "55408": [44.9466, -93.2862],
+  "55409": [44.9266, -93.2815],
+  "55410": [44.9123, -93.3187],
+  "55411": [44.9996, -93.3003],
+  "55412": [45.0242, -93.302],
+  "55413": [44.998, -93.2555],
+  "55414": [44.978, -93.2198],
+  "55415": [44.9739, -93.2583],
+  "55416": [44.9497, -93.3376],
+  "55417": [44.9054, -93.2361],
+  "55418": [45.0192, -93.2404],
+  "55419": [44.9052, -93.2887],
+  "55454": [44.9686, -93.243],
+  "55455": [44.9732, -93.2346],
+  // Saint Paul
+  "55101": [44.9518, -93.0897],
+  "55102": [44.9325, -93.119],
+  "55103": [44.9632, -93.1235],
+  "55104": [44.9532, -93.1581],
+  "55105": [44.9344, -93.1653],
+  "55106": [44.9682, -93.0485],
+  "55107": [44.9323, -93.0876],
+  "55108": [44.9826, -93.177],
+  "55114": [44.9649, -93.1954],
+  "55116": [44.9131, -93.1746],
+  "55117": [44.9897, -93.1071],
+  "55119": [44.9389, -93.0109],
+  "55130": [44.9726, -93.0825],
+  // Ramsey, Washington and Dakota County suburbs
+  "55109": [45.0163, -93.028],
+  "55110": [45.0891, -93.0118],
+  "55112": [45.0758, -93.1915],
+  "55113": [45.0129, -93.1582],
+  "55118": [44.8958, -93.1029],
+  "55120": [44.8722, -93.1485],
+  "55121": [44.8461, -93.1552],
+  "55122": [44.8047, -93.1967],
+  "55124": [44.7495, -93.204],
+  "55125": [44.919, -92.9446],
+  "55126": [45.088, -93.1366],
+  "55128": [44.9889, -92.9492],
+  "55337": [44.776, -93.273],
+  // Hennepin and Anoka County suburbs
+  "55305": [44.953, -93.43],
+  "55369": [45.128, -93.468],
+  "55420": [44.835, -93.2787],
+  "55421": [45.0524, -93.2472],
+  "55422": [45.0086, -93.3399],
+  "55423": [44.8754, -93.2819],
+  "55424": [44.905, -93.3402],
+  "55426": [44.9547, -93.3813],
+  "55427": [45.0035, -93.381],
+  "55428": [45.0631, -93.3811],
+  "55430": [45.064, -93.303],
+  "55432": [45.0951, -93.2534],
+  "55435": [44.8735, -93.336],
+  "55443": [45.1189, -93.3394],
+};
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+export class GeoLookupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GeoLookupError";
+  }
+}
+
+export function lookupZip(zip: string): Coordinates | null {
+  const centroid = ZIP_CENTROIDS[zip.trim().slice(0, 5)];
+  return centroid ? { lat: centroid[0], lng: centroid[1] } : null;
+}
+
+export interface OriginParams {
+  near_zip?: string;
+  near_lat?: number;
+  near_lng?: number;
+}
+
+/**
+ * Resolve the search origin from a ZIP code or explicit coordinates.
+ * Returns null when no origin was requested.
+ */
+export function resolveOrigin(params: OriginParams): Coordinates | null {
+  if (params.near_lat !== undefined || params.near_lng !== undefined) {
+    if (params.near_lat === undefined || params.near_lng === undefined) {
+      throw new GeoLookupError("Both near_lat and near_lng are required when searching by coordinates");
+    }
+    return { lat: params.near_lat, lng: params.near_lng };
+  }
+  if (params.near_zip) {
+    const coords = lookupZip(params.near_zip);
+    if (!coords) {
+      throw new GeoLookupError(
+        `ZIP code ${params.near_zip} is outside the Twin Cities metro area we can locate offline`
+      );
+    }
+    return coords;
+  }
+  return null;
+}
+
+/**
+ * Great-circle distance in miles.
+ */
+export function distanceMiles(a: Coordinates, b: Coordinates): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(h));
+}
+
+export const roundMiles = (miles: number) => Math.round(miles * 10) / 10;
@@ -0,0 +1,205 @@
+import { messages, type Messages } from "./i18n.js";
+import type { Language, Opportunity, UpcomingShift, VolunteerContact } from "./schema.js";
+import { formatShift, hasStructuredSlots, matchingShifts, parseAvailableOn, upcomingShifts } from "./schedule.js";
+import { screenOpportunities, type VolunteerPolicies } from "./screening.js";
+
+/**
+ * Group volunteering plans: fit a corporate or family team into one
+ * opportunity, or split it across several, within each opportunity's
+ * `max_group_size` and the group policies in `general_info.policies`.
+ */
+
+export type GroupPlanType = "single" | "split" | "special_arrangement";
+
+export interface GroupRequest {
+  group_size: number;
+  // Age of the youngest member
+  min_age: number;
+  // YYYY-MM-DD dates or weekday names, in order of preference
+  preferred_dates?: string[];
+  city?: string;
+  group_name?: string;
+}
+
+export type GroupOption = {
+  opportunity_id: string;
+  title: string;
+  capacity: number;
+  // People assigned to this opportunity in a split plan, the whole group in
+  // a single plan; unset when the group doesn't fit and team sizes are left
+  // to the coordinator
+  assigned?: number;
+  // Shifts on the preferred dates, or the next few shifts when none were given
+  shifts: UpcomingShift[];
+  // Arranged with the coordinator rather than fixed shifts
+  flexible_schedule: boolean;
+  conditions: string[];
+  signup_url: string | null;
+};
+
+export type InquiryEmail = {
+  to: string;
+  subject: string;
+  body: string;
+};
+
+export type GroupPlan = {
+  plan: GroupPlanType;
+  group_size: number;
+  min_age: number;
+  preferred_dates: string[];
+  // Single plans list every opportunity that fits; split plans list the assignment
+  options: GroupOption[];
+  special_arrangement: boolean;
+  // Why a special arrangement is needed, citing the large-group policy
+  special_arrangement_reason: string | null;
+  inquiry_email: InquiryEmail | null;
+};
+
+function shiftsOnPreferredDates(opp: Opportunity, dates: string[], now: Date): UpcomingShift[] {
+  if (dates.length === 0) return upcomingShifts(opp.schedule, now, 3);
+  return dates.flatMap((value) => matchingShifts(opp.schedule, parseAvailableOn(value), {}, now));
+}
+
+// Split `total` into `parts` near-equal team sizes, largest first
+const splitEvenly = (total: number, parts: number) =>
+  Array.from({ length: parts }, (_, i) => Math.floor(total / parts) + (i < total % parts ? 1 : 0));
+
+function draftInquiryEmail(
+  request: GroupRequest,
+  options: GroupOption[],
+  policies: VolunteerPolicies,
+  contact: VolunteerContact,
+  m: Messages
+): InquiryEmail {
+  const lines = [
+    m.inquiryGreeting,
+    "",
+    m.inquiryIntro(request.group_name ?? m.ourGroup),
+    "",
+    m.inquiryGroupSize(request.group_size),
+    m.inquiryYoungest(request.min_age, request.min_age < policies.independent_age),
+    m.inquiryDates(request.preferred_dates ?? []),
+  ];
+  if (options.length > 0) {
+    lines.push(m.inquiryOpportunities(options.map((o) => o.title)));
+  }
+  lines.push("", m.inquiryQuestion, "", ...m.inquiryClosing);
+
+  return {
+    to: contact.email,
+    subject: m.inquirySubject(request.group_name ?? m.groupOf(request.group_size)),
+    body: lines.join("\n"),
+  };
+}
+
+/**
+ * Plan a group outing. The whole group goes to one opportunity when one has
+ * room; otherwise it is split evenly across as few opportunities as possible.
+ * Groups at or above the large-group threshold, or too big to split, take
+ * the special-arrangement path with a drafted inquiry email. Conditions,
+ * reasons and the email are written in `language`.
+ */
+export function planGroupVolunteering(
+  opportunities: Opportunity[],
+  request: GroupRequest,
+  policies: VolunteerPolicies,
+  contact: VolunteerContact,
+  now: Date,
+  language: Language = "en"
+): GroupPlan {
+  const m = messages(language);
+  const dates = request.preferred_dates ?? [];
+  const city = request.city?.toLowerCase();
+
+  const screened = screenOpportunities(
+    opportunities.filter((opp) => !city || opp.location.city.toLowerCase().includes(city)),
+    { age: request.min_age, group_size: request.group_size },
+    policies,
+    now,
+    language
+  );
+
+  const candidates: GroupOption[] = screened
+    .filter((result) => result.status !== "ineligible")
+    .map((result) => {
+      const opp = opportunities.find((o) => o.id === result.opportunity_id)!;
+      return {
+        opportunity_id: opp.id,
+        title: opp.title,
+        capacity: opp.requirements.max_group_size ?? policies.standard_group_max,
+        shifts: shiftsOnPreferredDates(opp, dates, now),
+        flexible_schedule: !hasStructuredSlots(opp.schedule),
+        // Group size is what this planner resolves, so it isn't a condition here
+        conditions: result.rules.filter((rule) => rule.rule !== "group_size").map((rule) => rule.message),
+        signup_url: opp.signup_url,
+      };
+    })
+    // Fixed shifts elsewhere on the preferred dates rule an opportunity out
+    .filter((option) => dates.length === 0 || option.flexible_schedule || option.shifts.length > 0)
+    .sort((a, b) => b.capacity - a.capacity || b.shifts.length - a.shifts.length);
+
+  const large = request.group_size >= policies.large_group_min;
+  const single = candidates.filter((option) => option.capacity >= request.group_size);
+
+  let plan: GroupPlanType;
+  let options: GroupOption[];
+  if (single.length > 0 && !large) {
+    plan = "single";
+    options = single.map((option) => ({ ...option, assigned: request.group_size }));
+  } else {
+    // Fewest teams that fit the largest capacities, then even team sizes
+    let parts = 0;
+    let room = 0;
+    while (parts < candidates.length && room < request.group_size) room += candidates[parts++].capacity;
+    const fits = room >= request.group_size && parts > 0;
+    const teams = fits ? splitEvenly(request.group_size, parts) : [];
+    const chosen = candidates.slice(0, parts);
+    // Even split may exceed a smaller opportunity's capacity; fall back to filling in order
+    if (fits && teams.some((size, i) => size > chosen[i].capacity)) {
+      let left = request.group_size;
+      chosen.forEach((option, i) => {
+        teams[i] = Math.min(option.capacity, left);
+        left -= teams[i];
+      });
+    }
+    plan = large || !fits ? "special_arrangement" : "split";
+    options = fits
+      ? chosen.map((option, i) => ({ ...option, assigned: teams[i] }))
+      : candidates.slice(0, 3);
+  }
+
+  const special = plan === "special_arrangement";
+  const reason = !special
+    ? null
+    : large
+      ? m.largeGroupReason(policies.large_group_min)
+      : m.groupTooBigReason;
+  return {
+    plan,
+    group_size: request.group_size,
+    min_age: request.min_age,
+    preferred_dates: dates,
+    options,
+    special_arrangement: special,
+    special_arrangement_reason: reason && policies.text.large_group ? `${reason} (${policies.text.large_group})` : reason,
+    inquiry_email: special ? draftInquiryEmail(request, options, policies, contact, m) : null,
+  };
+}
+
+/**
+ * One line per option: "Title - 8 people; Sat Oct 24, 7:00am-8:00am"
+ */
+export function formatGroupOption(option: GroupOption, plan: GroupPlanType, language: Language = "en"): string {
+  const m = messages(language);
+  const when = option.shifts.length > 0
+    ? option.shifts.slice(0, 3).map((shift) => formatShift(shift, language)).join("; ")
+    : m.scheduleArranged;
+  const size = plan === "single"
+    ? m.upToPeople(option.capacity)
+    : option.assigned === undefined
+      ? `${m.upToPeople(option.capacity)}; ${m.arrangeTeams}`
+      : m.people(option.assigned);
+  return `**${option.title}** - ${size}; ${when}` +
+    option.conditions.map((condition) => `\n   - ${condition}`).join("");
+}
@@ -0,0 +1,89 @@
+import type { Language, OpeningHours, OpenStatus, Weekday } from "./schema.js";
+import { formatShortDate, messages } from "./i18n.js";
+import { addDays, formatTime, localNow, WEEKDAYS, weekdayOf } from "./schedule.js";
+
+/**
+ * Opening-hours helpers for drop-off sites and organization locations.
+ * Like shift schedules, intervals are wall-clock times in the site's
+ * timezone and closures are plain YYYY-MM-DD dates.
+ */
+
+// How far ahead to look for the next opening
+const LOOKAHEAD_DAYS = 14;
+
+function intervalsOn(hours: OpeningHours, date: string): { start: string; end: string }[] {
+  if (hours.closures.some((closure) => closure.date === date)) return [];
+  const weekday = weekdayOf(date);
+  return hours.weekly
+    .filter((slot) => slot.days.includes(weekday))
+    .map(({ start, end }) => ({ start, end }))
+    .sort((a, b) => a.start.localeCompare(b.start));
+}
+
+/**
+ * Open/closed status at `now`, with the closing time or the next opening.
+ */
+export function openStatus(hours: OpeningHours, now: Date, language: Language = "en"): OpenStatus {
+  const m = messages(language);
+  const base = { open_now: false, always_open: false, closes_at: null, next_opening: null, closure: null };
+  if (hours.always_open) {
+    return { ...base, open_now: true, always_open: true, summary: m.open24Hours };
+  }
+
+  const local = localNow(now, hours.timezone);
+  const closure = hours.closures.find((c) => c.date === local.date)?.name ?? null;
+
+  const current = intervalsOn(hours, local.date).find(
+    (interval) => interval.start <= local.time && local.time < interval.end
+  );
+  if (current) {
+    return { ...base, open_now: true, closes_at: current.end, summary: m.openUntil(formatTime(current.end)) };
+  }
+
+  const closedLabel = closure ? m.closedToday(closure) : m.closedNow;
+  for (let offset = 0; offset <= LOOKAHEAD_DAYS; offset++) {
+    const date = addDays(local.date, offset);
+    const next = intervalsOn(hours, date).find((interval) => offset > 0 || interval.start > local.time);
+    if (!next) continue;
+
+    const when = offset === 0 ? m.today : offset === 1 ? m.tomorrow : formatShortDate(date, language);
+    return {
+      ...base,
+      closure,
+      next_opening: { date, weekday: weekdayOf(date), time: next.start },
+      summary: m.opensAt(closedLabel, when, formatTime(next.start)),
+    };
+  }
+
+  return { ...base, closure, summary: hours.weekly.length > 0 ? closedLabel : m.hoursByAppointment };
+}
+
+// ["monday", ..., "friday"] -> "Mon-Fri"; non-consecutive days are listed
+function formatDays(days: Weekday[], language: Language): string {
+  // Monday-first so Mon-Fri and Sat-Sun read naturally
+  const order = [...WEEKDAYS.slice(1), WEEKDAYS[0]];
+  const sorted = order.filter((day) => days.includes(day));
+  const short = (day: Weekday) => messages(language).weekdaysShort[WEEKDAYS.indexOf(day)];
+
+  const runs: Weekday[][] = [];
+  for (const day of sorted) {
+    const run = runs[runs.length - 1];
+    if (run && order.indexOf(day) === order.indexOf(run[run.length - 1]) + 1) run.push(day);
+    else runs.push([day]);
+  }
+  return runs
+    .map((run) => (run.length > 2 ? `${short(run[0])}-${short(run[run.length - 1])}` : run.map(short).join(", ")))
+    .join(", ");
+}
+
+/**
+ * "Mon-Fri 9:00am-4:00pm"
+ */
+export function formatOpeningHours(hours: OpeningHours, language: Language = "en"): string {
+  const m = messages(language);
+  if (hours.always_open) return m.open24HoursDaily;
+  if (hours.weekly.length === 0) return m.byAppointment;
+  return hours.weekly
+    .map((slot) => `${formatDays(slot.days, language)} ${formatTime(slot.start)}-${formatTime(slot.end)}`)
+    .join("; ");
+}
@@ -0,0 +1,1109 @@
+import type { Language } from "./schema.js";
+
+/**
+ * Interface text for the tools and widgets in each supported language.
+ * Content (titles, descriptions, policies) is translated in CC.json instead;
+ * see localize.ts. Every catalog is typed against the English one, so a
+ * missing or misnamed key is a type error.
+ */
+
+const en = {
+  // Dates and opening hours; weekday arrays start on Sunday
+  weekdays: ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"],
+  weekdaysShort: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"],
+  monthsShort: ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"],
+  shortDate: (weekday: string, month: string, day: number) => `${weekday}, ${month} ${day}`,
+  everyWeekday: (weekday: string) => `${weekday}s`,
+  today: "today",
+  tomorrow: "tomorrow",
+  open24Hours: "Open 24 hours",
+  open24HoursDaily: "Open 24 hours, 7 days a week",
+  byAppointment: "By appointment",
+  hoursByAppointment: "Hours by appointment",
+  openUntil: (time: string) => `Open now until ${time}`,
+  closedNow: "Closed now",
+  closedToday: (closure: string) => `Closed today (${closure})`,
+  opensAt: (closed: string, when: string, time: string) => `${closed}. Opens ${when} at ${time}`,
+  months: ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"],
+  longDate: (weekday: string, month: string, day: number, year: number) => `${weekday}, ${month} ${day}, ${year}`,
+  inDays: (days: number) => `in ${days} days`,
+
+  // Shared labels
+  phone: "Phone",
+  email: "Email",
+  hours: "Hours",
+  status: "Status",
+  source: "Source",
+  contact: "Contact",
+  online: "Online",
+
+  // get_volunteer_opportunities
+  noOpportunities: "No volunteer opportunities match your criteria. Try adjusting your filters or contact volunteer@cctwincities.org at (612) 204-8435 for more options.",
+  foundOpportunities: (count: number) => `Found ${count} volunteer opportunit${count === 1 ? "y" : "ies"}`,
+  showingRange: (from: number, to: number) => `showing ${from}-${to}`,
+  milesAway: (miles: number) => `${miles} mi away`,
+  schedule: "Schedule",
+  nextShifts: "Next shifts",
+  noneScheduled: "none scheduled",
+  age: "Age",
+  groupFriendly: (max: string) => `Group-friendly (max ${max})`,
+  notAvailable: "N/A",
+  skills: "Skills",
+  signUp: "Sign up",
+  moreOpportunities: (cursor: string) => `More opportunities available: call again with cursor "${cursor}".`,
+  generalVolunteerContact: "General volunteer contact",
+  invalidCursor: (detail: string) => `${detail}. Repeat the search without a cursor to start from the first page.`,
+  geoLookupFailed: (detail: string) => `${detail}. Try a nearby Minneapolis or St. Paul ZIP code, or pass near_lat/near_lng.`,
+  volunteerSearchError: "Sorry, an error occurred while searching for volunteer opportunities. Please try again or contact volunteer@cctwincities.org at (612) 204-8435.",
+
+  // get_donation_options
+  onlineTitle: "Online Donations to Catholic Charities Twin Cities",
+  donateOnlineAt: (url: string) => `Donate securely online at: ${url}`,
+  donationTypes: "Donation Types",
+  givingQuestions: "Questions about giving?",
+  inKindTitle: "In-Kind Donations to Catholic Charities Twin Cities",
+  currentlyAccepting: "Currently Accepting (NEW items only)",
+  notAccepted: "NOT Accepted",
+  dropOffLocation: "Drop-Off Location",
+  importantPolicies: "Important Policies",
+  viewWishlist: (url: string) => `View full wishlist: ${url}`,
+  vehicleTitle: "Vehicle Donation to Catholic Charities Twin Cities",
+  toDonateVehicle: "To donate your vehicle",
+  vehiclesAccepted: "Vehicles accepted: cars, trucks, trailers, boats, RVs, motorcycles, and other motorized vehicles.",
+  donationError: "Sorry, an error occurred while getting donation information. Please contact giving.info@cctwincities.org at (612) 204-8374.",
+
+  // search_org_info
+  missionHeading: "Mission",
+  founded: (founded: string, years: number) => `Founded in ${founded}, Catholic Charities has served the Twin Cities for ${years} years.`,
+  servicesOverviewHeading: "Services Overview",
+  servicesOverviewIntro: "Catholic Charities Twin Cities offers these core services:",
+  statsHeading: "Impact & Statistics",
+  statsIntro: "Catholic Charities Twin Cities serves the community with significant impact:",
+  peopleServed: (count: string) => `**${count}** people served annually`,
+  mealsServed: (count: string) => `**${count}** meals served annually`,
+  nightsOfHousing: (count: string) => `**${count}** nights of housing provided annually`,
+  volunteersAnnually: (count: string) => `**${count}** volunteers annually`,
+  volunteerHours: (count: string) => `**${count}+** volunteer hours annually`,
+  yearsServing: (years: number) => `**${years}** years serving the Twin Cities`,
+  contactHeading: "Contact Information",
+  mainOffice: "Main Office",
+  volunteerInquiries: "Volunteer inquiries",
+  donationInquiries: "Donation inquiries",
+  aboutHeading: "About Catholic Charities Twin Cities",
+  servingSince: (area: string, founded: string) => `Serving the ${area} since ${founded}.`,
+  relevance: (score: string, fields: string) => `relevance ${score}; matched: ${fields}`,
+  orgSearchError: "Sorry, an error occurred while searching organization information. Please contact info@cctwincities.org at (612) 204-8500.",
+
+  // get_immediate_help and urgent searches
+  urgentHeading: "Help right now",
+  callOrTextNow: "Call or text now",
+  call: (phone: string) => `call ${phone}`,
+  text: (number: string) => `text ${number}`,
+  needHeadings: { safety: "If you are not safe", shelter: "A place to stay tonight", food: "Food today" },
+  mainLine: (phone: string) => `Catholic Charities main line: ${phone}`,
+  immediateHelpError: "Sorry, an error occurred. If you need help right now, call 211, or 911 in an emergency.",
+
+  // screen_volunteer_eligibility and the screening rules
+  eligibilityHeading: "Volunteer Eligibility",
+  eligibleHeading: "✅ Eligible",
+  eligibleWithConditionsHeading: "⚠️ Eligible with conditions",
+  notEligibleHeading: "❌ Not eligible",
+  questionsContact: (email: string, phone: string) => `Questions? Contact ${email} | ${phone}`,
+  ruleGroupTooYoung: (minimum: number, youngest: number) => `Every volunteer must be at least ${minimum} (youngest is ${youngest}).`,
+  ruleTooYoung: (minimum: number, age: number) => `Volunteers must be at least ${minimum} (you're ${age}).`,
+  ruleAdultsOnly: (minimum: number) => `Volunteers must be ${minimum} or older; minors can't take part.`,
+  ruleSupervision: (age: number) => `Volunteers under ${age} need adult supervision and a signed minor waiver.`,
+  ruleSupervisionMinimum: (age: number, minimum: number) =>
+    `Volunteers under ${age} need adult supervision and a signed minor waiver, and must be at least ${minimum}.`,
+  ruleIndividualsOnly: "Individual volunteers only; this opportunity isn't set up for groups.",
+  ruleLargeGroup: (max: number) => `Groups larger than ${max} need a special arrangement with the volunteer office and advance notice.`,
+  ruleSkills: (skills: string[]) => `Requires ${skills.join(" or ")} skills.`,
+  ruleBackgroundCheck: "A background check is required.",
+  ruleNoShifts: (schedule: string) => `No shifts in your availability (schedule: ${schedule}).`,
+  ruleArrangedTimes: (schedule: string) => `Times are arranged with the coordinator (${schedule}).`,
+  eligibilityError: "Sorry, an error occurred while checking volunteer eligibility. Please contact volunteer@cctwincities.org at (612) 204-8435.",
+
+  // plan_group_volunteering and the drafted inquiry email
+  groupPlanHeading: (size: number, youngest: number) => `Group Volunteering Plan: ${size} people, youngest ${youngest}`,
+  noGroupOptions: (onPreferredDates: boolean) =>
+    `No group-friendly opportunities match this group${onPreferredDates ? " on the preferred dates" : ""}. Try other dates, or contact the volunteer office to discuss options.`,
+  wholeGroupTogether: "The whole group can volunteer together at any of these:",
+  splitIntoTeams: (teams: number) => `No single opportunity holds the whole group, so split it into ${teams} teams:`,
+  suggestedStartingPoint: "Suggested starting point to discuss with the volunteer office:",
+  specialArrangementNeeded: "Special arrangement needed",
+  draftInquiryEmail: "Draft inquiry email",
+  emailTo: "To",
+  emailSubject: "Subject",
+  volunteerOffice: "Volunteer office",
+  people: (count: number) => `${count} people`,
+  upToPeople: (count: number) => `up to ${count} people`,
+  arrangeTeams: "contact the coordinator to arrange teams",
+  scheduleArranged: "schedule arranged with the coordinator",
+  largeGroupReason: (min: number) => `Groups of ${min} or more need a special arrangement with advance notice.`,
+  groupTooBigReason: "The group is larger than the opportunities on these dates can hold together.",
+  inquirySubject: (group: string) => `Group volunteer inquiry: ${group}`,
+  groupOf: (size: number) => `group of ${size}`,
+  ourGroup: "our group",
+  inquiryGreeting: "Hello Catholic Charities volunteer team,",
+  inquiryIntro: (group: string) => `I'm reaching out on behalf of ${group} about volunteering together. Here are our details:`,
+  inquiryGroupSize: (size: number) => `- Group size: ${size} people`,
+  inquiryYoungest: (age: number, minors: boolean) =>
+    `- Youngest member: ${age}${minors ? " (minors will have adult supervision and signed waivers)" : ""}`,
+  inquiryDates: (dates: string[]) => `- Preferred dates: ${dates.length > 0 ? dates.join(", ") : "flexible"}`,
+  inquiryOpportunities: (titles: string[]) => `- Opportunities we're interested in: ${titles.join("; ")}`,
+  inquiryQuestion: "Could you let us know what a special arrangement for a group our size would look like, and which dates work?",
+  inquiryClosing: ["Thank you,", "[Your name]", "[Phone number]"],
+  groupPlanError: "Sorry, an error occurred while planning group volunteering. Please contact volunteer@cctwincities.org at (612) 204-8435.",
+
+  // submit_volunteer_inquiry
+  contactRequired: "Please provide an email address or phone number so the volunteer coordinator can follow up.",
+  unknownOpportunity: (id: string) => `No volunteer opportunity with id "${id}". Use get_volunteer_opportunities to find the opportunity's id.`,
+  inquiryReceived: (name: string) => `Thanks, ${name}! Your volunteer interest has been received.`,
+  confirmationId: "Confirmation ID",
+  opportunity: "Opportunity",
+  groupSize: "Group size",
+  availability: "Availability",
+  individualsNote: "Note: this opportunity is usually for individual volunteers, so the coordinator may suggest alternatives for your group.",
+  coordinatorWillContact: (contacts: string[]) => `A volunteer coordinator will contact you at ${contacts.join(" or ")}.`,
+  inquiryQuestions: (email: string, phone: string) => `Questions? ${email} | ${phone} (mention your confirmation ID)`,
+  signUpDirectly: (url: string) => `You can also sign up directly: ${url}`,
+  inquiryError: "Sorry, your inquiry couldn't be saved. Please contact volunteer@cctwincities.org at (612) 204-8435.",
+
+  // check_donation_item and its verdicts
+  verdicts: { accepted: "✅ Yes, this can be donated", rejected: "❌ Sorry, this can't be accepted", call_to_confirm: "📞 Call to confirm" },
+  itemConditions: { new: "new", used: "used", expired: "expired" },
+  wishlistCategory: "Wishlist category",
+  questions: "Questions",
+  fullWishlist: "Full wishlist",
+  reasonNotAccepted: (entry: string) => `Not accepted: ${entry}.`,
+  reasonRestricted: (category: string, restrictions: string) => `${category} donations: ${restrictions}.`,
+  reasonMustBeNew: "All donated items must be new and unused.",
+  reasonNotOnWishlist: "This item isn't on the current wishlist. Call or email the distribution center to ask whether they can use it.",
+  reasonOtherStyles: (item: string) => `The wishlist asks for ${item}. Call to confirm whether other sizes or styles are needed.`,
+  reasonOutsideSize: (size: string) => `The wishlist asks for ${size}, and this size is outside that range. Call to confirm before dropping it off.`,
+  reasonOnWishlist: (category: string, item: string) => `On the ${category} wishlist: ${item}.`,
+  reasonCheckSize: (size: string) => `Make sure the size matches (${size}).`,
+  donationCheckError: "Sorry, an error occurred while checking this item. Please contact carys.church@cctwincities.org at (612) 204-8295.",
+
+  // find_nearby_locations
+  locationRequired: "Please provide a ZIP code (near_zip) or coordinates (near_lat and near_lng) to find nearby locations.",
+  nearZip: (zip: string) => `ZIP ${zip}`,
+  yourLocation: "your location",
+  noNearbyLocations: (origin: string, openNow: boolean, radius: number | undefined, phone: string) =>
+    `No ${openNow ? "open " : ""}Catholic Charities locations found${radius !== undefined ? ` within ${radius} miles` : ""} near ${origin}. Try a larger radius${openNow ? " or a later time" : ""}, or call ${phone}.`,
+  nearestLocations: (origin: string) => `Catholic Charities locations nearest ${origin}:`,
+  miles: (miles: number) => `${miles} mi`,
+  nearbyError: "Sorry, an error occurred while finding nearby locations. Please contact info@cctwincities.org at (612) 204-8500.",
+
+  // get_upcoming_events
+  upcomingEventsHeading: "Upcoming Catholic Charities Twin Cities Events",
+  noUpcomingEvents: (calendarUrl: string, email: string) =>
+    `No upcoming Catholic Charities Twin Cities events match your request. See the full calendar at ${calendarUrl} or contact ${email}.`,
+  eventsError: "Sorry, an error occurred while looking up events. Please contact info@cctwincities.org at (612) 204-8500.",
+
+  // export_calendar and the .ics contents
+  calendarTitle: (name: string) => `Calendar: ${name}`,
+  calendarEntries: (count: number) => `${count} event${count === 1 ? "" : "s"}`,
+  downloadCalendar: (url: string) => `Download and open this file to add it to your calendar: ${url}`,
+  emptyCalendar: (name: string, email: string) =>
+    `There are no upcoming scheduled shifts or events for "${name}" to add to a calendar. Flexible opportunities are scheduled directly with the volunteer coordinator at ${email}.`,
+  calendarNoOpportunity: (id: string) => `No volunteer opportunity with id "${id}"`,
+  calendarNoEvent: (query: string) => `No upcoming event matching "${query}"`,
+  calendarSelectionHelp: (detail: string) => `${detail}. Use get_volunteer_opportunities or search_org_info to find the right id or event name.`,
+  volunteerCoordinator: "Volunteer coordinator",
+  calendarError: "Sorry, an error occurred while creating the calendar file. Please contact volunteer@cctwincities.org at (612) 204-8435.",
+};
+
+export type Messages = typeof en;
+
+const es: Messages = {
+  weekdays: ["domingo", "lunes", "martes", "miércoles", "jueves", "viernes", "sábado"],
+  weekdaysShort: ["dom", "lun", "mar", "mié", "jue", "vie", "sáb"],
+  monthsShort: ["ene", "feb", "mar", "abr", "may", "jun", "jul", "ago", "sep", "oct", "nov", "dic"],
+  shortDate: (weekday, month, day) => `${weekday}, ${day} de ${month}`,
+  everyWeekday: (weekday) => `los ${weekday}${weekday.endsWith("s") ? "" : "s"}`,
+  today: "hoy",
+  tomorrow: "mañana",
+  open24Hours: "Abierto las 24 horas",
+  open24HoursDaily: "Abierto las 24 horas, los 7 días de la semana",
+  byAppointment: "Con cita previa",
+  hoursByAppointment: "Horario con cita previa",
+  openUntil: (time) => `Abierto ahora hasta las ${time}`,
+  closedNow: "Cerrado ahora",
+  closedToday: (closure) => `Cerrado hoy (${closure})`,
+  opensAt: (closed, when, time) => `${closed}. Abre ${when} a las ${time}`,
+  months: ["enero", "febrero", "marzo", "abril", "mayo", "junio", "julio", "agosto", "septiembre", "octubre", "noviembre", "diciembre"],
+  longDate: (weekday, month, day, year) => `${weekday}, ${day} de ${month} de ${year}`,
+  inDays: (days) => `en ${days} días`,
+
+  phone: "Teléfono",
+  email: "Correo electrónico",
+  hours: "Horario",
+  status: "Estado",
+  source: "Fuente",
+  contact: "Contacto",
+  online: "En línea",
+
+  noOpportunities: "Ninguna oportunidad de voluntariado coincide con sus criterios. Pruebe a cambiar los filtros o escriba a volunteer@cctwincities.org o llame al (612) 204-8435 para conocer más opciones.",
+  foundOpportunities: (count) => `Se encontr${count === 1 ? "ó 1 oportunidad" : `aron ${count} oportunidades`} de voluntariado`,
+  showingRange: (from, to) => `mostrando ${from}-${to}`,
+  milesAway: (miles) => `a ${miles} millas`,
+  schedule: "Horario",
+  nextShifts: "Próximos turnos",
+  noneScheduled: "ninguno programado",
+  age: "Edad",
+  groupFriendly: (max) => `Apto para grupos (máx. ${max})`,
+  notAvailable: "N/D",
+  skills: "Habilidades",
+  signUp: "Inscribirse",
+  moreOpportunities: (cursor) => `Hay más oportunidades: vuelva a llamar con el cursor "${cursor}".`,
+  generalVolunteerContact: "Contacto general de voluntariado",
+  invalidCursor: (detail) => `${detail}. Repita la búsqueda sin cursor para empezar desde la primera página.`,
+  geoLookupFailed: (detail) => `No pudimos ubicar esa ubicación (${detail}). Pruebe con un código postal cercano de Minneapolis o St. Paul, o indique near_lat/near_lng.`,
+  volunteerSearchError: "Lo sentimos, se produjo un error al buscar oportunidades de voluntariado. Inténtelo de nuevo o escriba a volunteer@cctwincities.org o llame al (612) 204-8435.",
+
+  onlineTitle: "Donaciones en línea a Catholic Charities Twin Cities",
+  donateOnlineAt: (url) => `Done de forma segura en línea en: ${url}`,
+  donationTypes: "Tipos de donación",
+  givingQuestions: "¿Preguntas sobre donaciones?",
+  inKindTitle: "Donaciones en especie a Catholic Charities Twin Cities",
+  currentlyAccepting: "Aceptamos actualmente (solo artículos NUEVOS)",
+  notAccepted: "NO se acepta",
+  dropOffLocation: "Lugar de entrega",
+  importantPolicies: "Normas importantes",
+  viewWishlist: (url) => `Vea la lista completa de artículos necesarios: ${url}`,
+  vehicleTitle: "Donación de vehículos a Catholic Charities Twin Cities",
+  toDonateVehicle: "Para donar su vehículo",
+  vehiclesAccepted: "Se aceptan: autos, camionetas, remolques, botes, casas rodantes, motocicletas y otros vehículos motorizados.",
+  donationError: "Lo sentimos, se produjo un error al obtener la información sobre donaciones. Escriba a giving.info@cctwincities.org o llame al (612) 204-8374.",
+
+  missionHeading: "Misión",
+  founded: (founded, years) => `Fundada en ${founded}, Catholic Charities ha servido a las Ciudades Gemelas durante ${years} años.`,
+  servicesOverviewHeading: "Resumen de servicios",
+  servicesOverviewIntro: "Catholic Charities Twin Cities ofrece estos servicios principales:",
+  statsHeading: "Impacto y estadísticas",
+  statsIntro: "Catholic Charities Twin Cities sirve a la comunidad con un impacto significativo:",
+  peopleServed: (count) => `**${count}** personas atendidas al año`,
+  mealsServed: (count) => `**${count}** comidas servidas al año`,
+  nightsOfHousing: (count) => `**${count}** noches de alojamiento al año`,
+  volunteersAnnually: (count) => `**${count}** voluntarios al año`,
+  volunteerHours: (count) => `**${count}+** horas de voluntariado al año`,
+  yearsServing: (years) => `**${years}** años sirviendo a las Ciudades Gemelas`,
+  contactHeading: "Información de contacto",
+  mainOffice: "Oficina principal",
+  volunteerInquiries: "Consultas sobre voluntariado",
+  donationInquiries: "Consultas sobre donaciones",
+  aboutHeading: "Acerca de Catholic Charities Twin Cities",
+  servingSince: (area, founded) => `Sirviendo en ${area} desde ${founded}.`,
+  relevance: (score, fields) => `relevancia ${score}; coincide en: ${fields}`,
+  orgSearchError: "Lo sentimos, se produjo un error al buscar información sobre la organización. Escriba a info@cctwincities.org o llame al (612) 204-8500.",
+
+  urgentHeading: "Ayuda ahora mismo",
+  callOrTextNow: "Llame o envíe un mensaje ahora",
+  call: (phone) => `llame al ${phone}`,
+  text: (number) => `mensaje de texto al ${number}`,
+  needHeadings: { safety: "Si no está seguro", shelter: "Un lugar para pasar la noche", food: "Comida hoy" },
+  mainLine: (phone) => `Línea principal de Catholic Charities: ${phone}`,
+  immediateHelpError: "Lo sentimos, se produjo un error. Si necesita ayuda ahora mismo, llame al 211, o al 911 en una emergencia.",
+
+  eligibilityHeading: "Elegibilidad para el voluntariado",
+  eligibleHeading: "✅ Elegible",
+  eligibleWithConditionsHeading: "⚠️ Elegible con condiciones",
+  notEligibleHeading: "❌ No elegible",
+  questionsContact: (email, phone) => `¿Preguntas? Escriba a ${email} | ${phone}`,
+  ruleGroupTooYoung: (minimum, youngest) => `Todos los voluntarios deben tener al menos ${minimum} años (el más joven tiene ${youngest}).`,
+  ruleTooYoung: (minimum, age) => `Los voluntarios deben tener al menos ${minimum} años (usted tiene ${age}).`,
+  ruleAdultsOnly: (minimum) => `Los voluntarios deben tener ${minimum} años o más; los menores no pueden participar.`,
+  ruleSupervision: (age) => `Los voluntarios menores de ${age} años necesitan la supervisión de un adulto y una autorización firmada para menores.`,
+  ruleSupervisionMinimum: (age, minimum) =>
+    `Los voluntarios menores de ${age} años necesitan la supervisión de un adulto y una autorización firmada para menores, y deben tener al menos ${minimum} años.`,
+  ruleIndividualsOnly: "Solo voluntarios individuales; esta oportunidad no está preparada para grupos.",
+  ruleLargeGroup: (max) => `Los grupos de más de ${max} personas necesitan un acuerdo especial con la oficina de voluntariado y aviso con anticipación.`,
+  ruleSkills: (skills) => `Requiere habilidades de ${skills.join(" o ")}.`,
+  ruleBackgroundCheck: "Se requiere una verificación de antecedentes.",
+  ruleNoShifts: (schedule) => `No hay turnos en su disponibilidad (horario: ${schedule}).`,
+  ruleArrangedTimes: (schedule) => `Los horarios se acuerdan con el coordinador (${schedule}).`,
+  eligibilityError: "Lo sentimos, se produjo un error al comprobar la elegibilidad. Escriba a volunteer@cctwincities.org o llame al (612) 204-8435.",
+
+  groupPlanHeading: (size, youngest) => `Plan de voluntariado en grupo: ${size} personas, la más joven de ${youngest} años`,
+  noGroupOptions: (onPreferredDates) =>
+    `Ninguna oportunidad para grupos coincide con este grupo${onPreferredDates ? " en las fechas preferidas" : ""}. Pruebe otras fechas o comuníquese con la oficina de voluntariado para ver opciones.`,
+  wholeGroupTogether: "Todo el grupo puede participar junto en cualquiera de estas:",
+  splitIntoTeams: (teams) => `Ninguna oportunidad tiene cupo para todo el grupo, así que divídalo en ${teams} equipos:`,
+  suggestedStartingPoint: "Punto de partida sugerido para hablar con la oficina de voluntariado:",
+  specialArrangementNeeded: "Se necesita un acuerdo especial",
+  draftInquiryEmail: "Borrador del correo de consulta",
+  emailTo: "Para",
+  emailSubject: "Asunto",
+  volunteerOffice: "Oficina de voluntariado",
+  people: (count) => `${count} personas`,
+  upToPeople: (count) => `hasta ${count} personas`,
+  arrangeTeams: "comuníquese con el coordinador para organizar los equipos",
+  scheduleArranged: "horario acordado con el coordinador",
+  largeGroupReason: (min) => `Los grupos de ${min} personas o más necesitan un acuerdo especial con aviso anticipado.`,
+  groupTooBigReason: "El grupo es más grande de lo que las oportunidades en estas fechas pueden recibir juntas.",
+  inquirySubject: (group) => `Consulta de voluntariado en grupo: ${group}`,
+  groupOf: (size) => `grupo de ${size}`,
+  ourGroup: "nuestro grupo",
+  inquiryGreeting: "Hola, equipo de voluntariado de Catholic Charities:",
+  inquiryIntro: (group) => `Les escribo en nombre de ${group} para participar juntos como voluntarios. Estos son nuestros datos:`,
+  inquiryGroupSize: (size) => `- Tamaño del grupo: ${size} personas`,
+  inquiryYoungest: (age, minors) =>
+    `- Integrante más joven: ${age} años${minors ? " (los menores tendrán supervisión de un adulto y autorizaciones firmadas)" : ""}`,
+  inquiryDates: (dates) => `- Fechas preferidas: ${dates.length > 0 ? dates.join(", ") : "flexibles"}`,
+  inquiryOpportunities: (titles) => `- Oportunidades que nos interesan: ${titles.join("; ")}`,
+  inquiryQuestion: "¿Podrían indicarnos cómo sería un acuerdo especial para un grupo de nuestro tamaño y qué fechas son posibles?",
+  inquiryClosing: ["Gracias,", "[Su nombre]", "[Número de teléfono]"],
+  groupPlanError: "Lo sentimos, se produjo un error al planificar el voluntariado en grupo. Escriba a volunteer@cctwincities.org o llame al (612) 204-8435.",
+
+  contactRequired: "Indique un correo electrónico o un número de teléfono para que el coordinador de voluntariado pueda comunicarse con usted.",
+  unknownOpportunity: (id) => `No hay ninguna oportunidad de voluntariado con el id "${id}". Use get_volunteer_opportunities para encontrar el id de la oportunidad.`,
+  inquiryReceived: (name) => `¡Gracias, ${name}! Recibimos su interés en ser voluntario.`,
+  confirmationId: "Número de confirmación",
+  opportunity: "Oportunidad",
+  groupSize: "Tamaño del grupo",
+  availability: "Disponibilidad",
+  individualsNote: "Nota: esta oportunidad suele ser para voluntarios individuales, así que el coordinador puede sugerir alternativas para su grupo.",
+  coordinatorWillContact: (contacts) => `Un coordinador de voluntariado se comunicará con usted en ${contacts.join(" o ")}.`,
+  inquiryQuestions: (email, phone) => `¿Preguntas? ${email} | ${phone} (mencione su número de confirmación)`,
+  signUpDirectly: (url) => `También puede inscribirse directamente: ${url}`,
+  inquiryError: "Lo sentimos, no se pudo guardar su consulta. Escriba a volunteer@cctwincities.org o llame al (612) 204-8435.",
+
+  verdicts: { accepted: "✅ Sí, se puede donar", rejected: "❌ Lo sentimos, no se puede aceptar", call_to_confirm: "📞 Llame para confirmar" },
+  itemConditions: { new: "nuevo", used: "usado", expired: "vencido" },
+  wishlistCategory: "Categoría de la lista",
+  questions: "Preguntas",
+  fullWishlist: "Lista completa",
+  reasonNotAccepted: (entry) => `No se acepta: ${entry}.`,
+  reasonRestricted: (category, restrictions) => `Donaciones de ${category}: ${restrictions}.`,
+  reasonMustBeNew: "Todos los artículos donados deben ser nuevos y sin usar.",
+  reasonNotOnWishlist: "Este artículo no está en la lista actual. Llame o escriba al centro de distribución para preguntar si lo pueden usar.",
+  reasonOtherStyles: (item) => `La lista pide ${item}. Llame para confirmar si se necesitan otras tallas o estilos.`,
+  reasonOutsideSize: (size) => `La lista pide ${size}, y esta talla está fuera de ese rango. Llame para confirmar antes de entregarlo.`,
+  reasonOnWishlist: (category, item) => `En la lista de ${category}: ${item}.`,
+  reasonCheckSize: (size) => `Asegúrese de que la talla coincida (${size}).`,
+  donationCheckError: "Lo sentimos, se produjo un error al comprobar este artículo. Escriba a carys.church@cctwincities.org o llame al (612) 204-8295.",
+
+  locationRequired: "Indique un código postal (near_zip) o coordenadas (near_lat y near_lng) para encontrar las sedes cercanas.",
+  nearZip: (zip) => `el código postal ${zip}`,
+  yourLocation: "su ubicación",
+  noNearbyLocations: (origin, openNow, radius, phone) =>
+    `No se encontraron sedes de Catholic Charities${openNow ? " abiertas" : ""}${radius !== undefined ? ` a menos de ${radius} millas` : ""} cerca de ${origin}. Pruebe un radio mayor${openNow ? " o una hora más tarde" : ""}, o llame al ${phone}.`,
+  nearestLocations: (origin) => `Sedes de Catholic Charities más cercanas a ${origin}:`,
+  miles: (miles) => `${miles} millas`,
+  nearbyError: "Lo sentimos, se produjo un error al buscar sedes cercanas. Escriba a info@cctwincities.org o llame al (612) 204-8500.",
+
+  upcomingEventsHeading: "Próximos eventos de Catholic Charities Twin Cities",
+  noUpcomingEvents: (calendarUrl, email) =>
+    `Ningún evento próximo de Catholic Charities Twin Cities coincide con su búsqueda. Vea el calendario completo en ${calendarUrl} o escriba a ${email}.`,
+  eventsError: "Lo sentimos, se produjo un error al buscar eventos. Escriba a info@cctwincities.org o llame al (612) 204-8500.",
+
+  calendarTitle: (name) => `Calendario: ${name}`,
+  calendarEntries: (count) => `${count} evento${count === 1 ? "" : "s"}`,
+  downloadCalendar: (url) => `Descargue y abra este archivo para agregarlo a su calendario: ${url}`,
+  emptyCalendar: (name, email) =>
+    `No hay turnos ni eventos próximos de "${name}" para agregar a un calendario. Las oportunidades flexibles se programan directamente con el coordinador de voluntariado en ${email}.`,
+  calendarNoOpportunity: (id) => `No hay ninguna oportunidad de voluntariado con el id "${id}"`,
+  calendarNoEvent: (query) => `No hay ningún evento próximo que coincida con "${query}"`,
+  calendarSelectionHelp: (detail) => `${detail}. Use get_volunteer_opportunities o search_org_info para encontrar el id o el nombre del evento correcto.`,
+  volunteerCoordinator: "Coordinador de voluntariado",
+  calendarError: "Lo sentimos, se produjo un error al crear el archivo de calendario. Escriba a volunteer@cctwincities.org o llame al (612) 204-8435.",
+};
+
+const hmn: Messages = {
+  weekdays: ["Hnub Xya", "Hnub Ib", "Hnub Ob", "Hnub Peb", "Hnub Plaub", "Hnub Tsib", "Hnub Rau"],
+  weekdaysShort: ["Hnub Xya", "Hnub Ib", "Hnub Ob", "Hnub Peb", "Hnub Plaub", "Hnub Tsib", "Hnub Rau"],
+  monthsShort: ["Ib Hlis", "Ob Hlis", "Peb Hlis", "Plaub Hlis", "Tsib Hlis", "Rau Hli", "Xya Hli", "Yim Hli", "Cuaj Hli", "Kaum Hli", "Kaum Ib Hlis", "Kaum Ob Hlis"],
+  shortDate: (weekday, month, day) => `${weekday}, ${day} ${month}`,
+  everyWeekday: (weekday) => `txhua ${weekday}`,
+  today: "hnub no",
+  tomorrow: "tag kis",
+  open24Hours: "Qhib 24 teev",
+  open24HoursDaily: "Qhib 24 teev, 7 hnub hauv ib lub lim tiam",
+  byAppointment: "Yuav tsum teem sij hawm ua ntej",
+  hoursByAppointment: "Sij hawm qhib: yuav tsum teem sij hawm ua ntej",
+  openUntil: (time) => `Qhib tam sim no txog ${time}`,
+  closedNow: "Kaw lawm tam sim no",
+  closedToday: (closure) => `Hnub no kaw (${closure})`,
+  opensAt: (closed, when, time) => `${closed}. Yuav qhib ${when} thaum ${time}`,
+  months: ["Ib Hlis", "Ob Hlis", "Peb Hlis", "Plaub Hlis", "Tsib Hlis", "Rau Hli", "Xya Hli", "Yim Hli", "Cuaj Hli", "Kaum Hli", "Kaum Ib Hlis", "Kaum Ob Hlis"],
+  longDate: (weekday, month, day, year) => `${weekday}, ${day} ${month} ${year}`,
+  inDays: (days) => `${days} hnub ntxiv`,
+
+  phone: "Xov tooj",
+  email: "Email",
+  hours: "Sij hawm qhib",
+  status: "Xwm txheej",
+  source: "Qhov chaw muab",
+  contact: "Tiv tauj",
+  online: "Hauv online",
+
+  noOpportunities: "Tsis muaj txoj hauj lwm pab dawb twg raws li koj xav tau. Sim hloov koj cov kev xaiv los sis tiv tauj volunteer@cctwincities.org ntawm (612) 204-8435 kom paub txog lwm txoj kev pab.",
+  foundOpportunities: (count) => `Nrhiav tau ${count} txoj hauj lwm pab dawb`,
+  showingRange: (from, to) => `qhia ${from}-${to}`,
+  milesAway: (miles) => `deb ${miles} mais`,
+  schedule: "Sij hawm",
+  nextShifts: "Sij hawm ua hauj lwm tom ntej",
+  noneScheduled: "tseem tsis tau teem",
+  age: "Hnub nyoog",
+  groupFriendly: (max) => `Tuaj ua pab pawg tau (ntau tshaj plaws ${max} leeg)`,
+  notAvailable: "tsis paub",
+  skills: "Txuj ci",
+  signUp: "Sau npe",
+  moreOpportunities: (cursor) => `Tseem muaj ntxiv: hu dua nrog cursor "${cursor}".`,
+  generalVolunteerContact: "Tiv tauj txog kev pab dawb",
+  invalidCursor: (detail) => `${detail}. Rov nrhiav dua yam tsis siv cursor kom pib ntawm nplooj ntawv thawj.`,
+  geoLookupFailed: (detail) => `Nrhiav tsis tau qhov chaw ntawd (${detail}). Sim siv ib tus ZIP code ze Minneapolis los sis St. Paul, los sis muab near_lat/near_lng.`,
+  volunteerSearchError: "Thov txim, muaj teeb meem thaum nrhiav hauj lwm pab dawb. Thov sim dua los sis tiv tauj volunteer@cctwincities.org ntawm (612) 204-8435.",
+
+  onlineTitle: "Pub nyiaj hauv online rau Catholic Charities Twin Cities",
+  donateOnlineAt: (url) => `Pub nyiaj kom ruaj ntseg hauv online ntawm: ${url}`,
+  donationTypes: "Hom kev pub",
+  givingQuestions: "Muaj lus nug txog kev pub?",
+  inKindTitle: "Pub khoom rau Catholic Charities Twin Cities",
+  currentlyAccepting: "Tam sim no txais (tsuas yog khoom TSHIAB xwb)",
+  notAccepted: "TSIS txais",
+  dropOffLocation: "Qhov chaw xa khoom",
+  importantPolicies: "Cov cai tseem ceeb",
+  viewWishlist: (url) => `Saib daim ntawv teev khoom xav tau tag nrho: ${url}`,
+  vehicleTitle: "Pub tsheb rau Catholic Charities Twin Cities",
+  toDonateVehicle: "Yuav pub koj lub tsheb",
+  vehiclesAccepted: "Txais: tsheb, tsheb thauj khoom, tsheb rub, nkoj, tsheb RV, maus taus, thiab lwm yam tsheb muaj cav.",
+  donationError: "Thov txim, muaj teeb meem thaum nrhiav cov ntaub ntawv txog kev pub. Thov tiv tauj giving.info@cctwincities.org ntawm (612) 204-8374.",
+
+  missionHeading: "Lub hom phiaj",
+  founded: (founded, years) => `Pib xyoo ${founded}, Catholic Charities tau pab Twin Cities tau ${years} xyoo lawm.`,
+  servicesOverviewHeading: "Cov kev pab cuam",
+  servicesOverviewIntro: "Catholic Charities Twin Cities muaj cov kev pab cuam tseem ceeb no:",
+  statsHeading: "Kev pab thiab cov lej",
+  statsIntro: "Catholic Charities Twin Cities pab zej zog heev:",
+  peopleServed: (count) => `**${count}** tus neeg tau kev pab txhua xyoo`,
+  mealsServed: (count) => `**${count}** pluag mov txhua xyoo`,
+  nightsOfHousing: (count) => `**${count}** hmo chaw pw txhua xyoo`,
+  volunteersAnnually: (count) => `**${count}** tus neeg pab dawb txhua xyoo`,
+  volunteerHours: (count) => `**${count}+** teev pab dawb txhua xyoo`,
+  yearsServing: (years) => `**${years}** xyoo pab Twin Cities`,
+  contactHeading: "Kev tiv tauj",
+  mainOffice: "Chaw ua hauj lwm loj",
+  volunteerInquiries: "Lus nug txog kev pab dawb",
+  donationInquiries: "Lus nug txog kev pub",
+  aboutHeading: "Txog Catholic Charities Twin Cities",
+  servingSince: (area, founded) => `Pab ${area} txij xyoo ${founded}.`,
+  relevance: (score, fields) => `haum ${score}; phim: ${fields}`,
+  orgSearchError: "Thov txim, muaj teeb meem thaum nrhiav cov ntaub ntawv txog lub koom haum. Thov tiv tauj info@cctwincities.org ntawm (612) 204-8500.",
+
+  urgentHeading: "Kev pab tam sim no",
+  callOrTextNow: "Hu los sis xa ntawv tam sim no",
+  call: (phone) => `hu ${phone}`,
+  text: (number) => `xa ntawv rau ${number}`,
+  needHeadings: { safety: "Yog tias koj tsis muaj kev nyab xeeb", shelter: "Qhov chaw pw hmo no", food: "Zaub mov hnub no" },
+  mainLine: (phone) => `Catholic Charities tus xov tooj loj: ${phone}`,
+  immediateHelpError: "Thov txim, muaj teeb meem. Yog tias koj xav tau kev pab tam sim no, hu 211, los sis 911 thaum muaj xwm ceev.",
+
+  eligibilityHeading: "Kev tsim nyog ua neeg pab dawb",
+  eligibleHeading: "✅ Tsim nyog",
+  eligibleWithConditionsHeading: "⚠️ Tsim nyog tab sis muaj cai",
+  notEligibleHeading: "❌ Tsis tsim nyog",
+  questionsContact: (email, phone) => `Muaj lus nug? Tiv tauj ${email} | ${phone}`,
+  ruleGroupTooYoung: (minimum, youngest) => `Txhua tus neeg pab dawb yuav tsum muaj hnub nyoog tsawg kawg ${minimum} xyoos (tus yau tshaj muaj ${youngest} xyoos).`,
+  ruleTooYoung: (minimum, age) => `Cov neeg pab dawb yuav tsum muaj hnub nyoog tsawg kawg ${minimum} xyoos (koj muaj ${age} xyoos).`,
+  ruleAdultsOnly: (minimum) => `Cov neeg pab dawb yuav tsum muaj ${minimum} xyoos los sis laus dua; cov menyuam yaus koom tsis tau.`,
+  ruleSupervision: (age) => `Cov neeg pab dawb hnub nyoog qis dua ${age} xyoos yuav tsum muaj neeg laus saib xyuas thiab daim ntawv tso cai rau menyuam yaus uas tau kos npe.`,
+  ruleSupervisionMinimum: (age, minimum) =>
+    `Cov neeg pab dawb hnub nyoog qis dua ${age} xyoos yuav tsum muaj neeg laus saib xyuas thiab daim ntawv tso cai rau menyuam yaus uas tau kos npe, thiab yuav tsum muaj tsawg kawg ${minimum} xyoos.`,
+  ruleIndividualsOnly: "Tsuas yog rau ib tus zuj zus xwb; txoj hauj lwm no tsis tau npaj rau pab pawg.",
+  ruleLargeGroup: (max) => `Pab pawg uas muaj ntau tshaj ${max} leeg yuav tsum tham npaj tshwj xeeb nrog chaw ua hauj lwm pab dawb thiab qhia ua ntej.`,
+  ruleSkills: (skills) => `Yuav tsum txawj ${skills.join(" los sis ")}.`,
+  ruleBackgroundCheck: "Yuav tsum tshawb xyuas keeb kwm.",
+  ruleNoShifts: (schedule) => `Tsis muaj sij hawm ua hauj lwm thaum koj khoom (sij hawm: ${schedule}).`,
+  ruleArrangedTimes: (schedule) => `Sij hawm yog teem nrog tus neeg saib xyuas (${schedule}).`,
+  eligibilityError: "Thov txim, muaj teeb meem thaum kuaj xyuas kev tsim nyog. Thov tiv tauj volunteer@cctwincities.org ntawm (612) 204-8435.",
+
+  groupPlanHeading: (size, youngest) => `Txoj kev npaj pab dawb ua pab pawg: ${size} leeg, tus yau tshaj ${youngest} xyoos`,
+  noGroupOptions: (onPreferredDates) =>
+    `Tsis muaj txoj hauj lwm pab pawg twg haum pab pawg no${onPreferredDates ? " rau cov hnub koj xaiv" : ""}. Sim lwm hnub, los sis tiv tauj chaw ua hauj lwm pab dawb los tham txog lwm txoj kev.`,
+  wholeGroupTogether: "Tag nrho pab pawg tuaj pab ua ke tau ntawm ib qho twg no:",
+  splitIntoTeams: (teams) => `Tsis muaj ib txoj hauj lwm twg txais tau tag nrho pab pawg, yog li faib ua ${teams} pab:`,
+  suggestedStartingPoint: "Qhov pib uas peb xav kom koj tham nrog chaw ua hauj lwm pab dawb:",
+  specialArrangementNeeded: "Yuav tsum tham npaj tshwj xeeb",
+  draftInquiryEmail: "Email nug uas sau tseg lawm",
+  emailTo: "Xa rau",
+  emailSubject: "Lub npe",
+  volunteerOffice: "Chaw ua hauj lwm pab dawb",
+  people: (count) => `${count} leeg`,
+  upToPeople: (count) => `txog ${count} leeg`,
+  arrangeTeams: "tiv tauj tus neeg saib xyuas los npaj cov pab",
+  scheduleArranged: "sij hawm teem nrog tus neeg saib xyuas",
+  largeGroupReason: (min) => `Pab pawg uas muaj ${min} leeg los sis ntau dua yuav tsum tham npaj tshwj xeeb thiab qhia ua ntej.`,
+  groupTooBigReason: "Pab pawg loj dua qhov uas cov hauj lwm rau cov hnub no txais tau ua ke.",
+  inquirySubject: (group) => `Lus nug txog kev pab dawb ua pab pawg: ${group}`,
+  groupOf: (size) => `pab pawg ${size} leeg`,
+  ourGroup: "peb pab pawg",
+  inquiryGreeting: "Nyob zoo pab neeg pab dawb ntawm Catholic Charities,",
+  inquiryIntro: (group) => `Kuv sau los sawv cev rau ${group} txog kev tuaj pab dawb ua ke. No yog peb cov ntsiab lus:`,
+  inquiryGroupSize: (size) => `- Pab pawg muaj: ${size} leeg`,
+  inquiryYoungest: (age, minors) =>
+    `- Tus yau tshaj: ${age} xyoos${minors ? " (cov menyuam yaus yuav muaj neeg laus saib xyuas thiab daim ntawv tso cai uas tau kos npe)" : ""}`,
+  inquiryDates: (dates) => `- Hnub peb xav tau: ${dates.length > 0 ? dates.join(", ") : "hnub twg los tau"}`,
+  inquiryOpportunities: (titles) => `- Cov hauj lwm peb xav ua: ${titles.join("; ")}`,
+  inquiryQuestion: "Koj puas qhia tau peb tias kev npaj tshwj xeeb rau ib pab pawg loj li peb yuav zoo li cas, thiab hnub twg ua tau?",
+  inquiryClosing: ["Ua tsaug,", "[Koj lub npe]", "[Xov tooj]"],
+  groupPlanError: "Thov txim, muaj teeb meem thaum npaj kev pab dawb ua pab pawg. Thov tiv tauj volunteer@cctwincities.org ntawm (612) 204-8435.",
+
+  contactRequired: "Thov muab email los sis xov tooj kom tus neeg saib xyuas kev pab dawb tiv tauj tau koj.",
+  unknownOpportunity: (id) => `Tsis muaj txoj hauj lwm pab dawb uas muaj id "${id}". Siv get_volunteer_opportunities los nrhiav id.`,
+  inquiryReceived: (name) => `Ua tsaug, ${name}! Peb tau txais koj qhov kev xav pab dawb lawm.`,
+  confirmationId: "Tus lej lees paub",
+  opportunity: "Txoj hauj lwm",
+  groupSize: "Pab pawg muaj",
+  availability: "Sij hawm khoom",
+  individualsNote: "Nco ntsoov: txoj hauj lwm no feem ntau yog rau ib tus zuj zus, yog li tus neeg saib xyuas yuav qhia lwm txoj rau koj pab pawg.",
+  coordinatorWillContact: (contacts) => `Ib tus neeg saib xyuas kev pab dawb yuav tiv tauj koj ntawm ${contacts.join(" los sis ")}.`,
+  inquiryQuestions: (email, phone) => `Muaj lus nug? ${email} | ${phone} (hais koj tus lej lees paub)`,
+  signUpDirectly: (url) => `Koj kuj sau npe tau ncaj qha: ${url}`,
+  inquiryError: "Thov txim, khaws tsis tau koj cov lus nug. Thov tiv tauj volunteer@cctwincities.org ntawm (612) 204-8435.",
+
+  verdicts: { accepted: "✅ Yog, pub tau", rejected: "❌ Thov txim, txais tsis tau", call_to_confirm: "📞 Hu xov tooj nug ua ntej" },
+  itemConditions: { new: "tshiab", used: "siv lawm", expired: "tas sij hawm lawm" },
+  wishlistCategory: "Pawg khoom xav tau",
+  questions: "Lus nug",
+  fullWishlist: "Daim ntawv teev khoom xav tau tag nrho",
+  reasonNotAccepted: (entry) => `Tsis txais: ${entry}.`,
+  reasonRestricted: (category, restrictions) => `Kev pub ${category}: ${restrictions}.`,
+  reasonMustBeNew: "Txhua yam khoom pub yuav tsum yog khoom tshiab thiab tsis tau siv.",
+  reasonNotOnWishlist: "Yam khoom no tsis nyob hauv daim ntawv teev khoom xav tau tam sim no. Hu los sis email mus rau chaw faib khoom nug seb lawv puas siv tau.",
+  reasonOtherStyles: (item) => `Daim ntawv teev khoom xav tau ${item}. Hu nug seb puas xav tau lwm qhov loj me los sis lwm hom.`,
+  reasonOutsideSize: (size) => `Daim ntawv teev khoom xav tau ${size}, thiab qhov loj me no tsis nyob hauv qhov ntawd. Hu nug ua ntej koj coj tuaj.`,
+  reasonOnWishlist: (category, item) => `Nyob hauv daim ntawv teev ${category}: ${item}.`,
+  reasonCheckSize: (size) => `Xyuas kom qhov loj me haum (${size}).`,
+  donationCheckError: "Thov txim, muaj teeb meem thaum kuaj yam khoom no. Thov tiv tauj carys.church@cctwincities.org ntawm (612) 204-8295.",
+
+  locationRequired: "Thov muab ZIP code (near_zip) los sis coordinates (near_lat thiab near_lng) los nrhiav cov chaw nyob ze.",
+  nearZip: (zip) => `ZIP ${zip}`,
+  yourLocation: "koj qhov chaw",
+  noNearbyLocations: (origin, openNow, radius, phone) =>
+    `Nrhiav tsis tau Catholic Charities qhov chaw${openNow ? " uas qhib" : ""}${radius !== undefined ? ` hauv ${radius} mais` : ""} ze ${origin}. Sim nrhiav deb dua${openNow ? " los sis lwm lub sij hawm" : ""}, los sis hu ${phone}.`,
+  nearestLocations: (origin) => `Catholic Charities cov chaw ze ${origin} tshaj:`,
+  miles: (miles) => `${miles} mais`,
+  nearbyError: "Thov txim, muaj teeb meem thaum nrhiav cov chaw nyob ze. Thov tiv tauj info@cctwincities.org ntawm (612) 204-8500.",
+
+  upcomingEventsHeading: "Catholic Charities Twin Cities cov kev tshwm sim tom ntej",
+  noUpcomingEvents: (calendarUrl, email) =>
+    `Tsis muaj Catholic Charities Twin Cities kev tshwm sim tom ntej twg haum koj qhov nrhiav. Saib daim ntawv qhia hnub tag nrho ntawm ${calendarUrl} los sis tiv tauj ${email}.`,
+  eventsError: "Thov txim, muaj teeb meem thaum nrhiav cov kev tshwm sim. Thov tiv tauj info@cctwincities.org ntawm (612) 204-8500.",
+
+  calendarTitle: (name) => `Daim ntawv qhia hnub: ${name}`,
+  calendarEntries: (count) => `${count} yam`,
+  downloadCalendar: (url) => `Rub thiab qhib cov ntaub ntawv no kom ntxiv rau koj daim ntawv qhia hnub: ${url}`,
+  emptyCalendar: (name, email) =>
+    `Tsis muaj sij hawm ua hauj lwm los sis kev tshwm sim tom ntej rau "${name}" los ntxiv rau daim ntawv qhia hnub. Cov hauj lwm uas sij hawm hloov tau yog teem ncaj qha nrog tus neeg saib xyuas kev pab dawb ntawm ${email}.`,
+  calendarNoOpportunity: (id) => `Tsis muaj txoj hauj lwm pab dawb uas muaj id "${id}"`,
+  calendarNoEvent: (query) => `Tsis muaj kev tshwm sim tom ntej uas haum "${query}"`,
+  calendarSelectionHelp: (detail) => `${detail}. Siv get_volunteer_opportunities los sis search_org_info los nrhiav tus id los sis lub npe kev tshwm sim.`,
+  volunteerCoordinator: "Tus neeg saib xyuas kev pab dawb",
+  calendarError: "Thov txim, muaj teeb meem thaum ua daim ntawv qhia hnub. Thov tiv tauj volunteer@cctwincities.org ntawm (612) 204-8435.",
+};
+
+const so: Messages = {
+  weekdays: ["Axad", "Isniin", "Talaado", "Arbaco", "Khamiis", "Jimco", "Sabti"],
+  weekdaysShort: ["Axd", "Isn", "Tldo", "Arbc", "Khms", "Jmc", "Sbti"],
+  monthsShort: ["Jan", "Feb", "Mar", "Abr", "May", "Jun", "Lul", "Ogs", "Seb", "Okt", "Nof", "Dis"],
+  shortDate: (weekday, month, day) => `${weekday}, ${day} ${month}`,
+  everyWeekday: (weekday) => `${weekday} kasta`,
+  today: "maanta",
+  tomorrow: "berri",
+  open24Hours: "Furan 24 saac",
+  open24HoursDaily: "Furan 24 saac, 7 maalmood toddobaadkii",
+  byAppointment: "Ballan kaliya",
+  hoursByAppointment: "Saacadaha: ballan kaliya",
+  openUntil: (time) => `Hadda waa furan yahay ilaa ${time}`,
+  closedNow: "Hadda waa xiran yahay",
+  closedToday: (closure) => `Maanta waa xiran yahay (${closure})`,
+  opensAt: (closed, when, time) => `${closed}. Wuxuu furmayaa ${when} saacadda ${time}`,
+  months: ["Janaayo", "Febraayo", "Maarso", "Abriil", "Maajo", "Juun", "Luulyo", "Ogosto", "Sebtembar", "Oktoobar", "Nofembar", "Desembar"],
+  longDate: (weekday, month, day, year) => `${weekday}, ${day} ${month} ${year}`,
+  inDays: (days) => `${days} maalmood kadib`,
+
+  phone: "Telefoon",
+  email: "Iimayl",
+  hours: "Saacadaha",
+  status: "Xaaladda",
+  source: "Isha",
+  contact: "Xiriir",
+  online: "Onlayn",
+
+  noOpportunities: "Ma jiraan fursado tabarruc oo ku habboon shuruudahaaga. Isku day inaad beddesho shaandhooyinka ama la xiriir volunteer@cctwincities.org ama (612) 204-8435 si aad u hesho fursado kale.",
+  foundOpportunities: (count) => `Waxaa la helay ${count} fursad${count === 1 ? "" : "ood"} oo tabarruc ah`,
+  showingRange: (from, to) => `waxaa la muujinayaa ${from}-${to}`,
+  milesAway: (miles) => `${miles} mayl u jirta`,
+  schedule: "Jadwalka",
+  nextShifts: "Wareegyada xiga",
+  noneScheduled: "midna lama qorsheyn",
+  age: "Da'da",
+  groupFriendly: (max) => `Kooxaha waa la aqbalaa (ugu badnaan ${max})`,
+  notAvailable: "lama hayo",
+  skills: "Xirfadaha",
+  signUp: "Isdiiwaangeli",
+  moreOpportunities: (cursor) => `Fursado kale ayaa jira: mar kale wac adigoo isticmaalaya cursor "${cursor}".`,
+  generalVolunteerContact: "Xiriirka guud ee tabarrucayaasha",
+  invalidCursor: (detail) => `${detail}. Ku celi raadinta adigoon isticmaalin cursor si aad uga bilowdo bogga koowaad.`,
+  geoLookupFailed: (detail) => `Goobtaas lama heli karo (${detail}). Isku day koodh ZIP u dhow Minneapolis ama St. Paul, ama bixi near_lat/near_lng.`,
+  volunteerSearchError: "Waan ka xunnahay, cilad ayaa dhacday markii la raadinayay fursadaha tabarruca. Fadlan isku day mar kale ama la xiriir volunteer@cctwincities.org ama (612) 204-8435.",
+
+  onlineTitle: "Ku deeq onlayn Catholic Charities Twin Cities",
+  donateOnlineAt: (url) => `Si ammaan ah onlayn ugu deeq: ${url}`,
+  donationTypes: "Noocyada deeqda",
+  givingQuestions: "Su'aalo ku saabsan deeqda?",
+  inKindTitle: "Deeqaha alaabta ee Catholic Charities Twin Cities",
+  currentlyAccepting: "Hadda waxaan aqbalnaa (alaab CUSUB oo kaliya)",
+  notAccepted: "LAMA aqbalo",
+  dropOffLocation: "Goobta lagu keeno",
+  importantPolicies: "Xeerarka muhiimka ah",
+  viewWishlist: (url) => `Eeg liiska buuxa ee alaabta loo baahan yahay: ${url}`,
+  vehicleTitle: "Ku deeq gaari Catholic Charities Twin Cities",
+  toDonateVehicle: "Si aad gaarigaaga ugu deeqdo",
+  vehiclesAccepted: "Waa la aqbalaa: baabuurta, gawaarida xamuulka, tarellada, doonyaha, RV-yada, mootooyinka iyo gawaarida kale ee matoorka leh.",
+  donationError: "Waan ka xunnahay, cilad ayaa dhacday markii la helayay macluumaadka deeqda. Fadlan la xiriir giving.info@cctwincities.org ama (612) 204-8374.",
+
+  missionHeading: "Hadafka",
+  founded: (founded, years) => `Waxaa la aasaasay ${founded}, Catholic Charities waxay u adeegaysay Twin Cities ${years} sano.`,
+  servicesOverviewHeading: "Guudmarka adeegyada",
+  servicesOverviewIntro: "Catholic Charities Twin Cities waxay bixisaa adeegyadan muhiimka ah:",
+  statsHeading: "Saamaynta iyo tirakoobka",
+  statsIntro: "Catholic Charities Twin Cities waxay bulshada u adeegtaa saamayn weyn:",
+  peopleServed: (count) => `**${count}** qof ayaa sanad walba la caawiyaa`,
+  mealsServed: (count) => `**${count}** cunto ayaa sanad walba la bixiyaa`,
+  nightsOfHousing: (count) => `**${count}** habeen hoy ah ayaa sanad walba la bixiyaa`,
+  volunteersAnnually: (count) => `**${count}** tabarrucayaal sanad walba`,
+  volunteerHours: (count) => `**${count}+** saacadood oo tabarruc ah sanad walba`,
+  yearsServing: (years) => `**${years}** sano oo u adeegid Twin Cities`,
+  contactHeading: "Macluumaadka xiriirka",
+  mainOffice: "Xafiiska guud",
+  volunteerInquiries: "Su'aalaha tabarruca",
+  donationInquiries: "Su'aalaha deeqda",
+  aboutHeading: "Ku saabsan Catholic Charities Twin Cities",
+  servingSince: (area, founded) => `U adeegaysa ${area} tan iyo ${founded}.`,
+  relevance: (score, fields) => `ku habboonaan ${score}; waafaqsan: ${fields}`,
+  orgSearchError: "Waan ka xunnahay, cilad ayaa dhacday markii la raadinayay macluumaadka hay'adda. Fadlan la xiriir info@cctwincities.org ama (612) 204-8500.",
+
+  urgentHeading: "Caawimaad hadda",
+  callOrTextNow: "Hadda wac ama fariin dir",
+  call: (phone) => `wac ${phone}`,
+  text: (number) => `fariin u dir ${number}`,
+  needHeadings: { safety: "Haddii aadan nabad ahayn", shelter: "Meel aad caawa seexato", food: "Cunto maanta" },
+  mainLine: (phone) => `Khadka guud ee Catholic Charities: ${phone}`,
+  immediateHelpError: "Waan ka xunnahay, cilad ayaa dhacday. Haddii aad hadda caawimaad u baahan tahay, wac 211, ama 911 xaalad degdeg ah.",
+
+  eligibilityHeading: "U qalmitaanka tabarruca",
+  eligibleHeading: "✅ Waad u qalantaa",
+  eligibleWithConditionsHeading: "⚠️ Waad u qalantaa shuruud ahaan",
+  notEligibleHeading: "❌ Uma qalantid",
+  questionsContact: (email, phone) => `Su'aalo? La xiriir ${email} | ${phone}`,
+  ruleGroupTooYoung: (minimum, youngest) => `Tabarrucayaasha oo dhan waa inay jiraan ugu yaraan ${minimum} sano (kan ugu yar wuxuu jiraa ${youngest}).`,
+  ruleTooYoung: (minimum, age) => `Tabarrucayaashu waa inay jiraan ugu yaraan ${minimum} sano (adigu waxaad jirtaa ${age}).`,
+  ruleAdultsOnly: (minimum) => `Tabarrucayaashu waa inay jiraan ${minimum} sano ama ka weyn; carruurta kama qayb geli karaan.`,
+  ruleSupervision: (age) => `Tabarrucayaasha ka yar ${age} sano waxay u baahan yihiin qof weyn oo kormeera iyo foomka oggolaanshaha carruurta oo la saxiixay.`,
+  ruleSupervisionMinimum: (age, minimum) =>
+    `Tabarrucayaasha ka yar ${age} sano waxay u baahan yihiin qof weyn oo kormeera iyo foomka oggolaanshaha carruurta oo la saxiixay, waana inay jiraan ugu yaraan ${minimum} sano.`,
+  ruleIndividualsOnly: "Shakhsiyaad kaliya; fursaddan looma diyaarin kooxo.",
+  ruleLargeGroup: (max) => `Kooxaha ka badan ${max} qof waxay u baahan yihiin diyaarin gaar ah oo lala sameeyo xafiiska tabarruca iyo ogeysiis hore.`,
+  ruleSkills: (skills) => `Waxay u baahan tahay ${skills.join(" ama ")}.`,
+  ruleBackgroundCheck: "Baaritaan taariikheed ayaa loo baahan yahay.",
+  ruleNoShifts: (schedule) => `Ma jiraan wareegyo ku beegan waqtiga aad bannaan tahay (jadwalka: ${schedule}).`,
+  ruleArrangedTimes: (schedule) => `Waqtiyada waxaa lagu diyaariyaa isuduwaha (${schedule}).`,
+  eligibilityError: "Waan ka xunnahay, cilad ayaa dhacday markii la hubinayay u qalmitaanka. Fadlan la xiriir volunteer@cctwincities.org ama (612) 204-8435.",
+
+  groupPlanHeading: (size, youngest) => `Qorshaha tabarruca kooxda: ${size} qof, kan ugu yar ${youngest} sano`,
+  noGroupOptions: (onPreferredDates) =>
+    `Ma jiraan fursado kooxeed oo ku habboon kooxdan${onPreferredDates ? " taariikhaha aad dooratay" : ""}. Isku day taariikho kale, ama la xiriir xafiiska tabarruca si aad uga wada hadashaan xulashooyin kale.`,
+  wholeGroupTogether: "Kooxda oo dhan waxay wada tabarrucin karaan mid ka mid ah kuwan:",
+  splitIntoTeams: (teams) => `Ma jirto fursad keliya oo qaadi karta kooxda oo dhan, sidaas darteed u qaybi ${teams} koox:`,
+  suggestedStartingPoint: "Bar bilow ah oo la soo jeediyay si aad ugala hadasho xafiiska tabarruca:",
+  specialArrangementNeeded: "Diyaarin gaar ah ayaa loo baahan yahay",
+  draftInquiryEmail: "Qabyo iimayl su'aal ah",
+  emailTo: "Loo diro",
+  emailSubject: "Mawduuca",
+  volunteerOffice: "Xafiiska tabarruca",
+  people: (count) => `${count} qof`,
+  upToPeople: (count) => `ilaa ${count} qof`,
+  arrangeTeams: "la xiriir isuduwaha si loo diyaariyo kooxaha",
+  scheduleArranged: "jadwalka waxaa lagu diyaariyaa isuduwaha",
+  largeGroupReason: (min) => `Kooxaha ${min} qof ama ka badan waxay u baahan yihiin diyaarin gaar ah iyo ogeysiis hore.`,
+  groupTooBigReason: "Kooxdu way ka weyn tahay inta fursadaha taariikhahan ay wada qaadi karaan.",
+  inquirySubject: (group) => `Su'aal ku saabsan tabarruca kooxda: ${group}`,
+  groupOf: (size) => `koox ${size} qof ah`,
+  ourGroup: "kooxdayada",
+  inquiryGreeting: "Salaan kooxda tabarruca Catholic Charities,",
+  inquiryIntro: (group) => `Waxaan u qorayaa anigoo matalaya ${group} si aan u weydiiyo tabarruc wadajir ah. Faahfaahintayada waa:`,
+  inquiryGroupSize: (size) => `- Tirada kooxda: ${size}`,
+  inquiryYoungest: (age, minors) =>
+    `- Xubinta ugu yar: ${age}${minors ? " (carruurta waxaa kormeeri doona dad waaweyn, foomamka oggolaanshahana waa la saxiixi doonaa)" : ""}`,
+  inquiryDates: (dates) => `- Taariikhaha la door biday: ${dates.length > 0 ? dates.join(", ") : "way furan tahay"}`,
+  inquiryOpportunities: (titles) => `- Fursadaha aan xiisaynayno: ${titles.join("; ")}`,
+  inquiryQuestion: "Ma noo sheegi kartaa sida diyaarin gaar ah oo loogu talagalay koox cabbirkayaga ah ay u ekaan karto, iyo taariikhaha suurtagalka ah?",
+  inquiryClosing: ["Mahadsanid,", "[Magacaaga]", "[Telefoon]"],
+  groupPlanError: "Waan ka xunnahay, cilad ayaa dhacday markii la qorsheynayay tabarruca kooxda. Fadlan la xiriir volunteer@cctwincities.org ama (612) 204-8435.",
+
+  contactRequired: "Fadlan bixi iimayl ama lambar telefoon si isuduwaha tabarrucu kuula soo xiriiro.",
+  unknownOpportunity: (id) => `Ma jirto fursad tabarruc oo leh id "${id}". Isticmaal get_volunteer_opportunities si aad u hesho id-yada.`,
+  inquiryReceived: (name) => `Mahadsanid, ${name}! Xiisahaaga tabarruca waa la helay.`,
+  confirmationId: "Lambarka xaqiijinta",
+  opportunity: "Fursadda",
+  groupSize: "Tirada kooxda",
+  availability: "Waqtiga aad bannaan tahay",
+  individualsNote: "Ogow: fursaddan badanaa waxaa loogu talagalay shakhsiyaad, sidaas darteed isuduwuhu wuxuu kuu sheegi doonaa xulashooyin kale oo kooxdaada ah.",
+  coordinatorWillContact: (contacts) => `Isuduwe tabarruc ayaa kugula soo xiriiri doona ${contacts.join(" ama ")}.`,
+  inquiryQuestions: (email, phone) => `Su'aalo? ${email} | ${phone} (sheeg lambarkaaga xaqiijinta)`,
+  signUpDirectly: (url) => `Waxaad sidoo kale si toos ah isugu diiwaangelin kartaa: ${url}`,
+  inquiryError: "Waan ka xunnahay, su'aashaada lama kaydin karin. Fadlan la xiriir volunteer@cctwincities.org ama (612) 204-8435.",
+
+  verdicts: { accepted: "✅ Haa, waad ku deeqi kartaa", rejected: "❌ Waan ka xunnahay, lama aqbali karo", call_to_confirm: "📞 Marka hore wac si aad u xaqiijiso" },
+  itemConditions: { new: "cusub", used: "la isticmaalay", expired: "dhacay" },
+  wishlistCategory: "Qaybta liiska baahida",
+  questions: "Su'aalo",
+  fullWishlist: "Liiska buuxa ee baahida",
+  reasonNotAccepted: (entry) => `Lama aqbalo: ${entry}.`,
+  reasonRestricted: (category, restrictions) => `Deeqaha ${category}: ${restrictions}.`,
+  reasonMustBeNew: "Deeqaha alaabta oo dhan waa inay noqdaan kuwo cusub oo aan la isticmaalin.",
+  reasonNotOnWishlist: "Alaabtani kuma jirto liiska baahida hadda. Wac ama iimayl u dir xarunta deeqaha si aad u weydiiso inay isticmaali karaan iyo in kale.",
+  reasonOtherStyles: (item) => `Liiska baahidu wuxuu codsanayaa ${item}. Wac si aad u hubiso in cabbirro ama noocyo kale loo baahan yahay.`,
+  reasonOutsideSize: (size) => `Liiska baahidu wuxuu codsanayaa ${size}, cabbirkanina kuma jiro. Wac ka hor intaadan keenin.`,
+  reasonOnWishlist: (category, item) => `Wuxuu ku jiraa liiska ${category}: ${item}.`,
+  reasonCheckSize: (size) => `Hubi in cabbirku ku habboon yahay (${size}).`,
+  donationCheckError: "Waan ka xunnahay, cilad ayaa dhacday markii la hubinayay alaabtaas. Fadlan la xiriir carys.church@cctwincities.org ama (612) 204-8295.",
+
+  locationRequired: "Fadlan bixi koodh ZIP (near_zip) ama isuduwayaal (near_lat iyo near_lng) si loo helo goobaha kuu dhow.",
+  nearZip: (zip) => `ZIP ${zip}`,
+  yourLocation: "goobtaada",
+  noNearbyLocations: (origin, openNow, radius, phone) =>
+    `Lama helin goobo Catholic Charities${openNow ? " oo furan" : ""}${radius !== undefined ? ` gudaha ${radius} mayl` : ""} oo u dhow ${origin}. Isku day raadin ballaaran${openNow ? " ama waqti kale" : ""}, ama wac ${phone}.`,
+  nearestLocations: (origin) => `Goobaha Catholic Charities ee ugu dhow ${origin}:`,
+  miles: (miles) => `${miles} mayl`,
+  nearbyError: "Waan ka xunnahay, cilad ayaa dhacday markii la raadinayay goobaha kuu dhow. Fadlan la xiriir info@cctwincities.org ama (612) 204-8500.",
+
+  upcomingEventsHeading: "Munaasabadaha soo socda ee Catholic Charities Twin Cities",
+  noUpcomingEvents: (calendarUrl, email) =>
+    `Ma jiraan munaasabado soo socda oo Catholic Charities Twin Cities ah oo ku habboon raadintaada. Eeg kalandarka buuxa ${calendarUrl} ama la xiriir ${email}.`,
+  eventsError: "Waan ka xunnahay, cilad ayaa dhacday markii la raadinayay munaasabadaha. Fadlan la xiriir info@cctwincities.org ama (612) 204-8500.",
+
+  calendarTitle: (name) => `Faylka kalandarka: ${name}`,
+  calendarEntries: (count) => `${count} shay`,
+  downloadCalendar: (url) => `Soo deji oo fur faylkan si aad ugu darto kalandarkaaga: ${url}`,
+  emptyCalendar: (name, email) =>
+    `Ma jiraan wareegyo ama munaasabado soo socda oo loo qorsheeyay "${name}" si loogu daro kalandar. Fursadaha jadwalkoodu dabacsan yahay waxaa si toos ah loola diyaariyaa isuduwaha tabarruca ${email}.`,
+  calendarNoOpportunity: (id) => `Ma jirto fursad tabarruc oo leh id "${id}"`,
+  calendarNoEvent: (query) => `Ma jirto munaasabad soo socota oo ku habboon "${query}"`,
+  calendarSelectionHelp: (detail) => `${detail}. Isticmaal get_volunteer_opportunities ama search_org_info si aad u hesho id-ga ama magaca munaasabadda.`,
+  volunteerCoordinator: "Isuduwaha tabarruca",
+  calendarError: "Waan ka xunnahay, cilad ayaa dhacday markii la samaynayay faylka kalandarka. Fadlan la xiriir volunteer@cctwincities.org ama (612) 204-8435.",
+};
+
+const MESSAGES: Record<Language, Messages> = { en, es, hmn, so };
+
+export function messages(language: Language = "en"): Messages {
+  return MESSAGES[language];
+}
+
+/**
+ * "2026-10-24" -> "Sat, Oct 24" (or "sáb, 24 de oct", ...)
+ */
+export function formatShortDate(date: string, language: Language = "en"): string {
+  const m = MESSAGES[language];
+  const day = new Date(`${date}T12:00:00Z`);
+  return m.shortDate(m.weekdaysShort[day.getUTCDay()], m.monthsShort[day.getUTCMonth()], day.getUTCDate());
+}
+
+const widgetEn = {
+  // Volunteer widget
+  loadingOpportunities: "Loading opportunities...",
+  noFilterMatches: "No opportunities match your filters.",
+  clearFilters: "Clear Filters",
+  noOpportunities: "No opportunities found.",
+  contact: "Contact",
+  city: "City",
+  allCities: "All Cities",
+  schedule: "Schedule",
+  allSchedules: "All Schedules",
+  scheduleTypes: { "one-time": "one-time", weekly: "weekly", flexible: "flexible", ongoing: "ongoing" } as Record<string, string>,
+  clear: "Clear",
+  location: "Location",
+  milesAway: (miles: number) => `${miles} mi away`,
+  requirements: "Requirements",
+  age: (minimum: number) => `Age ${minimum}+`,
+  groupFriendly: (max: string) => `Group-friendly (max ${max})`,
+  varies: "varies",
+  skills: "Skills",
+  signUp: "Sign Up",
+  email: "Email",
+  interested: "I'm Interested",
+  addToCalendar: "Add to Calendar",
+  askMore: "Ask More",
+  learnMore: "Learn More",
+  showingCount: (shown: number, total: number) => `Showing ${shown} of ${total} opportunities`,
+  loading: "Loading...",
+  loadMore: "Load More",
+  loadMoreFailed: "Couldn't load more opportunities. Please try again.",
+  generalInquiries: "General volunteer inquiries:",
+  visitWebsite: "Visit Website",
+  howToDonate: "How to Donate",
+  askAboutOpportunity: (title: string) => `Tell me more about the "${title}" volunteer opportunity`,
+  askDonationOptions: "Show me donation options for Catholic Charities Twin Cities",
+
+  // Interest form
+  name: "Name",
+  phone: "Phone",
+  groupSize: "Group size",
+  availability: "Availability",
+  availabilityPlaceholder: "e.g., Saturday mornings",
+  notes: "Notes",
+  send: "Send",
+  sending: "Sending...",
+  cancel: "Cancel",
+  contactRequired: "Please enter an email address or phone number.",
+  inquiryFailed: "Couldn't send your inquiry. Please check your details and try again.",
+  inquiryThanks: "Thanks! Your interest has been sent.",
+  confirmationId: "Confirmation ID",
+  coordinatorWillContact: "A volunteer coordinator will be in touch.",
+
+  // Donation widget
+  loadingDonations: "Loading donation options...",
+  currentlyAccepting: "Currently Accepting",
+  checklistHint: "Tick off items as you gather them.",
+  itemsOnList: (count: number) => `${count} item${count === 1 ? "" : "s"} on your list.`,
+  itemCount: (count: number) => `${count} items`,
+  clearChecklist: "Clear Checklist",
+  viewWishlist: "View Full Wishlist",
+  dropOffLocations: "Drop-Off Locations",
+  notAccepted: "Not Accepted",
+  policies: "Policies",
+  giveOnline: "Give Online",
+  givingQuestions: "Questions about giving?",
+  donateVehicleTitle: "Donate a Vehicle",
+  call: "Call",
+  donateOnline: "Donate Online",
+  donateVehicle: "Donate a Vehicle",
+  donateItems: "Donate Items",
+  vehicleByPhone: (phone: string) => `Vehicle donations by phone: ${phone}`,
+  askInKind: "What items can I donate to Catholic Charities Twin Cities, and where do I drop them off?",
+};
+
+export type WidgetMessages = typeof widgetEn;
+
+const widgetEs: WidgetMessages = {
+  loadingOpportunities: "Cargando oportunidades...",
+  noFilterMatches: "Ninguna oportunidad coincide con sus filtros.",
+  clearFilters: "Quitar filtros",
+  noOpportunities: "No se encontraron oportunidades.",
+  contact: "Contacto",
+  city: "Ciudad",
+  allCities: "Todas las ciudades",
+  schedule: "Horario",
+  allSchedules: "Todos los horarios",
+  scheduleTypes: { "one-time": "una sola vez", weekly: "semanal", flexible: "flexible", ongoing: "continuo" },
+  clear: "Quitar",
+  location: "Ubicación",
+  milesAway: (miles) => `a ${miles} millas`,
+  requirements: "Requisitos",
+  age: (minimum) => `Edad ${minimum}+`,
+  groupFriendly: (max) => `Apto para grupos (máx. ${max})`,
+  varies: "varía",
+  skills: "Habilidades",
+  signUp: "Inscribirse",
+  email: "Correo",
+  interested: "Me interesa",
+  addToCalendar: "Agregar al calendario",
+  askMore: "Preguntar más",
+  learnMore: "Más información",
+  showingCount: (shown, total) => `Mostrando ${shown} de ${total} oportunidades`,
+  loading: "Cargando...",
+  loadMore: "Cargar más",
+  loadMoreFailed: "No se pudieron cargar más oportunidades. Inténtelo de nuevo.",
+  generalInquiries: "Consultas generales sobre voluntariado:",
+  visitWebsite: "Visitar el sitio web",
+  howToDonate: "Cómo donar",
+  askAboutOpportunity: (title) => `Cuénteme más sobre la oportunidad de voluntariado "${title}"`,
+  askDonationOptions: "Muéstreme las opciones para donar a Catholic Charities Twin Cities",
+
+  name: "Nombre",
+  phone: "Teléfono",
+  groupSize: "Tamaño del grupo",
+  availability: "Disponibilidad",
+  availabilityPlaceholder: "p. ej., sábados por la mañana",
+  notes: "Notas",
+  send: "Enviar",
+  sending: "Enviando...",
+  cancel: "Cancelar",
+  contactRequired: "Escriba un correo electrónico o un número de teléfono.",
+  inquiryFailed: "No se pudo enviar su solicitud. Revise sus datos e inténtelo de nuevo.",
+  inquiryThanks: "¡Gracias! Su interés ha sido enviado.",
+  confirmationId: "Número de confirmación",
+  coordinatorWillContact: "Un coordinador de voluntarios se comunicará con usted.",
+
+  loadingDonations: "Cargando opciones de donación...",
+  currentlyAccepting: "Aceptamos actualmente",
+  checklistHint: "Marque los artículos a medida que los reúna.",
+  itemsOnList: (count) => `${count} artículo${count === 1 ? "" : "s"} en su lista.`,
+  itemCount: (count) => `${count} artículos`,
+  clearChecklist: "Borrar lista",
+  viewWishlist: "Ver la lista completa",
+  dropOffLocations: "Lugares de entrega",
+  notAccepted: "No se acepta",
+  policies: "Normas",
+  giveOnline: "Donar en línea",
+  givingQuestions: "¿Preguntas sobre donaciones?",
+  donateVehicleTitle: "Donar un vehículo",
+  call: "Llame",
+  donateOnline: "Donar en línea",
+  donateVehicle: "Donar un vehículo",
+  donateItems: "Donar artículos",
+  vehicleByPhone: (phone) => `Donaciones de vehículos por teléfono: ${phone}`,
+  askInKind: "¿Qué artículos puedo donar a Catholic Charities Twin Cities y dónde los entrego?",
+};
+
+const widgetHmn: WidgetMessages = {
+  loadingOpportunities: "Tab tom thauj cov hauj lwm...",
+  noFilterMatches: "Tsis muaj hauj lwm twg phim koj cov kev xaiv.",
+  clearFilters: "Tshem cov kev xaiv",
+  noOpportunities: "Nrhiav tsis tau hauj lwm pab dawb.",
+  contact: "Tiv tauj",
+  city: "Nroog",
+  allCities: "Txhua lub nroog",
+  schedule: "Sij hawm",
+  allSchedules: "Txhua lub sij hawm",
+  scheduleTypes: { "one-time": "ib zaug xwb", weekly: "txhua lub lim tiam", flexible: "hloov tau", ongoing: "mus ntxiv tas li" },
+  clear: "Tshem",
+  location: "Qhov chaw",
+  milesAway: (miles) => `deb ${miles} mais`,
+  requirements: "Cov kev cai",
+  age: (minimum) => `Hnub nyoog ${minimum}+`,
+  groupFriendly: (max) => `Tuaj ua pab pawg tau (ntau tshaj plaws ${max})`,
+  varies: "txawv",
+  skills: "Txuj ci",
+  signUp: "Sau npe",
+  email: "Email",
+  interested: "Kuv xav koom",
+  addToCalendar: "Ntxiv rau daim ntawv qhia hnub",
+  askMore: "Nug ntxiv",
+  learnMore: "Kawm ntxiv",
+  showingCount: (shown, total) => `Qhia ${shown} ntawm ${total} txoj hauj lwm`,
+  loading: "Tab tom thauj...",
+  loadMore: "Thauj ntxiv",
+  loadMoreFailed: "Thauj tsis tau ntxiv. Thov sim dua.",
+  generalInquiries: "Lus nug txog kev pab dawb:",
+  visitWebsite: "Mus saib lub vev xaib",
+  howToDonate: "Yuav pub li cas",
+  askAboutOpportunity: (title) => `Qhia kuv ntxiv txog txoj hauj lwm pab dawb "${title}"`,
+  askDonationOptions: "Qhia kuv cov kev pub rau Catholic Charities Twin Cities",
+
+  name: "Npe",
+  phone: "Xov tooj",
+  groupSize: "Pab pawg muaj pes tsawg leeg",
+  availability: "Lub sij hawm koj khoom",
+  availabilityPlaceholder: "piv txwv, Hnub Rau thaum sawv ntxov",
+  notes: "Lus ntxiv",
+  send: "Xa",
+  sending: "Tab tom xa...",
+  cancel: "Tso tseg",
+  contactRequired: "Thov sau email los sis xov tooj.",
+  inquiryFailed: "Xa tsis tau koj daim ntawv. Thov kuaj xyuas koj cov ntaub ntawv thiab sim dua.",
+  inquiryThanks: "Ua tsaug! Peb tau txais koj daim ntawv lawm.",
+  confirmationId: "Tus lej lees paub",
+  coordinatorWillContact: "Tus neeg saib xyuas kev pab dawb yuav tiv tauj koj.",
+
+  loadingDonations: "Tab tom thauj cov kev pub...",
+  currentlyAccepting: "Tam sim no txais",
+  checklistHint: "Kos cov khoom thaum koj sau tau.",
+  itemsOnList: (count) => `${count} yam khoom nyob hauv koj daim ntawv.`,
+  itemCount: (count) => `${count} yam`,
+  clearChecklist: "Tshem daim ntawv",
+  viewWishlist: "Saib daim ntawv tag nrho",
+  dropOffLocations: "Qhov chaw xa khoom",
+  notAccepted: "Tsis txais",
+  policies: "Cov cai",
+  giveOnline: "Pub hauv online",
+  givingQuestions: "Muaj lus nug txog kev pub?",
+  donateVehicleTitle: "Pub tsheb",
+  call: "Hu",
+  donateOnline: "Pub hauv online",
+  donateVehicle: "Pub tsheb",
+  donateItems: "Pub khoom",
+  vehicleByPhone: (phone) => `Pub tsheb hu xov tooj: ${phone}`,
+  askInKind: "Kuv pub tau yam khoom twg rau Catholic Charities Twin Cities, thiab kuv yuav xa mus rau qhov twg?",
+};
+
+const widgetSo: WidgetMessages = {
+  loadingOpportunities: "Fursadaha waa la soo rarayaa...",
+  noFilterMatches: "Ma jiraan fursado ku habboon shaandhooyinkaaga.",
+  clearFilters: "Tirtir shaandhooyinka",
+  noOpportunities: "Lama helin fursado.",
+  contact: "Xiriir",
+  city: "Magaalada",
+  allCities: "Dhammaan magaalooyinka",
+  schedule: "Jadwalka",
+  allSchedules: "Dhammaan jadwallada",
+  scheduleTypes: { "one-time": "hal mar", weekly: "toddobaadle", flexible: "dabacsan", ongoing: "joogto" },
+  clear: "Tirtir",
+  location: "Goobta",
+  milesAway: (miles) => `${miles} mayl u jirta`,
+  requirements: "Shuruudaha",
+  age: (minimum) => `Da'da ${minimum}+`,
+  groupFriendly: (max) => `Kooxaha waa la aqbalaa (ugu badnaan ${max})`,
+  varies: "way kala duwan tahay",
+  skills: "Xirfadaha",
+  signUp: "Isdiiwaangeli",
+  email: "Iimayl",
+  interested: "Waan xiiseynayaa",
+  addToCalendar: "Ku dar kalandarka",
+  askMore: "Weydii wax dheeraad ah",
+  learnMore: "Wax badan baro",
+  showingCount: (shown, total) => `Waxaa la muujinayaa ${shown} ka mid ah ${total} fursadood`,
+  loading: "Waa la soo rarayaa...",
+  loadMore: "Soo rar kuwo kale",
+  loadMoreFailed: "Fursado kale lama soo rari karin. Fadlan isku day mar kale.",
+  generalInquiries: "Su'aalaha guud ee tabarruca:",
+  visitWebsite: "Booqo bogga internetka",
+  howToDonate: "Sida loo deeqo",
+  askAboutOpportunity: (title) => `Iiga sheeg wax badan fursadda tabarruca "${title}"`,
+  askDonationOptions: "I tus siyaabaha loogu deeqi karo Catholic Charities Twin Cities",
+
+  name: "Magaca",
+  phone: "Telefoon",
+  groupSize: "Tirada kooxda",
+  availability: "Waqtiga aad bannaan tahay",
+  availabilityPlaceholder: "tusaale, subaxda Sabtida",
+  notes: "Qoraal dheeraad ah",
+  send: "Dir",
+  sending: "Waa la dirayaa...",
+  cancel: "Jooji",
+  contactRequired: "Fadlan geli iimayl ama lambar telefoon.",
+  inquiryFailed: "Codsigaaga lama diri karin. Fadlan hubi macluumaadkaaga oo isku day mar kale.",
+  inquiryThanks: "Mahadsanid! Xiisahaaga waa la diray.",
+  confirmationId: "Lambarka xaqiijinta",
+  coordinatorWillContact: "Isuduwaha tabarrucayaasha ayaa kula soo xiriiri doona.",
+
+  loadingDonations: "Siyaabaha deeqda waa la soo rarayaa...",
+  currentlyAccepting: "Hadda waxaan aqbalnaa",
+  checklistHint: "Calaamadee alaabta markaad uruuriso.",
+  itemsOnList: (count) => `${count} shay ayaa liiskaaga ku jira.`,
+  itemCount: (count) => `${count} shay`,
+  clearChecklist: "Tirtir liiska",
+  viewWishlist: "Eeg liiska buuxa",
+  dropOffLocations: "Goobaha lagu keeno",
+  notAccepted: "Lama aqbalo",
+  policies: "Xeerarka",
+  giveOnline: "Ku deeq onlayn",
+  givingQuestions: "Su'aalo ku saabsan deeqda?",
+  donateVehicleTitle: "Ku deeq gaari",
+  call: "Wac",
+  donateOnline: "Ku deeq onlayn",
+  donateVehicle: "Ku deeq gaari",
+  donateItems: "Ku deeq alaab",
+  vehicleByPhone: (phone) => `Deeqaha gaadiidka telefoonka: ${phone}`,
+  askInKind: "Alaabtee ayaan ugu deeqi karaa Catholic Charities Twin Cities, xaggeese ayaan geeyaa?",
+};
+
+const WIDGET_MESSAGES: Record<Language, WidgetMessages> = { en: widgetEn, es: widgetEs, hmn: widgetHmn, so: widgetSo };
+
+export function widgetMessages(language: Language = "en"): WidgetMessages {
+  return WIDGET_MESSAGES[language] ?? widgetEn;
+}
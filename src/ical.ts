@@ -0,0 +1,200 @@
+import { messages, type Messages } from "./i18n.js";
+import type { CCData, Language, Opportunity, OrgEvent } from "./schema.js";
+import { addDays, localNow, upcomingShifts, zonedTimeToUtc } from "./schedule.js";
+
+/**
+ * RFC 5545 iCalendar export for volunteer shifts and organization events.
+ * Shift times are converted to UTC so no VTIMEZONE block is needed; events
+ * are all-day entries.
+ */
+
+const PRODID = "-//Catholic Charities Twin Cities//CCTwinCities MCP Server//EN";
+const UID_DOMAIN = "cctwincities.org";
+
+export class CalendarSelectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CalendarSelectionError";
+  }
+}
+
+export interface CalendarSelection {
+  opportunity_id?: string;
+  // Event name (case-insensitive, partial) or YYYY-MM-DD date
+  event?: string;
+  // Feed filters, used when neither opportunity_id nor event is given
+  city?: string;
+  include_shifts?: boolean;
+  include_events?: boolean;
+  days?: number;
+  // Language of the labels and error messages; pass data localized to match
+  language?: Language;
+}
+
+export interface Calendar {
+  ics: string;
+  name: string;
+  event_count: number;
+}
+
+// TEXT values escape backslash, semicolon, comma and newlines
+const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 octets are folded with CRLF + space
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, "utf-8");
+  if (bytes.length <= 75) return line;
+
+  const chunks: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, "utf-8");
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      chunks.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+}
+
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+const formatDate = (date: string) => date.replace(/-/g, "");
+
+function vevent(properties: [string, string][]): string[] {
+  return ["BEGIN:VEVENT", ...properties.map(([key, value]) => `${key}:${value}`), "END:VEVENT"];
+}
+
+function shiftEvents(opp: Opportunity, now: Date, days: number, dtstamp: string, m: Messages): string[] {
+  // Enough occurrences to cover daily multi-slot schedules over the horizon
+  const shifts = upcomingShifts(opp.schedule, now, days * 4, days);
+
+  const contact = `${m.volunteerCoordinator}: ${opp.contact.phone}, ${opp.contact.email}`;
+  const description = [
+    opp.description,
+    `${m.schedule}: ${opp.schedule.details}`,
+    contact,
+    opp.signup_url ? `${m.signUp}: ${opp.signup_url}` : null,
+  ]
+    .filter(Boolean)
+    .join("\n");
+  const location = opp.location.address ?? `${opp.location.facility}, ${opp.location.city}`;
+
+  return shifts.flatMap((shift) =>
+    vevent([
+      ["UID", `${opp.id}-${formatDate(shift.date)}T${shift.start.replace(":", "")}@${UID_DOMAIN}`],
+      ["DTSTAMP", dtstamp],
+      ["DTSTART", formatUtc(zonedTimeToUtc(shift.date, shift.start, opp.schedule.timezone))],
+      ["DTEND", formatUtc(zonedTimeToUtc(shift.date, shift.end, opp.schedule.timezone))],
+      ["SUMMARY", escapeText(shift.label ? `${opp.title} (${shift.label})` : opp.title)],
+      ["DESCRIPTION", escapeText(description)],
+      ["LOCATION", escapeText(location)],
+      ["CONTACT", escapeText(contact)],
+      ["URL", opp.signup_url ?? opp.source_url],
+    ])
+  );
+}
+
+function orgEvent(evt: OrgEvent, ccData: CCData, dtstamp: string): string[] {
+  const contact = `Catholic Charities Twin Cities: ${ccData.organization.contact.main_phone}, ${ccData.organization.contact.main_email}`;
+  return vevent([
+    ["UID", `event-${formatDate(evt.date)}-${evt.name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}@${UID_DOMAIN}`],
+    ["DTSTAMP", dtstamp],
+    ["DTSTART;VALUE=DATE", formatDate(evt.date)],
+    ["DTEND;VALUE=DATE", formatDate(addDays(evt.date, 1))],
+    ["SUMMARY", escapeText(evt.name)],
+    ["DESCRIPTION", escapeText(`${evt.description}\n${contact}\n${evt.url}`)],
+    ["CONTACT", escapeText(contact)],
+    ["URL", evt.url],
+  ]);
+}
+
+function findEvent(ccData: CCData, query: string, now: Date): OrgEvent | undefined {
+  const q = query.trim().toLowerCase();
+  const today = localNow(now).date;
+  const events = ccData.organization.upcoming_events.filter((e) => e.date >= today);
+  return events.find((e) => e.date === q) ?? events.find((e) => e.name.toLowerCase().includes(q));
+}
+
+/**
+ * Build a calendar for one opportunity, one event, or a filtered feed of
+ * upcoming shifts and events.
+ */
+export function buildCalendar(ccData: CCData, selection: CalendarSelection, now: Date): Calendar {
+  const m = messages(selection.language);
+  const dtstamp = formatUtc(now);
+  const days = selection.days ?? 30;
+  let name: string;
+  let events: string[][] = [];
+
+  if (selection.opportunity_id) {
+    const opp = ccData.volunteer.opportunities.find((o) => o.id === selection.opportunity_id);
+    if (!opp) {
+      throw new CalendarSelectionError(m.calendarNoOpportunity(selection.opportunity_id));
+    }
+    name = opp.title;
+    events = [shiftEvents(opp, now, days, dtstamp, m)];
+  } else if (selection.event) {
+    const evt = findEvent(ccData, selection.event, now);
+    if (!evt) {
+      throw new CalendarSelectionError(m.calendarNoEvent(selection.event));
+    }
+    name = evt.name;
+    events = [orgEvent(evt, ccData, dtstamp)];
+  } else {
+    name = "Catholic Charities Twin Cities";
+    if (selection.include_shifts ?? true) {
+      const city = selection.city?.toLowerCase();
+      events.push(
+        ...ccData.volunteer.opportunities
+          .filter((opp) => !city || opp.location.city.toLowerCase().includes(city))
+          .map((opp) => shiftEvents(opp, now, days, dtstamp, m))
+      );
+    }
+    if (selection.include_events ?? true) {
+      const today = localNow(now).date;
+      events.push(
+        ...ccData.organization.upcoming_events
+          .filter((evt) => evt.date >= today)
+          .map((evt) => orgEvent(evt, ccData, dtstamp))
+      );
+    }
+  }
+
+  const lines = events.flat();
+  const ics = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...lines,
+    "END:VCALENDAR",
+  ]
+    .map(foldLine)
+    .join("\r\n");
+
+  return {
+    ics: ics + "\r\n",
+    name,
+    event_count: lines.filter((line) => line === "BEGIN:VEVENT").length,
+  };
+}
+
+/**
+ * Query string for the /calendar.ics route matching a selection.
+ */
+export function calendarQuery(selection: CalendarSelection): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(selection)) {
+    if (value !== undefined) params.set(key, String(value));
+  }
+  return params.toString();
+}
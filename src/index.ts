@@ -1,472 +1,174 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { getOAuthProtectedResourceMetadataUrl } from "@modelcontextprotocol/sdk/server/auth/router.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 import express from "express";
 import cors from "cors";
-import rateLimit from "express-rate-limit";
-import { z } from "zod";
 import { readFileSync } from "fs";
+import { randomUUID, timingSafeEqual } from "crypto";
 import { fileURLToPath } from "url";
 import { dirname, join } from "path";
+import { InMemoryEventStore } from "./eventStore.js";
+import { DataStore } from "./dataStore.js";
+import { createDataProvider } from "./dataProviders.js";
+import { INQUIRY_STATUSES, InquiryStore, inquiriesToCsv, type InquiryStatus } from "./inquiryStore.js";
+import { AuditLog, type AuditActor } from "./auditLog.js";
+import {
+  ApiKeyStore,
+  authenticate,
+  clientLabel,
+  createTokenVerifier,
+  IntrospectionVerifier,
+  requiredScopes,
+  SCOPES,
+} from "./auth.js";
+import { FixedWindowLimiter, limitToolCalls, parseRateLimitConfig, requestLimiter, type RateLimitConfig } from "./rateLimit.js";
+import { parseSessionConfig, SessionManager, type Session, type SessionConfig } from "./sessions.js";
+import {
+  applyContentChange,
+  CONTENT_COLLECTIONS,
+  ContentError,
+  findRecord,
+  isContentCollection,
+  type ContentAction,
+  type ContentChange,
+} from "./contentAdmin.js";
+import { DataValidationError } from "./schema.js";
+import { buildCalendar, CalendarSelectionError } from "./ical.js";
+import { systemClock } from "./clock.js";
+import { booleanSetting } from "./env.js";
+import { warmSearchIndexes } from "./search.js";
+import { localizeData } from "./localize.js";
+import { createServer, ExportCalendarSchema, TOOL_NAMES, type ServerOptions } from "./server.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 // Load and validate data
-const dataPath = join(__dirname, "../CC.json");
-let ccData: any;
+let dataStore: DataStore;
 try {
-  ccData = JSON.parse(readFileSync(dataPath, "utf-8"));
+  const provider = await createDataProvider(process.env.DATA_PROVIDER, process.env.DATA_PATH, join(__dirname, ".."));
+  console.log(`✓ Reading content from ${provider.description}`);
+  dataStore = new DataStore(provider);
+  console.log(`✓ Loaded ${dataStore.current.volunteer.opportunities.length} volunteer opportunities`);
+  console.log(`✓ Indexed ${warmSearchIndexes(dataStore.current).size} organization search documents`);
+} catch (error: any) {
+  console.error("❌ Failed to load content:", error.message);
+  process.exit(1);
+}
 
-  // Validate structure
-  if (!ccData.volunteer || !ccData.donations || !ccData.organization) {
-    throw new Error("Invalid CC.json structure: missing required top-level keys");
-  }
+// Volunteer interest submissions (contain personal details; keep out of git)
+const inquiryStore = new InquiryStore(process.env.INQUIRIES_PATH ?? join(__dirname, "../data/inquiries.jsonl"));
 
-  if (!Array.isArray(ccData.volunteer.opportunities)) {
-    throw new Error("Invalid CC.json: volunteer.opportunities must be an array");
+// Changes made through the admin content API
+const auditLog = new AuditLog(process.env.AUDIT_LOG_PATH ?? join(__dirname, "../data/audit.jsonl"));
+
+// Client authentication: per-client API keys from a key file and/or OAuth
+// access tokens checked with the authorization server. With neither
+// configured, the MCP endpoints stay open unless AUTH_REQUIRED is set.
+const apiKeyStore = new ApiKeyStore(process.env.API_KEYS_PATH ?? join(__dirname, "../data/api-keys.json"));
+let oauthResource: string | undefined;
+let tokenVerifier: ReturnType<typeof createTokenVerifier>;
+try {
+  const authRequired = booleanSetting("AUTH_REQUIRED", process.env.AUTH_REQUIRED, false);
+  let oauthVerifier: IntrospectionVerifier | undefined;
+  if (process.env.OAUTH_INTROSPECTION_URL) {
+    oauthResource = process.env.OAUTH_RESOURCE ?? (process.env.PUBLIC_BASE_URL && `${process.env.PUBLIC_BASE_URL.replace(/\/$/, "")}/mcp`);
+    if (!oauthResource || !process.env.OAUTH_ISSUER) {
+      throw new Error("OAuth needs OAUTH_ISSUER and either OAUTH_RESOURCE or PUBLIC_BASE_URL");
+    }
+    oauthVerifier = new IntrospectionVerifier({
+      url: process.env.OAUTH_INTROSPECTION_URL,
+      clientId: process.env.OAUTH_CLIENT_ID,
+      clientSecret: process.env.OAUTH_CLIENT_SECRET,
+      resource: oauthResource,
+    });
   }
+  const apiKeys = apiKeyStore.exists() ? apiKeyStore : undefined;
+  tokenVerifier = createTokenVerifier(apiKeys, oauthVerifier);
+  if (apiKeys) console.log(`✓ Loaded ${apiKeys.list().length} API key clients`);
+  if (oauthVerifier) console.log(`✓ Accepting OAuth access tokens from ${process.env.OAUTH_ISSUER} for ${oauthResource}`);
+  if (!tokenVerifier && authRequired) {
+    throw new Error("AUTH_REQUIRED is true but there is no API key file (API_KEYS_PATH) or OAuth introspection (OAUTH_INTROSPECTION_URL)");
+  }
+  if (!tokenVerifier) console.warn("⚠️  No API keys or OAuth configured; /mcp and /messages are open to anyone");
+} catch (error: any) {
+  console.error("❌ Failed to set up authentication:", error.message);
+  process.exit(1);
+}
 
-  console.log(`✓ Loaded ${ccData.volunteer.opportunities.length} volunteer opportunities`);
+// Request and per-tool rate limits (RATE_LIMIT_*)
+let rateLimitConfig: RateLimitConfig;
+try {
+  rateLimitConfig = parseRateLimitConfig(process.env, TOOL_NAMES);
 } catch (error: any) {
-  console.error("❌ Failed to load CC.json:", error.message);
+  console.error("❌ Invalid rate limit settings:", error.message);
   process.exit(1);
 }
+const toolCallLimiter = new FixedWindowLimiter(rateLimitConfig.windowMs);
 
-// Volunteer list widget HTML
-const volunteerWidgetPath = join(__dirname, "../dist/volunteer-widget.html");
-let volunteerWidgetHtml = "";
+// Session idle timeout, cap, SSE keep-alive and shutdown drain time
+let sessionConfig: SessionConfig;
 try {
-  volunteerWidgetHtml = readFileSync(volunteerWidgetPath, "utf-8");
-  console.log("✓ Volunteer widget loaded");
-} catch (e) {
-  if (process.env.NODE_ENV === 'production') {
-    console.error("❌ Widget not built! Run: npm run build");
-    process.exit(1);
-  } else {
-    console.warn("⚠️  Widget not built. Run: npm run build:widget");
-    volunteerWidgetHtml = `<!DOCTYPE html>
+  sessionConfig = parseSessionConfig(process.env);
+} catch (error: any) {
+  console.error("❌ Invalid session settings:", error.message);
+  process.exit(1);
+}
+
+// Widget HTML, built into dist/ by build-widget.js
+const loadWidgetHtml = (fileName: string, label: string): string => {
+  try {
+    const html = readFileSync(join(__dirname, "../dist", fileName), "utf-8");
+    console.log(`✓ ${label} widget loaded`);
+    return html;
+  } catch (e) {
+    if (process.env.NODE_ENV === 'production') {
+      console.error("❌ Widget not built! Run: npm run build");
+      process.exit(1);
+    }
+    console.warn(`⚠️  ${label} widget not built. Run: npm run build:widget`);
+    return `<!DOCTYPE html>
 <html><body style="padding: 20px; font-family: sans-serif;">
   <h2>⚠️ Widget Not Built</h2>
-  <p>Run <code>npm run build:widget</code> to build the volunteer widget.</p>
+  <p>Run <code>npm run build:widget</code> to build the ${label.toLowerCase()} widget.</p>
 </body></html>`;
   }
-}
-
-// Tool schemas
-const GetVolunteerOpportunitiesSchema = z.object({
-  keyword: z.string().optional().describe("Search keyword for opportunity title or description"),
-  city: z.string().optional().describe("Filter by city: Minneapolis, Saint Paul, St. Paul, Maplewood, or Twin Cities"),
-  schedule_type: z.enum(["one-time", "weekly", "flexible", "ongoing"]).optional().describe("Type of schedule commitment"),
-  age_minimum: z.number().optional().describe("Maximum age requirement for volunteer (e.g., 14, 18)"),
-  group_friendly: z.boolean().optional().describe("Filter for group-friendly opportunities"),
-  skill: z.string().optional().describe("Required skill (e.g., 'sewing', 'baking', 'cooking')"),
-});
-
-const GetDonationOptionsSchema = z.object({
-  type: z.enum(["online", "in_kind", "vehicle"]).describe("Type of donation: online, in_kind, or vehicle"),
-});
-
-const SearchOrgInfoSchema = z.object({
-  query: z.string().describe("Search query about Catholic Charities Twin Cities (e.g., 'mission', 'services', 'contact', 'homeless shelter', 'food programs')"),
-});
-
-// Create MCP server factory
-const createServer = () => {
-  const server = new McpServer(
-    {
-      name: "CCTwinCities",
-      version: "1.0.0",
-    },
-    {
-      capabilities: {
-        resources: {},
-        tools: {},
-      },
-    }
-  );
-
-  // Register UI resource
-  server.resource(
-    "Volunteer Opportunities List Widget",
-    "ui://widget/volunteer-list.html",
-    async () => ({
-      contents: [
-        {
-          uri: "ui://widget/volunteer-list.html",
-          mimeType: "text/html",
-          text: volunteerWidgetHtml,
-        },
-      ],
-    })
-  );
-
-  // Register get_volunteer_opportunities tool
-  server.tool(
-    "get_volunteer_opportunities",
-    "Use this when the user wants to volunteer, help, serve, or give back to Catholic Charities Twin Cities. Triggers on queries like: 'I want to volunteer', 'volunteer opportunities near me', 'help homeless Minneapolis', 'serve meals', 'weekend volunteer work', 'volunteer with my family', 'group volunteer opportunities', 'what volunteer work is available', 'how can I help', 'volunteer at shelter', 'serve food to homeless', 'warehouse volunteering', 'meal service volunteer', 'flexible volunteer hours', 'one-time volunteer project', 'volunteer in St. Paul', 'volunteer in Minneapolis', 'volunteer in Maplewood', 'teen volunteer opportunities', 'court-ordered volunteer hours', 'student internship', or any variation asking about volunteering, helping, or serving at Catholic Charities programs including Higher Ground shelter, Dorothy Day Place, meal services, distribution center, or other locations. Supports filtering by location (Minneapolis, St. Paul, Maplewood, Twin Cities), schedule type (one-time, weekly, flexible, ongoing), age requirements (14+, 18+), group size (families, teams, corporate groups), and required skills (sewing, baking, cooking). Returns structured list with descriptions, contact info, and signup links.",
-    GetVolunteerOpportunitiesSchema.shape,
-    async (params) => {
-      try {
-      let opportunities = ccData.volunteer.opportunities;
-
-      // Apply filters
-      if (params.keyword) {
-        const kw = params.keyword.toLowerCase();
-        opportunities = opportunities.filter(
-          (opp: any) =>
-            opp.title.toLowerCase().includes(kw) ||
-            opp.description.toLowerCase().includes(kw)
-        );
-      }
-
-      if (params.city) {
-        const city = params.city.toLowerCase();
-        opportunities = opportunities.filter((opp: any) =>
-          opp.location.city.toLowerCase().includes(city)
-        );
-      }
-
-      if (params.schedule_type) {
-        opportunities = opportunities.filter(
-          (opp: any) => opp.schedule.type === params.schedule_type
-        );
-      }
-
-      if (params.age_minimum !== undefined) {
-        opportunities = opportunities.filter(
-          (opp: any) => opp.requirements.age_minimum <= params.age_minimum!
-        );
-      }
-
-      if (params.group_friendly !== undefined) {
-        opportunities = opportunities.filter(
-          (opp: any) => opp.requirements.group_friendly === params.group_friendly
-        );
-      }
-
-      if (params.skill) {
-        const skill = params.skill.toLowerCase();
-        opportunities = opportunities.filter((opp: any) =>
-          opp.requirements.skills.some((s: string) => s.toLowerCase().includes(skill))
-        );
-      }
-
-      // Build structured content
-      const structuredContent = {
-        opportunities: opportunities.map((opp: any) => ({
-          id: opp.id,
-          title: opp.title,
-          description: opp.description,
-          location: opp.location,
-          schedule: opp.schedule,
-          requirements: opp.requirements,
-          contact: opp.contact,
-          signup_url: opp.signup_url,
-          source_url: opp.source_url,
-        })),
-        contact: ccData.volunteer.general_info.main_contact,
-      };
-
-      // Text summary
-      const textSummary =
-        opportunities.length === 0
-          ? "No volunteer opportunities match your criteria. Try adjusting your filters or contact volunteer@cctwincities.org at (612) 204-8435 for more options."
-          : `Found ${opportunities.length} volunteer opportunit${opportunities.length === 1 ? "y" : "ies"}:\n\n` +
-            opportunities
-              .map(
-                (opp: any, idx: number) =>
-                  `${idx + 1}. **${opp.title}** - ${opp.location.city}\n` +
-                  `   ${opp.description}\n` +
-                  `   Schedule: ${opp.schedule.details}\n` +
-                  `   Age: ${opp.requirements.age_minimum}+` +
-                  (opp.requirements.group_friendly
-                    ? ` | Group-friendly (max ${opp.requirements.max_group_size || "N/A"})`
-                    : "") +
-                  (opp.requirements.skills.length > 0
-                    ? ` | Skills: ${opp.requirements.skills.join(", ")}`
-                    : "") +
-                  `\n` +
-                  `   Contact: ${opp.contact.email} | ${opp.contact.phone}\n` +
-                  (opp.signup_url ? `   Sign up: ${opp.signup_url}\n` : "")
-              )
-              .join("\n") +
-            `\n**General volunteer contact:** ${ccData.volunteer.general_info.main_contact.email} | ${ccData.volunteer.general_info.main_contact.phone}`;
-
-      return {
-        content: [
-          {
-            type: "text",
-            text: textSummary,
-          },
-        ],
-        structuredContent,
-        _meta: {
-          "openai/outputTemplate": "ui://widget/volunteer-list.html",
-          "openai/widgetAccessible": true,
-          "openai/widgetDescription": "Interactive volunteer opportunities list for Catholic Charities Twin Cities. Displays opportunities with filtering by location (Minneapolis, St. Paul, Maplewood), schedule type, age requirements, and skills. Shows opportunity details including title, description, address, schedule, age requirements, group capacity, required skills, contact info (phone/email), and signup links. Users can email volunteer coordinators or sign up directly through provided links. Helps users find and register for volunteer opportunities serving homeless individuals, families in need, meal service, warehouse work, and other community service activities across Twin Cities metro area.",
-        },
-      };
-      } catch (error: any) {
-        console.error("Error in get_volunteer_opportunities:", error);
-        return {
-          content: [{
-            type: "text",
-            text: "Sorry, an error occurred while searching for volunteer opportunities. Please try again or contact volunteer@cctwincities.org at (612) 204-8435.",
-          }],
-        };
-      }
-    }
-  );
-
-  // Register get_donation_options tool
-  server.tool(
-    "get_donation_options",
-    "Use this when the user wants to donate, give, contribute, or support Catholic Charities Twin Cities. Triggers on queries like: 'I want to donate', 'donate to charity', 'donate clothes', 'donate winter coats', 'donate household items', 'donate food', 'donate vehicle', 'donate car', 'where to drop off donations', 'donation hours', 'what items do you need', 'donation wish list', 'give money online', 'monthly donation', 'tribute donation', 'memorial gift', 'I have items to give', 'where can I bring donations Minneapolis', 'donate shoes', 'donate hygiene products', 'donate bedding', 'donate pots and pans', 'donate backpacks', 'give financially', 'support Catholic Charities', 'how to help with money', 'online giving', 'recurring donation', 'planned giving', or any variation about donating money, items (clothing, winter gear, shoes, personal hygiene products, linens, bedding, household goods, food), or vehicles (cars, trucks, boats, RVs, motorcycles). Provides type-specific information about online donations (one-time, recurring, tribute, memorial), in-kind item donations (accepted items, drop-off locations at 341 Chester St St. Paul, hours Monday-Friday 9am-4pm, policies requiring NEW items only), or vehicle donations (free pickup, tax deductible). Returns contact info, addresses, accepted items lists, and donation policies.",
-    GetDonationOptionsSchema.shape,
-    async (params) => {
-      try {
-      const donationType = params.type;
-      const donationData = ccData.donations[donationType];
-
-      let textContent = "";
-
-      if (donationType === "online") {
-        textContent = `**Online Donations to Catholic Charities Twin Cities**\n\n`;
-        textContent += `Donate securely online at: ${donationData.donation_page_url}\n\n`;
-        textContent += `**Donation Types:**\n${donationData.types.map((t: string) => `• ${t}`).join("\n")}\n\n`;
-        textContent += `${donationData.notes}\n\n`;
-        textContent += `**Questions about giving?**\n`;
-        textContent += `Phone: ${donationData.contact.phone}\n`;
-        textContent += `Email: ${donationData.contact.email}`;
-      } else if (donationType === "in_kind") {
-        textContent = `**In-Kind Donations to Catholic Charities Twin Cities**\n\n`;
-        textContent += `**Currently Accepting (NEW items only):**\n\n`;
-        donationData.accepted_items.forEach((cat: any) => {
-          textContent += `**${cat.category}:**\n${cat.details}\n`;
-          if (cat.restrictions) textContent += `*${cat.restrictions}*\n`;
-          textContent += `\n`;
-        });
-        textContent += `**NOT Accepted:**\n${donationData.not_accepted.map((item: string) => `• ${item}`).join("\n")}\n\n`;
-        textContent += `**Drop-Off Location:**\n`;
-        donationData.drop_off_locations.forEach((loc: any) => {
-          textContent += `${loc.name}\n`;
-          textContent += `${loc.address}\n`;
-          textContent += `Hours: ${loc.hours}\n`;
-          textContent += `Phone: ${loc.phone}\n`;
-          textContent += `Email: ${loc.email}\n\n`;
-        });
-        textContent += `**Important Policies:**\n${donationData.policies.map((p: string) => `• ${p}`).join("\n")}\n\n`;
-        textContent += `View full wishlist: ${donationData.wishlist_url}`;
-      } else if (donationType === "vehicle") {
-        textContent = `**Vehicle Donation to Catholic Charities Twin Cities**\n\n`;
-        textContent += `${donationData.process_description}\n\n`;
-        textContent += `**To donate your vehicle:**\n`;
-        textContent += `Phone: ${donationData.phone}\n`;
-        textContent += `Online: ${donationData.program_url}\n\n`;
-        textContent += `Vehicles accepted: cars, trucks, trailers, boats, RVs, motorcycles, and other motorized vehicles.`;
-      }
-
-      return {
-        content: [
-          {
-            type: "text",
-            text: textContent,
-          },
-        ],
-      };
-      } catch (error: any) {
-        console.error("Error in get_donation_options:", error);
-        return {
-          content: [{
-            type: "text",
-            text: "Sorry, an error occurred while getting donation information. Please contact giving.info@cctwincities.org at (612) 204-8374.",
-          }],
-        };
-      }
-    }
-  );
-
-  // Register search_org_info tool
-  server.tool(
-    "search_org_info",
-    "Use this when the user asks about Catholic Charities Twin Cities' mission, services, programs, locations, contact information, impact statistics, or wants to learn what they do. Also use for informational queries about homeless shelters, food programs, housing assistance, family services, senior services, disability services, emergency assistance, or social services in Minneapolis, St. Paul, Twin Cities, or Minnesota area. Triggers on queries like: 'what does Catholic Charities do', 'Catholic Charities mission', 'homeless shelter Minneapolis', 'homeless shelter St. Paul', 'free meals Minneapolis', 'free meals Twin Cities', 'food shelf near me', 'emergency shelter Minnesota', 'affordable housing Minneapolis', 'family shelter', 'help for homeless', 'where can I get food', 'places that help homeless people', 'organizations that feed people', 'senior services Minneapolis', 'disability services St. Paul', 'childcare programs', 'family support services', 'mental health support', 'job training programs', 'emergency assistance', 'housing help', 'meal programs', 'supportive housing', 'veteran housing', 'Higher Ground shelter', 'Dorothy Day Place', 'where is Catholic Charities located', 'Catholic Charities phone number', 'contact Catholic Charities', 'how many people does Catholic Charities serve', 'upcoming events', 'history of Catholic Charities', or any variation asking about the organization's work, locations (Minneapolis, St. Paul, Maplewood), services for people experiencing homelessness, hunger, housing insecurity, families in need, seniors, people with disabilities, or general social services in the Twin Cities. Searches across mission statement, service descriptions (Adult Emergency Shelters, Affordable Housing, Opportunity Centers, Children and Family Services, Aging and Disability Services, Food Services, Medical Respite, Housing First Program), 7 locations across Twin Cities, events, impact statistics (30,000+ people served, 1,000,000+ meals, 550,000+ nights of housing annually), and contact information.",
-    SearchOrgInfoSchema.shape,
-    async (params) => {
-      try {
-      const query = params.query.toLowerCase();
-      const results: any[] = [];
-
-      // Search mission
-      if (
-        query.includes("mission") ||
-        query.includes("about") ||
-        query.includes("what do") ||
-        query.includes("purpose")
-      ) {
-        results.push({
-          heading: "Mission",
-          summary: ccData.organization.mission,
-          source_url: ccData.organization.source_url,
-        });
-        results.push({
-          heading: "History",
-          summary: `${ccData.organization.about.history} Founded in ${ccData.organization.about.founded}, Catholic Charities has served the Twin Cities for ${ccData.organization.about.stats.years_operating} years.`,
-          source_url: ccData.organization.source_url,
-        });
-      }
-
-      // Search services
-      const serviceKeywords = [
-        "service",
-        "program",
-        "help",
-        "support",
-        "shelter",
-        "housing",
-        "food",
-        "meal",
-        "homeless",
-        "family",
-        "senior",
-        "disability",
-        "child",
-      ];
-      if (serviceKeywords.some((kw) => query.includes(kw))) {
-        // Find matching services
-        const matchingServices = ccData.organization.services.filter((svc: any) => {
-          const matchText =
-            `${svc.name} ${svc.description} ${svc.keywords.join(" ")}`.toLowerCase();
-          return query.split(" ").some((word: string) => matchText.includes(word));
-        });
-
-        if (matchingServices.length > 0) {
-          matchingServices.forEach((svc: any) => {
-            results.push({
-              heading: svc.name,
-              summary: svc.description,
-              source_url: ccData.organization.source_url,
-            });
-          });
-        } else {
-          // Return all services if no specific match
-          results.push({
-            heading: "Services Overview",
-            summary:
-              `Catholic Charities Twin Cities offers these core services:\n\n` +
-              ccData.organization.services
-                .map((svc: any) => `• **${svc.name}**: ${svc.description}`)
-                .join("\n\n"),
-            source_url: ccData.organization.source_url,
-          });
-        }
-      }
-
-      // Search contact/locations
-      if (
-        query.includes("contact") ||
-        query.includes("phone") ||
-        query.includes("email") ||
-        query.includes("location") ||
-        query.includes("address") ||
-        query.includes("where")
-      ) {
-        results.push({
-          heading: "Contact Information",
-          summary:
-            `**Main Office:**\n` +
-            `Phone: ${ccData.organization.contact.main_phone}\n` +
-            `Email: ${ccData.organization.contact.main_email}\n` +
-            `Hours: ${ccData.organization.contact.hours}\n\n` +
-            `**Volunteer inquiries:** volunteer@cctwincities.org | (612) 204-8435\n` +
-            `**Donation inquiries:** giving.info@cctwincities.org | (612) 204-8374`,
-          source_url: ccData.organization.source_url,
-        });
-
-        results.push({
-          heading: "Locations",
-          summary: ccData.organization.locations
-            .map(
-              (loc: any) =>
-                `**${loc.name}**\n${loc.address}${loc.phone ? `\nPhone: ${loc.phone}` : ""}`
-            )
-            .join("\n\n"),
-          source_url: ccData.organization.source_url,
-        });
-      }
+};
 
-      // Search events
-      if (query.includes("event") || query.includes("calendar")) {
-        results.push({
-          heading: "Upcoming Events",
-          summary: ccData.organization.upcoming_events
-            .map(
-              (evt: any) =>
-                `**${evt.name}** - ${evt.date}\n${evt.description}\n${evt.url}`
-            )
-            .join("\n\n"),
-          source_url: ccData.organization.source_url,
-        });
-      }
+const volunteerWidgetHtml = loadWidgetHtml("volunteer-widget.html", "Volunteer");
+const donationWidgetHtml = loadWidgetHtml("donation-widget.html", "Donation");
 
-      // Search stats
-      if (
-        query.includes("stat") ||
-        query.includes("impact") ||
-        query.includes("how many") ||
-        query.includes("number")
-      ) {
-        const stats = ccData.organization.about.stats;
-        results.push({
-          heading: "Impact & Statistics",
-          summary:
-            `Catholic Charities Twin Cities serves the community with significant impact:\n\n` +
-            `• **${stats.people_served_annually.toLocaleString()}** people served annually\n` +
-            `• **${stats.meals_served_annually.toLocaleString()}** meals served annually\n` +
-            `• **${stats.nights_of_housing_provided_annually.toLocaleString()}** nights of housing provided annually\n` +
-            `• **${stats.volunteers_annually.toLocaleString()}** volunteers annually\n` +
-            `• **${stats.volunteer_hours_annually.toLocaleString()}+** volunteer hours annually\n` +
-            `• **${stats.years_operating}** years serving the Twin Cities`,
-          source_url: ccData.organization.source_url,
-        });
-      }
+// Host names the Host header may name when PUBLIC_BASE_URL is unset. The
+// header is chosen by the caller, so unlisted hosts are never put in links.
+const allowedHosts = (process.env.ALLOWED_HOSTS ?? "")
+  .split(",")
+  .map((host) => host.trim().toLowerCase())
+  .filter(Boolean);
 
-      // Default if no results
-      if (results.length === 0) {
-        results.push({
-          heading: "About Catholic Charities Twin Cities",
-          summary: `${ccData.organization.mission}\n\nServing the ${ccData.organization.service_area} since ${ccData.organization.about.founded}.\n\nContact: ${ccData.organization.contact.main_phone} | ${ccData.organization.contact.main_email}`,
-          source_url: ccData.organization.source_url,
-        });
-      }
+const firstHeader = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value)?.split(",")[0].trim();
 
-      const textContent = results
-        .map(
-          (result) =>
-            `**${result.heading}**\n\n${result.summary}\n\nSource: ${result.source_url}`
-        )
-        .join("\n\n---\n\n");
-
-      return {
-        content: [
-          {
-            type: "text",
-            text: textContent,
-          },
-        ],
-      };
-      } catch (error: any) {
-        console.error("Error in search_org_info:", error);
-        return {
-          content: [{
-            type: "text",
-            text: "Sorry, an error occurred while searching organization information. Please contact info@cctwincities.org at (612) 204-8500.",
-          }],
-        };
-      }
-    }
-  );
+// Public origin for links handed to users (calendar downloads):
+// PUBLIC_BASE_URL, else the request's host if it is in ALLOWED_HOSTS,
+// else localhost
+const publicBaseUrl = (headers?: Record<string, string | string[] | undefined>) => {
+  if (process.env.PUBLIC_BASE_URL) {
+    return process.env.PUBLIC_BASE_URL.replace(/\/$/, "");
+  }
+  const host = firstHeader(headers?.["x-forwarded-host"]) ?? firstHeader(headers?.host);
+  if (host && allowedHosts.includes(host.toLowerCase())) {
+    const proto = firstHeader(headers?.["x-forwarded-proto"]) === "https" ? "https" : "http";
+    return `${proto}://${host}`;
+  }
+  return `http://localhost:${process.env.PORT || 2091}`;
+};
 
-  return server;
+// Shared by every session's MCP server
+const serverOptions: ServerOptions = {
+  dataStore,
+  inquiryStore,
+  widgets: { volunteer: volunteerWidgetHtml, donation: donationWidgetHtml },
+  publicBaseUrl,
 };
 
 // Express app setup
@@ -475,7 +177,9 @@ const app = express();
 // CORS configuration
 app.use(cors({
   origin: process.env.ALLOWED_ORIGINS?.split(',') || '*',
-  methods: ['GET', 'POST'],
+  methods: ['GET', 'POST', 'DELETE'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'Mcp-Session-Id', 'Mcp-Protocol-Version', 'Last-Event-ID'],
+  exposedHeaders: ['Mcp-Session-Id', 'WWW-Authenticate', 'Retry-After', 'RateLimit', 'RateLimit-Policy'],
   credentials: true,
 }));
 
@@ -490,41 +194,110 @@ app.use((req, res, next) => {
   next();
 });
 
-// Rate limiting
-const limiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 100, // 100 requests per window
-  message: 'Too many requests from this IP, please try again later.',
+app.use(express.json());
+
+// Set on SIGTERM: in-flight calls finish, new MCP requests are turned away
+let shuttingDown = false;
+app.use(['/mcp', '/messages'], (req, res, next) => {
+  if (!shuttingDown) {
+    next();
+    return;
+  }
+  res.setHeader('Connection', 'close');
+  res.setHeader('Retry-After', '5');
+  res.status(503).json({
+    jsonrpc: "2.0",
+    error: { code: -32000, message: "Server is restarting; reconnect in a few seconds" },
+    id: null,
+  });
 });
 
-app.use('/mcp', limiter);
-app.use('/messages', limiter);
+// Rate limiting per IP; the per-client limit follows authentication below
+const ipLimiter = requestLimiter(rateLimitConfig, "ip");
+app.use('/mcp', ipLimiter);
+app.use('/messages', ipLimiter);
+
+// OAuth protected resource metadata (RFC 9728), so MCP clients can find the
+// authorization server to get a token from
+const resourceMetadataUrl = oauthResource && getOAuthProtectedResourceMetadataUrl(new URL(oauthResource));
+if (oauthResource && resourceMetadataUrl) {
+  const metadata = {
+    resource: oauthResource,
+    authorization_servers: [process.env.OAUTH_ISSUER],
+    scopes_supported: SCOPES,
+    bearer_methods_supported: ["header"],
+    resource_name: "Catholic Charities Twin Cities MCP Server",
+  };
+  const metadataPath = new URL(resourceMetadataUrl).pathname;
+  for (const path of new Set([metadataPath, "/.well-known/oauth-protected-resource"])) {
+    app.get(path, (req, res) => {
+      res.json(metadata);
+    });
+  }
+}
 
-app.use(express.json());
+// Require a token with the scopes each MCP request needs: `read` for
+// everything, plus the tool's own scope for tool calls (see auth.ts)
+if (tokenVerifier) {
+  const mcpAuth = authenticate({
+    verifier: tokenVerifier,
+    scopes: (req) => requiredScopes(req.body),
+    resourceMetadataUrl,
+  });
+  app.use('/mcp', mcpAuth);
+  app.use('/messages', mcpAuth);
+}
+
+const callerLimiter = requestLimiter(rateLimitConfig, "caller");
+app.use('/mcp', callerLimiter);
+app.use('/messages', callerLimiter);
+
+// Open sessions by ID (Streamable HTTP and legacy SSE share one registry)
+const sessions = new SessionManager(sessionConfig);
+sessions.start();
 
-// Store transports by session ID
-const transports: Record<string, SSEServerTransport> = {};
+// Later requests in a session must come from the client that opened it
+const isSessionClient = (session: Session, req: express.Request) => session.clientId === req.auth?.clientId;
 
-// SSE endpoint for establishing the stream
-app.get("/mcp", async (req, res) => {
-  console.log("Received GET request to /mcp (establishing SSE stream)");
+// Streamable HTTP responds with plain JSON instead of an SSE stream when enabled
+const enableJsonResponse = process.env.MCP_JSON_RESPONSE === 'true';
+
+const sendJsonRpcError = (res: express.Response, status: number, code: number, message: string) => {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    error: { code, message },
+    id: null,
+  });
+};
+
+const rejectWhenFull = (res: express.Response) => {
+  if (!sessions.isFull()) return false;
+  console.warn(`⚠️  Rejecting new session: ${sessions.size} sessions open`);
+  res.setHeader('Retry-After', '30');
+  sendJsonRpcError(res, 503, -32000, "Too many open sessions; try again shortly");
+  return true;
+};
+
+// Legacy HTTP+SSE transport (protocol version 2024-11-05): GET opens the stream
+const handleLegacySseRequest = async (req: express.Request, res: express.Response) => {
+  console.log(`Received GET request to /mcp (establishing legacy SSE stream)${clientLabel(req.auth)}`);
+  if (rejectWhenFull(res)) return;
   try {
     // Create a new SSE transport for the client
     const transport = new SSEServerTransport("/messages", res);
-
-    // Store the transport by session ID
     const sessionId = transport.sessionId;
-    transports[sessionId] = transport;
 
     // Set up onclose handler to clean up transport when closed
     transport.onclose = () => {
       console.log(`SSE transport closed for session ${sessionId}`);
-      delete transports[sessionId];
+      sessions.remove(sessionId);
     };
 
     // Connect the transport to the MCP server
-    const server = createServer();
+    const server = createServer(serverOptions);
     await server.connect(transport);
+    limitToolCalls(transport, toolCallLimiter, rateLimitConfig);
+    sessions.keepAlive(sessions.add(sessionId, transport, server, req.auth?.clientId), res);
     console.log(`Established SSE stream with session ID: ${sessionId}`);
   } catch (error) {
     console.error("Error establishing SSE stream:", error);
@@ -532,11 +305,92 @@ app.get("/mcp", async (req, res) => {
       res.status(500).send("Error establishing SSE stream");
     }
   }
+};
+
+// Streamable HTTP transport (protocol version 2025-03-26): POST, GET and DELETE on /mcp
+const handleStreamableHttpRequest = async (req: express.Request, res: express.Response) => {
+  console.log(`Received ${req.method} request to /mcp (Streamable HTTP)${clientLabel(req.auth)}`);
+  try {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    let transport: StreamableHTTPServerTransport;
+    let session = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (session) {
+      const existingTransport = session.transport;
+      if (!(existingTransport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 400, -32000, "Bad Request: Session exists but uses a different transport protocol");
+        return;
+      }
+      if (!isSessionClient(session, req)) {
+        sendJsonRpcError(res, 403, -32000, "Forbidden: Session belongs to a different client");
+        return;
+      }
+      transport = existingTransport;
+    } else if (sessionId) {
+      sendJsonRpcError(res, 404, -32001, "Session not found");
+      return;
+    } else if (req.method === "POST" && isInitializeRequest(req.body)) {
+      if (rejectWhenFull(res)) return;
+      const server = createServer(serverOptions);
+      const newTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        enableJsonResponse,
+        // Enables resumability: clients can reconnect with Last-Event-ID
+        eventStore: new InMemoryEventStore(),
+        onsessioninitialized: (newSessionId) => {
+          console.log(`Streamable HTTP session initialized with ID: ${newSessionId}`);
+          session = sessions.add(newSessionId, newTransport, server, req.auth?.clientId);
+        },
+      });
+
+      // Set up onclose handler to clean up transport when closed
+      newTransport.onclose = () => {
+        const sid = newTransport.sessionId;
+        if (sid && sessions.get(sid)) {
+          console.log(`Streamable HTTP transport closed for session ${sid}`);
+          sessions.remove(sid);
+        }
+      };
+
+      // Connect the transport to the MCP server
+      await server.connect(newTransport);
+      limitToolCalls(newTransport, toolCallLimiter, rateLimitConfig);
+      transport = newTransport;
+    } else {
+      sendJsonRpcError(res, 400, -32000, "Bad Request: No valid session ID provided");
+      return;
+    }
+
+    await transport.handleRequest(req, res, req.body);
+
+    if (!session) {
+      // The initialize request was rejected, so there's no session to keep
+      await transport.close();
+    } else if (String(res.getHeader("Content-Type") ?? "").startsWith("text/event-stream")) {
+      // A standalone GET stream, or a POST whose responses are still streaming
+      sessions.keepAlive(session, res);
+    }
+  } catch (error) {
+    console.error("Error handling Streamable HTTP request:", error);
+    if (!res.headersSent) {
+      sendJsonRpcError(res, 500, -32603, "Internal server error");
+    }
+  }
+};
+
+// MCP endpoint: a GET without a session header is a legacy SSE client,
+// everything else is negotiated as Streamable HTTP
+app.all("/mcp", async (req, res) => {
+  if (req.method === "GET" && !req.headers["mcp-session-id"]) {
+    await handleLegacySseRequest(req, res);
+    return;
+  }
+  await handleStreamableHttpRequest(req, res);
 });
 
-// Messages endpoint for receiving client JSON-RPC requests
+// Messages endpoint for receiving legacy SSE client JSON-RPC requests
 app.post("/messages", async (req, res) => {
-  console.log("Received POST request to /messages");
+  console.log(`Received POST request to /messages${clientLabel(req.auth)}`);
 
   // Extract session ID from URL query parameter
   const sessionId = req.query.sessionId as string;
@@ -547,16 +401,29 @@ app.post("/messages", async (req, res) => {
   }
 
   // Find the corresponding transport
-  const transport = transports[sessionId];
-  if (!transport) {
+  const session = sessions.get(sessionId);
+  const transport = session?.transport;
+  if (!session || !transport) {
     console.error(`No transport found for session ID: ${sessionId}`);
     res.status(404).send("Session not found");
     return;
   }
 
+  if (!(transport instanceof SSEServerTransport)) {
+    console.error(`Session ${sessionId} uses Streamable HTTP, not SSE`);
+    res.status(400).send("Session uses a different transport protocol");
+    return;
+  }
+
+  if (!isSessionClient(session, req)) {
+    console.error(`Session ${sessionId} belongs to a different client`);
+    res.status(403).send("Session belongs to a different client");
+    return;
+  }
+
   try {
     // Handle the message through the transport
-    await transport.handlePostMessage(req.body, res);
+    await transport.handlePostMessage(req, res, req.body);
   } catch (error) {
     console.error("Error handling message:", error);
     if (!res.headersSent) {
@@ -565,6 +432,220 @@ app.post("/messages", async (req, res) => {
   }
 });
 
+// Notify every connected session that data-backed tools and resources changed
+const notifyDataChanged = async () => {
+  for (const { id: sessionId, transport } of sessions.all()) {
+    try {
+      await transport.send({ jsonrpc: "2.0", method: "notifications/resources/list_changed" });
+      await transport.send({ jsonrpc: "2.0", method: "notifications/tools/list_changed" });
+    } catch (error) {
+      console.error(`Failed to notify session ${sessionId} of data change:`, error);
+    }
+  }
+};
+
+dataStore.onReload((data) => {
+  warmSearchIndexes(data);
+  void notifyDataChanged();
+});
+
+if (process.env.DATA_WATCH !== 'false') {
+  dataStore.watch();
+}
+
+// Admin endpoints: the shared ADMIN_TOKEN, or an API key or OAuth token
+// with the `admin` scope. Disabled when neither is configured.
+const isAdminRequest = (req: express.Request) => {
+  const adminToken = process.env.ADMIN_TOKEN;
+  const header = req.headers.authorization;
+  if (!adminToken || !header?.startsWith("Bearer ")) {
+    return false;
+  }
+  const provided = Buffer.from(header.slice("Bearer ".length));
+  const expected = Buffer.from(adminToken);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+};
+
+const adminAuth = tokenVerifier && authenticate({ verifier: tokenVerifier, scopes: () => ["admin"], resourceMetadataUrl });
+
+const requireAdmin: express.RequestHandler = (req, res, next) => {
+  if (isAdminRequest(req)) {
+    next();
+    return;
+  }
+  if (adminAuth) {
+    void adminAuth(req, res, next);
+    return;
+  }
+  if (!process.env.ADMIN_TOKEN) {
+    res.status(404).send("Not found");
+    return;
+  }
+  res.status(401).json({ error: "Unauthorized" });
+};
+
+// Clients with their own credentials are named by them; the admin token is
+// shared, so its callers name themselves and the audit log marks the name
+// as unverified
+const adminActor = (req: express.Request): AuditActor =>
+  req.auth ? { name: req.auth.clientId, verified: true } : { name: req.get("X-Admin-User")?.trim() || "admin", verified: false };
+
+app.post("/admin/reload", requireAdmin, (req, res) => {
+  const result = dataStore.reload();
+  res.status(result.ok ? 200 : 422).json(result);
+});
+
+const isInquiryStatus = (value: unknown): value is InquiryStatus =>
+  typeof value === "string" && (INQUIRY_STATUSES as readonly string[]).includes(value);
+
+// Volunteer inquiries for coordinators: JSON by default, ?format=csv to export.
+// ?status=pending (default), handled or all
+app.get("/admin/inquiries", requireAdmin, (req, res) => {
+  const status = req.query.status ?? "pending";
+  if (status !== "all" && !isInquiryStatus(status)) {
+    res.status(400).json({ error: `status must be all, ${INQUIRY_STATUSES.join(" or ")}` });
+    return;
+  }
+  try {
+    const inquiries = inquiryStore.list(status === "all" ? undefined : status);
+    if (req.query.format === "csv") {
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="volunteer-inquiries.csv"`);
+      res.send(inquiriesToCsv(inquiries));
+      return;
+    }
+    res.json({ total_count: inquiries.length, inquiries });
+  } catch (error) {
+    console.error("Error listing inquiries:", error);
+    res.status(500).json({ error: "Error listing inquiries" });
+  }
+});
+
+// Mark an inquiry handled once a coordinator has followed up (or pending again)
+app.patch("/admin/inquiries/:id", requireAdmin, (req, res) => {
+  const status = req.body?.status;
+  if (!isInquiryStatus(status)) {
+    res.status(400).json({ error: `status must be ${INQUIRY_STATUSES.join(" or ")}` });
+    return;
+  }
+  try {
+    const inquiry = inquiryStore.setStatus(req.params.id, status, adminActor(req).name, systemClock());
+    if (!inquiry) {
+      res.status(404).json({ error: `No inquiry "${req.params.id}"` });
+      return;
+    }
+    res.json(inquiry);
+  } catch (error) {
+    console.error("Error updating inquiry:", error);
+    res.status(500).json({ error: "Error updating inquiry" });
+  }
+});
+
+// Admin content API: CRUD on opportunities, services, locations, events and
+// in-kind categories. Writes are validated, saved through the data provider
+// and visible to tools right away; each change is audit-logged.
+app.get("/admin/content/audit", requireAdmin, (req, res) => {
+  const limit = Number(req.query.limit ?? 100);
+  try {
+    res.json({ entries: auditLog.list(Number.isInteger(limit) && limit > 0 ? limit : 100) });
+  } catch (error) {
+    console.error("Error reading audit log:", error);
+    res.status(500).json({ error: "Error reading audit log" });
+  }
+});
+
+app.get("/admin/content/:collection", requireAdmin, (req, res) => {
+  const { collection } = req.params;
+  if (!isContentCollection(collection)) {
+    res.status(404).json({ error: `Unknown collection "${collection}"` });
+    return;
+  }
+  res.json({ collection, records: CONTENT_COLLECTIONS[collection].records(dataStore.current) });
+});
+
+app.get("/admin/content/:collection/:key", requireAdmin, (req, res) => {
+  const { collection, key } = req.params;
+  if (!isContentCollection(collection)) {
+    res.status(404).json({ error: `Unknown collection "${collection}"` });
+    return;
+  }
+  const record = findRecord(dataStore.current, collection, key);
+  if (!record) {
+    res.status(404).json({ error: `No ${collection} record "${key}"` });
+    return;
+  }
+  res.json(record);
+});
+
+const writeContent = (action: ContentAction): express.RequestHandler => (req, res) => {
+  const { collection, key } = req.params;
+  if (!isContentCollection(collection)) {
+    res.status(404).json({ error: `Unknown collection "${collection}"` });
+    return;
+  }
+
+  try {
+    let change: ContentChange | undefined;
+    dataStore.update(
+      (raw) => {
+        change = applyContentChange(raw, collection, action, key, req.body);
+      },
+      // Logged before saving, so an applied change is never missing from the log
+      () => auditLog.record(change!, adminActor(req), systemClock())
+    );
+    if (action === "delete") {
+      res.status(204).end();
+      return;
+    }
+    res.status(action === "create" ? 201 : 200).json(change!.after);
+  } catch (error: any) {
+    if (error instanceof ContentError) {
+      res.status(error.status).json({ error: error.message, issues: error.issues });
+      return;
+    }
+    if (error instanceof DataValidationError) {
+      res.status(422).json({ error: "The change would leave the content invalid", issues: error.issues });
+      return;
+    }
+    console.error(`Error applying ${action} to ${collection}:`, error);
+    res.status(500).json({ error: "Error saving content" });
+  }
+};
+
+app.post("/admin/content/:collection", requireAdmin, writeContent("create"));
+app.put("/admin/content/:collection/:key", requireAdmin, writeContent("replace"));
+app.patch("/admin/content/:collection/:key", requireAdmin, writeContent("patch"));
+app.delete("/admin/content/:collection/:key", requireAdmin, writeContent("delete"));
+
+// iCalendar download for shifts, events and feeds (same selection as export_calendar)
+app.get("/calendar.ics", (req, res) => {
+  const parsed = ExportCalendarSchema.safeParse({
+    ...req.query,
+    include_shifts: req.query.include_shifts === undefined ? undefined : req.query.include_shifts === "true",
+    include_events: req.query.include_events === undefined ? undefined : req.query.include_events === "true",
+    days: req.query.days === undefined ? undefined : Number(req.query.days),
+  });
+  if (!parsed.success) {
+    res.status(400).send("Invalid calendar parameters");
+    return;
+  }
+
+  try {
+    const calendar = buildCalendar(localizeData(dataStore.current, parsed.data.language), parsed.data, systemClock());
+    const filename = calendar.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename || "calendar"}.ics"`);
+    res.send(calendar.ics);
+  } catch (error) {
+    if (error instanceof CalendarSelectionError) {
+      res.status(404).send(error.message);
+      return;
+    }
+    console.error("Error building calendar:", error);
+    res.status(500).send("Error building calendar");
+  }
+});
+
 // Health check endpoint
 app.get("/health", (req, res) => {
   res.json({ status: "ok", name: "CCTwinCities MCP Server" });
@@ -572,8 +653,26 @@ app.get("/health", (req, res) => {
 
 // Start server
 const PORT = process.env.PORT || 2091;
-app.listen(PORT, () => {
+const httpServer = app.listen(PORT, () => {
   console.log(`🚀 Catholic Charities Twin Cities MCP Server running on port ${PORT}`);
   console.log(`📡 MCP endpoint: http://localhost:${PORT}/mcp`);
   console.log(`💚 Health check: http://localhost:${PORT}/health`);
 });
+
+// Graceful shutdown (Render sends SIGTERM before a restart): stop taking
+// connections and new MCP requests, let in-flight tool calls finish, then
+// close every session so clients see a clean end of stream
+const shutdown = async (signal: string) => {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  console.log(`${signal} received: finishing ${sessions.inFlight()} in-flight requests and closing ${sessions.size} sessions`);
+  httpServer.close();
+  dataStore.unwatch();
+  await sessions.shutdown();
+  httpServer.closeAllConnections();
+  console.log("👋 Shutdown complete");
+  process.exit(0);
+};
+
+process.on("SIGTERM", () => void shutdown("SIGTERM"));
+process.on("SIGINT", () => void shutdown("SIGINT"));
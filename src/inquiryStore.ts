@@ -0,0 +1,142 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "fs";
+import { randomBytes } from "crypto";
+import { dirname } from "path";
+import { writeFileAtomic } from "./dataProviders.js";
+import type { Language } from "./schema.js";
+
+/**
+ * Volunteer interest submissions, appended one JSON object per line so a
+ * crash mid-write can only lose the last record and the file stays readable
+ * with standard tools. Coordinators mark inquiries handled once they've
+ * followed up; that rewrites the file atomically.
+ */
+
+export const INQUIRY_STATUSES = ["pending", "handled"] as const;
+
+export type InquiryStatus = (typeof INQUIRY_STATUSES)[number];
+
+export interface VolunteerInquiryInput {
+  name: string;
+  email?: string;
+  phone?: string;
+  opportunity_id: string;
+  group_size: number;
+  availability: string;
+  notes?: string;
+  // Language the volunteer used, so the coordinator can reply in it
+  language?: Language;
+  // API client the inquiry came through, when client authentication is on
+  client?: string;
+}
+
+export type VolunteerInquiry = VolunteerInquiryInput & {
+  confirmation_id: string;
+  opportunity_title: string;
+  status: InquiryStatus;
+  submitted_at: string;
+  // When and by whom the status last changed
+  updated_at?: string;
+  updated_by?: string;
+};
+
+// No 0/O or 1/I, so IDs read back over the phone unambiguously
+const ID_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+function confirmationId(now: Date): string {
+  const date = now.toISOString().slice(0, 10).replace(/-/g, "");
+  const suffix = Array.from(randomBytes(6), (byte) => ID_ALPHABET[byte % ID_ALPHABET.length]).join("");
+  return `VI-${date}-${suffix}`;
+}
+
+export class InquiryStore {
+  constructor(private path: string) {}
+
+  // New inquiries are always pending
+  add(input: VolunteerInquiryInput, opportunityTitle: string, now: Date): VolunteerInquiry & { status: "pending" } {
+    const inquiry: VolunteerInquiry & { status: "pending" } = {
+      confirmation_id: confirmationId(now),
+      ...input,
+      opportunity_title: opportunityTitle,
+      status: "pending",
+      submitted_at: now.toISOString(),
+    };
+    mkdirSync(dirname(this.path), { recursive: true });
+    appendFileSync(this.path, JSON.stringify(inquiry) + "\n", "utf-8");
+    return inquiry;
+  }
+
+  // Malformed lines (e.g. a torn final write) are skipped with a warning
+  list(status?: InquiryStatus): VolunteerInquiry[] {
+    const inquiries: VolunteerInquiry[] = [];
+    this.lines().forEach((line, idx) => {
+      if (!line.trim()) return;
+      try {
+        inquiries.push(JSON.parse(line));
+      } catch {
+        console.warn(`⚠️  Skipping malformed inquiry on line ${idx + 1} of ${this.path}`);
+      }
+    });
+    return status ? inquiries.filter((inquiry) => inquiry.status === status) : inquiries;
+  }
+
+  /**
+   * Set an inquiry's status. Returns the updated inquiry, or undefined if
+   * there's none with that confirmation ID. Other lines, malformed ones
+   * included, are written back unchanged.
+   */
+  setStatus(id: string, status: InquiryStatus, actor: string, now: Date): VolunteerInquiry | undefined {
+    const lines = this.lines();
+    let updated: VolunteerInquiry | undefined;
+    const rewritten = lines.map((line) => {
+      if (updated || !line.includes(id)) return line;
+      try {
+        const inquiry: VolunteerInquiry = JSON.parse(line);
+        if (inquiry.confirmation_id !== id) return line;
+        updated = { ...inquiry, status, updated_at: now.toISOString(), updated_by: actor };
+        return JSON.stringify(updated);
+      } catch {
+        return line;
+      }
+    });
+    if (updated) writeFileAtomic(this.path, rewritten.join("\n"));
+    return updated;
+  }
+
+  private lines(): string[] {
+    return existsSync(this.path) ? readFileSync(this.path, "utf-8").split("\n") : [];
+  }
+}
+
+const CSV_COLUMNS: (keyof VolunteerInquiry)[] = [
+  "confirmation_id",
+  "submitted_at",
+  "status",
+  "name",
+  "email",
+  "phone",
+  "opportunity_id",
+  "opportunity_title",
+  "group_size",
+  "availability",
+  "notes",
+  "language",
+  "client",
+  "updated_at",
+  "updated_by",
+];
+
+// Submissions are user input: quote delimiters, and defuse leading
+// characters that spreadsheets would evaluate as formulas
+const csvField = (value: unknown) => {
+  const raw = value === undefined || value === null ? "" : String(value);
+  const text = /^[=+\-@]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV export for spreadsheets, one row per inquiry.
+ */
+export function inquiriesToCsv(inquiries: VolunteerInquiry[]): string {
+  const rows = inquiries.map((inquiry) => CSV_COLUMNS.map((column) => csvField(inquiry[column])).join(","));
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
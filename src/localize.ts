@@ -0,0 +1,129 @@
+import type { CCData, Language } from "./schema.js";
+
+/**
+ * Translated views of the data. Records in CC.json carry per-language
+ * overrides in `translations`; each field falls back to its English text
+ * when a translation leaves it out. The `translations` blocks themselves are
+ * dropped so they never reach tool output.
+ */
+
+type Translatable = { translations?: Partial<Record<Exclude<Language, "en">, object>> };
+
+// The override fields for `language`, and the record without its translations
+function split<T extends Translatable>(record: T, language: Language) {
+  const { translations, ...rest } = record;
+  const overrides = language === "en" ? undefined : translations?.[language];
+  return { rest, t: (overrides ?? {}) as NonNullable<NonNullable<T["translations"]>[Exclude<Language, "en">]> };
+}
+
+// Services are referenced by name, so the references follow their translation
+function localizeNeed(resources: CCData["crisis"]["needs"]["safety"], serviceNames: Map<string, string>, language: Language) {
+  const { rest, t } = split(resources, language);
+  return {
+    ...rest,
+    services: resources.services.map((name) => serviceNames.get(name) ?? name),
+    guidance: t.guidance ?? resources.guidance,
+  };
+}
+
+function localize(ccData: CCData, language: Language): CCData {
+  const { volunteer, donations, organization, crisis } = ccData;
+
+  const generalInfo = split(volunteer.general_info, language);
+  const online = split(donations.online, language);
+  const inKind = split(donations.in_kind, language);
+  const vehicle = split(donations.vehicle, language);
+  const org = split(organization, language);
+  const crisisInfo = split(crisis, language);
+  const services = organization.services.map((svc) => {
+    const { rest, t } = split(svc, language);
+    return { ...rest, name: t.name ?? svc.name, description: t.description ?? svc.description };
+  });
+  const serviceNames = new Map(organization.services.map((svc, i) => [svc.name, services[i].name]));
+
+  return {
+    volunteer: {
+      opportunities: volunteer.opportunities.map((opp) => {
+        const { rest, t } = split(opp, language);
+        return {
+          ...rest,
+          title: t.title ?? opp.title,
+          description: t.description ?? opp.description,
+          schedule: { ...opp.schedule, details: t.schedule_details ?? opp.schedule.details },
+        };
+      }),
+      general_info: { ...generalInfo.rest, policies: generalInfo.t.policies ?? volunteer.general_info.policies },
+    },
+    donations: {
+      ...donations,
+      online: {
+        ...online.rest,
+        types: online.t.types ?? donations.online.types,
+        notes: online.t.notes ?? donations.online.notes,
+      },
+      in_kind: {
+        ...inKind.rest,
+        accepted_items: donations.in_kind.accepted_items.map((cat) => {
+          const { rest, t } = split(cat, language);
+          return {
+            ...rest,
+            category: t.category ?? cat.category,
+            details: t.details ?? cat.details,
+            restrictions: t.restrictions ?? cat.restrictions,
+          };
+        }),
+        not_accepted: inKind.t.not_accepted ?? donations.in_kind.not_accepted,
+        policies: inKind.t.policies ?? donations.in_kind.policies,
+      },
+      vehicle: {
+        ...vehicle.rest,
+        process_description: vehicle.t.process_description ?? donations.vehicle.process_description,
+      },
+    },
+    organization: {
+      ...org.rest,
+      mission: org.t.mission ?? organization.mission,
+      service_area: org.t.service_area ?? organization.service_area,
+      services,
+      contact: { ...organization.contact, hours: org.t.contact_hours ?? organization.contact.hours },
+      about: { ...organization.about, history: org.t.history ?? organization.about.history },
+      upcoming_events: organization.upcoming_events.map((evt) => {
+        const { rest, t } = split(evt, language);
+        return { ...rest, name: t.name ?? evt.name, description: t.description ?? evt.description };
+      }),
+    },
+    crisis: {
+      ...crisisInfo.rest,
+      notice: crisisInfo.t.notice ?? crisis.notice,
+      lines: crisis.lines.map((line) => {
+        const { rest, t } = split(line, language);
+        return { ...rest, available: t.available ?? line.available, description: t.description ?? line.description };
+      }),
+      needs: {
+        safety: localizeNeed(crisis.needs.safety, serviceNames, language),
+        shelter: localizeNeed(crisis.needs.shelter, serviceNames, language),
+        food: localizeNeed(crisis.needs.food, serviceNames, language),
+      },
+    },
+  };
+}
+
+const localizedCache = new WeakMap<CCData, Map<Language, CCData>>();
+
+/**
+ * The data snapshot in `language`, built on first use and reused until the
+ * data is reloaded, so search indexes over it are cached too.
+ */
+export function localizeData(ccData: CCData, language: Language = "en"): CCData {
+  let byLanguage = localizedCache.get(ccData);
+  if (!byLanguage) {
+    byLanguage = new Map();
+    localizedCache.set(ccData, byLanguage);
+  }
+  let localized = byLanguage.get(language);
+  if (!localized) {
+    localized = localize(ccData, language);
+    byLanguage.set(language, localized);
+  }
+  return localized;
+}
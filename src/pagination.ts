@@ -0,0 +1,82 @@
+import { createHash } from "crypto";
+
+export const DEFAULT_PAGE_SIZE = 10;
+export const MAX_PAGE_SIZE = 50;
+
+export class InvalidCursorError extends Error {
+  constructor(message = "Invalid or expired cursor") {
+    super(message);
+    this.name = "InvalidCursorError";
+  }
+}
+
+interface CursorPayload {
+  offset: number;
+  // Fingerprint of the query the cursor was issued for
+  query: string;
+}
+
+/**
+ * Stable fingerprint of the parameters that determine a result set, so a
+ * cursor from one search can't be replayed against a different one.
+ */
+export function queryFingerprint(params: Record<string, unknown>): string {
+  const normalized = Object.keys(params)
+    .filter((key) => params[key] !== undefined)
+    .sort()
+    .map((key) => [key, params[key]]);
+  return createHash("sha256").update(JSON.stringify(normalized)).digest("base64url").slice(0, 12);
+}
+
+export function encodeCursor(offset: number, fingerprint: string): string {
+  const payload: CursorPayload = { offset, query: fingerprint };
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+const isCursorPayload = (value: unknown): value is CursorPayload =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  Number.isInteger((value as CursorPayload).offset) &&
+  (value as CursorPayload).offset >= 0;
+
+export function decodeCursor(cursor: string, fingerprint: string): number {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+  } catch {
+    throw new InvalidCursorError();
+  }
+  // Valid JSON isn't necessarily a cursor: null, numbers and arrays decode too
+  if (!isCursorPayload(payload)) {
+    throw new InvalidCursorError();
+  }
+  if (payload.query !== fingerprint) {
+    throw new InvalidCursorError("Cursor does not match the current search filters");
+  }
+  return payload.offset;
+}
+
+export interface Page<T> {
+  items: T[];
+  offset: number;
+  total_count: number;
+  next_cursor: string | null;
+}
+
+/**
+ * Slice `items` for the page starting at `cursor` (or the first page).
+ */
+export function paginate<T>(
+  items: T[],
+  { limit, cursor, fingerprint }: { limit: number; cursor?: string; fingerprint: string }
+): Page<T> {
+  const offset = cursor ? decodeCursor(cursor, fingerprint) : 0;
+  const end = offset + limit;
+  return {
+    items: items.slice(offset, end),
+    offset,
+    total_count: items.length,
+    next_cursor: end < items.length ? encodeCursor(end, fingerprint) : null,
+  };
+}
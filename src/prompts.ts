@@ -0,0 +1,210 @@
+import type { CCData } from "./schema.js";
+import { formatShift, upcomingShifts } from "./schedule.js";
+import { formatOpeningHours, openStatus } from "./hours.js";
+import { parseVolunteerPolicies, screenOpportunities } from "./screening.js";
+import { formatGroupOption, planGroupVolunteering } from "./groupPlanner.js";
+import { checkDonationItem } from "./donationCheck.js";
+import { detectUrgentNeeds } from "./crisis.js";
+import { getSearchIndex } from "./search.js";
+
+/**
+ * Guided-flow prompt templates. Each builds a user message that states the
+ * goal, carries the relevant CC.json content as of the call (policies,
+ * hours, contacts) and names the tools to use for the next steps, so
+ * clients that offer prompts as slash-commands start from live data.
+ */
+
+// Prompt arguments arrive as strings; blank or non-numeric values count as missing
+const toNumber = (value: string | undefined) => {
+  const parsed = value?.trim() ? Number(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const bullets = (lines: string[]) => lines.map((line) => `- ${line}`).join("\n");
+
+const section = (heading: string, body: string) => `## ${heading}\n\n${body}`;
+
+export interface FirstShiftArgs {
+  city?: string;
+  age?: string;
+  availability?: string;
+}
+
+/**
+ * Help a first-time volunteer pick an opportunity and a shift.
+ */
+export function firstVolunteerShiftPrompt(ccData: CCData, args: FirstShiftArgs, now: Date): string {
+  const generalInfo = ccData.volunteer.general_info;
+  const policies = parseVolunteerPolicies(generalInfo.policies);
+  const age = toNumber(args.age);
+  const city = args.city?.toLowerCase();
+
+  const opportunities = ccData.volunteer.opportunities.filter((opp) => !city || opp.location.city.toLowerCase().includes(city));
+  const screened = screenOpportunities(opportunities, { age }, policies, now).filter((result) => result.status !== "ineligible");
+  const candidates = screened.map((result) => {
+    const opp = opportunities.find((o) => o.id === result.opportunity_id)!;
+    const shifts = upcomingShifts(opp.schedule, now, 3);
+    return (
+      `**${opp.title}** (id \`${opp.id}\`), ${opp.location.facility}, ${opp.location.city}\n` +
+      `  Schedule: ${shifts.length > 0 ? shifts.map((shift) => formatShift(shift)).join("; ") : opp.schedule.details}` +
+      result.rules.map((rule) => `\n  Note: ${rule.message}`).join("")
+    );
+  });
+
+  const about = [
+    args.city && `I'd like to volunteer in or near ${args.city}.`,
+    age !== undefined && `I'm ${age} years old.`,
+    args.availability && `I'm usually available ${args.availability}.`,
+  ].filter(Boolean);
+
+  return [
+    `I want to plan my first volunteer shift with Catholic Charities Twin Cities. ${about.join(" ")}`.trim(),
+    "Help me choose one opportunity that suits me, pick a specific upcoming shift, and tell me what to bring and expect. " +
+      "Ask me anything you need to know first. Use screen_volunteer_eligibility to check my availability against the schedules, " +
+      "and submit_volunteer_inquiry once I've chosen, so the coordinator can follow up.",
+    section("Volunteer policies", bullets(generalInfo.policies)),
+    section(
+      "Opportunities I qualify for",
+      candidates.length > 0 ? bullets(candidates) : "None match these details; suggest other cities or ages, or the volunteer office."
+    ),
+    section("Volunteer office", `${generalInfo.main_contact.email} | ${generalInfo.main_contact.phone}\nWeb form: ${generalInfo.main_contact.web_form_url}`),
+  ].join("\n\n");
+}
+
+export interface DonationDropOffArgs {
+  items?: string;
+}
+
+/**
+ * Get a set of in-kind items ready to drop off: what's accepted and where and when to bring it.
+ */
+export function donationDropOffPrompt(ccData: CCData, args: DonationDropOffArgs, now: Date): string {
+  const inKind = ccData.donations.in_kind;
+  const items = (args.items ?? "").split(/[,;\n]/).map((item) => item.trim()).filter(Boolean);
+
+  // Checked as new items; the assistant confirms the condition with the donor
+  const checks = items.map((item) => {
+    const result = checkDonationItem(inKind, item, "new");
+    return `${item}: ${result.verdict.replace(/_/g, " ")}. ${result.reason}`;
+  });
+
+  const locations = inKind.drop_off_locations.map(
+    (loc) =>
+      `**${loc.name}**, ${loc.address}\n  Hours: ${formatOpeningHours(loc.opening_hours)} (${openStatus(loc.opening_hours, now).summary})\n  Contact: ${loc.phone} | ${loc.email}`
+  );
+
+  return [
+    `I'd like to donate items to Catholic Charities Twin Cities${items.length > 0 ? `: ${items.join(", ")}` : ""}.`,
+    "Help me prepare the drop-off: which of my items they can take, how to pack them, and when to bring them. " +
+      "Ask whether each item is new, since only new items are accepted, and use check_donation_item for anything not covered below.",
+    ...(checks.length > 0 ? [section("Wishlist check (assuming new condition)", bullets(checks))] : []),
+    section("Currently accepting", bullets(inKind.accepted_items.map((cat) => `**${cat.category}**: ${cat.details}${cat.restrictions ? ` (${cat.restrictions})` : ""}`))),
+    section("Not accepted", bullets(inKind.not_accepted)),
+    section("Drop-off policies", bullets(inKind.policies)),
+    section("Where to drop off", bullets(locations)),
+    `Full wishlist: ${inKind.wishlist_url}`,
+  ].join("\n\n");
+}
+
+export interface FamilyHelpArgs {
+  need?: string;
+  age?: string;
+  city?: string;
+}
+
+/**
+ * Find services for a relative, with urgent needs routed to crisis help first.
+ */
+export function familyHelpPrompt(ccData: CCData, args: FamilyHelpArgs, now: Date): string {
+  const org = ccData.organization;
+  const age = toNumber(args.age);
+  const need = args.need?.trim();
+  const urgent = need ? detectUrgentNeeds(need) : [];
+
+  const services = (need ? getSearchIndex(ccData).search(need, 8) : [])
+    .filter((result) => result.type === "service")
+    .map((result) => `**${result.heading}**: ${result.summary}`);
+  const serviceList = services.length > 0 ? services : org.services.map((svc) => `**${svc.name}**: ${svc.description}`);
+
+  // Donation drop-off sites are service centers too, but don't serve clients
+  const dropOffs = new Set(ccData.donations.in_kind.drop_off_locations.map((loc) => loc.address));
+  const locations = org.locations
+    .filter((loc) => loc.type === "service-center" && !dropOffs.has(loc.address))
+    .filter((loc) => !args.city || loc.address.toLowerCase().includes(args.city.toLowerCase()))
+    .map((loc) => `**${loc.name}**, ${loc.address}${loc.phone ? `, ${loc.phone}` : ""}\n  ${openStatus(loc.opening_hours, now).summary}`);
+
+  const about = [
+    need && `They need help with: ${need}.`,
+    age !== undefined && `They are ${age} years old.`,
+    args.city && `They live in or near ${args.city}.`,
+  ].filter(Boolean);
+
+  return [
+    `I'm looking for help for a family member from Catholic Charities Twin Cities. ${about.join(" ")}`.trim(),
+    (urgent.length > 0
+      ? "This sounds urgent: call get_immediate_help first and lead with its crisis lines and open shelter or meal sites. Then explain"
+      : "Explain") +
+      " which programs fit their situation, who to call, and what to say when they call. " +
+      "Ask gentle follow-up questions if you need more detail, and use search_org_info or find_nearby_locations for specifics.",
+    section(services.length > 0 ? "Programs that match" : "Programs", bullets(serviceList)),
+    section("Service locations", locations.length > 0 ? bullets(locations) : "No service centers in that city; list the nearest ones with find_nearby_locations."),
+    section("Main contact", `${org.contact.main_phone} | ${org.contact.main_email} (${org.contact.hours})\n${ccData.crisis.notice}`),
+  ].join("\n\n");
+}
+
+export interface CorporateServiceDayArgs {
+  group_size?: string;
+  company?: string;
+  youngest_age?: string;
+  preferred_dates?: string;
+  city?: string;
+}
+
+/**
+ * Plan a company volunteer day from the group planner's suggestion.
+ */
+export function corporateServiceDayPrompt(ccData: CCData, args: CorporateServiceDayArgs, now: Date): string {
+  const generalInfo = ccData.volunteer.general_info;
+  const policies = parseVolunteerPolicies(generalInfo.policies);
+  const groupSize = toNumber(args.group_size);
+  const youngest = toNumber(args.youngest_age) ?? policies.independent_age;
+  const dates = (args.preferred_dates ?? "").split(/[,;]/).map((date) => date.trim()).filter(Boolean);
+
+  const groupPolicies = [policies.text.standard_group, policies.text.large_group, policies.text.supervised].filter(
+    (text): text is string => Boolean(text)
+  );
+
+  let plan = "Ask me for our group size, then use plan_group_volunteering.";
+  if (groupSize !== undefined && groupSize >= 1) {
+    const result = planGroupVolunteering(
+      ccData.volunteer.opportunities,
+      { group_size: Math.round(groupSize), min_age: youngest, preferred_dates: dates, city: args.city, group_name: args.company },
+      policies,
+      generalInfo.main_contact,
+      now
+    );
+    plan =
+      `Planner suggestion (${result.plan.replace(/_/g, " ")}):\n\n` +
+      (result.options.length > 0
+        ? result.options.map((option, idx) => `${idx + 1}. ${formatGroupOption(option, result.plan)}`).join("\n")
+        : "No group-friendly opportunities fit these details.") +
+      (result.special_arrangement_reason ? `\n\nSpecial arrangement: ${result.special_arrangement_reason}` : "");
+  }
+
+  const about = [
+    groupSize !== undefined && `We have ${groupSize} people.`,
+    args.youngest_age && `Our youngest participant is ${youngest}.`,
+    dates.length > 0 && `Preferred dates: ${dates.join(", ")}.`,
+    args.city && `We'd prefer ${args.city}.`,
+  ].filter(Boolean);
+
+  return [
+    `I'm organizing a corporate service day${args.company ? ` for ${args.company}` : ""} with Catholic Charities Twin Cities. ${about.join(" ")}`.trim(),
+    "Help me plan it: which opportunities fit our team, how to split us if needed, what lead time and paperwork to expect, " +
+      "and a short message I can send to colleagues. Use plan_group_volunteering to refine the plan as details change, " +
+      "and draft the inquiry to the volunteer office when a special arrangement is needed.",
+    section("Group policies", groupPolicies.length > 0 ? bullets(groupPolicies) : bullets(generalInfo.policies)),
+    section("Suggested plan", plan),
+    section("Volunteer office", `${generalInfo.main_contact.email} | ${generalInfo.main_contact.phone}`),
+  ].join("\n\n");
+}
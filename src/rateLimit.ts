@@ -0,0 +1,178 @@
+import type { Request, RequestHandler } from "express";
+import rateLimit, { ipKeyGenerator, type RateLimitInfo } from "express-rate-limit";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { isJSONRPCRequest, type JSONRPCError, type RequestId } from "@modelcontextprotocol/sdk/types.js";
+import { systemClock, type Clock } from "./clock.js";
+import { positiveInteger } from "./env.js";
+
+/**
+ * Rate limits for the MCP endpoints, in three layers:
+ *
+ * - per IP, a generous backstop against floods and session churn (many
+ *   ChatGPT users can share one egress IP)
+ * - per caller: the API client when authenticated, otherwise the MCP
+ *   session (requests that open a session only count against the IP)
+ * - per caller and tool, so one expensive or sensitive tool can't use up
+ *   the whole budget
+ *
+ * Limited requests get a JSON-RPC error with code RATE_LIMITED and the
+ * seconds to wait in `error.data.retry_after`; HTTP-level limits also set
+ * a Retry-After header and status 429.
+ */
+
+// JSON-RPC implementation-defined server error range (-32000 to -32099)
+export const RATE_LIMITED = -32029;
+
+export interface RateLimitConfig {
+  windowMs: number;
+  // Requests per window from one IP, across all its sessions
+  ipMaxRequests: number;
+  // Requests per window from one client or session
+  maxRequests: number;
+  // Calls per window to any one tool from one client or session
+  toolMaxCalls: number;
+  // Per-tool overrides of toolMaxCalls
+  tools: Record<string, number>;
+}
+
+/**
+ * Read the RATE_LIMIT_* settings. RATE_LIMIT_TOOLS lists per-tool budgets
+ * as comma-separated `tool=calls` pairs; each tool must be one of
+ * `toolNames`, so a typo fails at startup instead of limiting nothing.
+ */
+export function parseRateLimitConfig(env: NodeJS.ProcessEnv, toolNames: readonly string[]): RateLimitConfig {
+  const tools: Record<string, number> = {};
+  for (const entry of (env.RATE_LIMIT_TOOLS ?? "").split(",").map((part) => part.trim()).filter(Boolean)) {
+    const [tool, calls] = entry.split("=").map((part) => part.trim());
+    if (!tool || !calls) {
+      throw new Error(`RATE_LIMIT_TOOLS entries must look like tool=calls, got "${entry}"`);
+    }
+    if (!toolNames.includes(tool)) {
+      throw new Error(`RATE_LIMIT_TOOLS names unknown tool "${tool}"; expected one of ${toolNames.join(", ")}`);
+    }
+    tools[tool] = positiveInteger(`RATE_LIMIT_TOOLS ${tool}`, calls, 0);
+  }
+  return {
+    windowMs: positiveInteger("RATE_LIMIT_WINDOW_MS", env.RATE_LIMIT_WINDOW_MS, 15 * 60 * 1000),
+    ipMaxRequests: positiveInteger("RATE_LIMIT_IP_MAX_REQUESTS", env.RATE_LIMIT_IP_MAX_REQUESTS, 1000),
+    maxRequests: positiveInteger("RATE_LIMIT_MAX_REQUESTS", env.RATE_LIMIT_MAX_REQUESTS, 100),
+    toolMaxCalls: positiveInteger("RATE_LIMIT_TOOL_MAX_CALLS", env.RATE_LIMIT_TOOL_MAX_CALLS, 50),
+    tools,
+  };
+}
+
+export const rateLimitError = (id: RequestId | null, message: string, retryAfterMs: number): JSONRPCError => ({
+  jsonrpc: "2.0",
+  id: id as RequestId,
+  error: {
+    code: RATE_LIMITED,
+    message,
+    data: { retry_after: Math.max(1, Math.ceil(retryAfterMs / 1000)) },
+  },
+});
+
+// The session a request belongs to, on either transport
+const requestSessionId = (req: Request) =>
+  (req.headers["mcp-session-id"] as string | undefined) ?? (typeof req.query.sessionId === "string" ? req.query.sessionId : undefined);
+
+/**
+ * Who a request counts against: the authenticated client, else the
+ * session, else the IP.
+ */
+export function callerKey(req: Request): string {
+  if (req.auth) return `client:${req.auth.clientId}`;
+  const sessionId = requestSessionId(req);
+  if (sessionId) return `session:${sessionId}`;
+  return `ip:${ipKeyGenerator(req.ip ?? "")}`;
+}
+
+// Anonymous requests without a session yet are left to the IP limit
+const hasCaller = (req: Request) => Boolean(req.auth || requestSessionId(req));
+
+/**
+ * HTTP request limiter for /mcp and /messages. Install the IP limiter
+ * before authentication and the caller limiter after it, so `req.auth` is
+ * set by the time the caller is identified.
+ */
+export function requestLimiter(config: RateLimitConfig, by: "ip" | "caller"): RequestHandler {
+  return rateLimit({
+    windowMs: config.windowMs,
+    limit: by === "ip" ? config.ipMaxRequests : config.maxRequests,
+    standardHeaders: "draft-7",
+    legacyHeaders: false,
+    keyGenerator: by === "ip" ? (req) => ipKeyGenerator(req.ip ?? "") : callerKey,
+    skip: by === "ip" ? undefined : (req) => !hasCaller(req),
+    handler: (req, res, _next, options) => {
+      const resetTime = (req as Request & { rateLimit?: RateLimitInfo }).rateLimit?.resetTime;
+      const retryAfterMs = resetTime ? resetTime.getTime() - Date.now() : config.windowMs;
+      const who = by === "ip" ? "this IP address" : "this client";
+      res.setHeader("Retry-After", String(Math.max(1, Math.ceil(retryAfterMs / 1000))));
+      res.status(options.statusCode).json(
+        rateLimitError(req.body?.id ?? null, `Rate limit exceeded: too many requests from ${who}. Try again later.`, retryAfterMs)
+      );
+    },
+  });
+}
+
+/**
+ * Fixed-window counters keyed by string, for limits checked inside the
+ * MCP layer rather than per HTTP request.
+ */
+export class FixedWindowLimiter {
+  private windows = new Map<string, { count: number; resetAt: number }>();
+  private lastPrune = 0;
+
+  constructor(private windowMs: number, private clock: Clock = systemClock) {}
+
+  /**
+   * Count a hit against `key`. Returns 0 if it's within `max`, otherwise
+   * the milliseconds until the window resets.
+   */
+  hit(key: string, max: number): number {
+    const now = this.clock().getTime();
+    this.prune(now);
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + this.windowMs };
+      this.windows.set(key, window);
+    }
+    if (window.count >= max) {
+      return window.resetAt - now;
+    }
+    window.count++;
+    return 0;
+  }
+
+  private prune(now: number) {
+    if (now - this.lastPrune < this.windowMs) return;
+    this.lastPrune = now;
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) this.windows.delete(key);
+    }
+  }
+}
+
+/**
+ * Apply per-tool budgets to a connected transport. Over-budget tools/call
+ * requests are answered with a RATE_LIMITED error and never reach the
+ * server, so this works the same on Streamable HTTP and legacy SSE.
+ */
+export function limitToolCalls(transport: Transport, limiter: FixedWindowLimiter, config: RateLimitConfig) {
+  const handle = transport.onmessage;
+  transport.onmessage = (message, extra) => {
+    if (isJSONRPCRequest(message) && message.method === "tools/call" && typeof message.params?.name === "string") {
+      const tool = message.params.name;
+      const caller = extra?.authInfo ? `client:${extra.authInfo.clientId}` : `session:${transport.sessionId}`;
+      const retryAfterMs = limiter.hit(`${caller} ${tool}`, config.tools[tool] ?? config.toolMaxCalls);
+      if (retryAfterMs > 0) {
+        console.warn(`Rate limited ${tool} for ${caller}`);
+        const error = rateLimitError(message.id, `Rate limit exceeded for ${tool}. Try again later.`, retryAfterMs);
+        transport.send(error, { relatedRequestId: message.id }).catch((sendError) => {
+          console.error(`Failed to send rate limit error for ${tool}:`, sendError);
+        });
+        return;
+      }
+    }
+    handle?.(message, extra);
+  };
+}
@@ -0,0 +1,175 @@
+import type { CCData, Location, OrgEvent, Opportunity, Service } from "./schema.js";
+import { formatOpeningHours } from "./hours.js";
+import { localizeData } from "./localize.js";
+
+/**
+ * CC.json records as browsable MCP resources. Each collection has a list
+ * resource (`cctc://services`) and one resource per record
+ * (`cctc://services/{name}`); every read returns a JSON rendering followed
+ * by a markdown one. Resources are in English with translations stripped.
+ */
+
+export const RESOURCE_SCHEME = "cctc://";
+
+export type ResourceContents = { uri: string; mimeType: string; text: string }[];
+
+export type ResourceSummary = { uri: string; name: string; description?: string; mimeType: string };
+
+// Events are grouped by date, so one resource covers every event that day
+type EventDay = { date: string; events: OrgEvent[] };
+
+interface Collection<T> {
+  title: string;
+  description: string;
+  // Name of the URI template variable: cctc://<collection>/{param}
+  param: string;
+  items: (ccData: CCData) => T[];
+  key: (item: T) => string;
+  label: (item: T) => string;
+  markdown: (item: T) => string;
+}
+
+const yesNo = (value: boolean | null) => (value === null ? "Ask the coordinator" : value ? "Yes" : "No");
+
+const opportunities: Collection<Opportunity> = {
+  title: "Volunteer Opportunities",
+  description: "Volunteer opportunities with schedules, requirements and contacts",
+  param: "id",
+  items: (ccData) => ccData.volunteer.opportunities,
+  key: (opp) => opp.id,
+  label: (opp) => opp.title,
+  markdown: (opp) =>
+    [
+      `# ${opp.title}`,
+      opp.description,
+      [
+        `- **Location:** ${[opp.location.facility, opp.location.address, opp.location.city].filter(Boolean).join(", ")}`,
+        `- **Schedule:** ${opp.schedule.details}`,
+        `- **Minimum age:** ${opp.requirements.age_minimum}`,
+        `- **Background check:** ${yesNo(opp.requirements.background_check)}`,
+        `- **Group-friendly:** ${opp.requirements.group_friendly ? `Yes (max ${opp.requirements.max_group_size ?? "N/A"})` : "No"}`,
+        ...(opp.requirements.skills.length > 0 ? [`- **Skills:** ${opp.requirements.skills.join(", ")}`] : []),
+        `- **Contact:** ${opp.contact.email} | ${opp.contact.phone}`,
+        ...(opp.signup_url ? [`- **Sign up:** ${opp.signup_url}`] : []),
+        `- **Source:** ${opp.source_url}`,
+      ].join("\n"),
+    ].join("\n\n"),
+};
+
+const services: Collection<Service> = {
+  title: "Services",
+  description: "Catholic Charities Twin Cities programs and services",
+  param: "name",
+  items: (ccData) => ccData.organization.services,
+  key: (svc) => svc.name,
+  label: (svc) => svc.name,
+  markdown: (svc) => `# ${svc.name}\n\n${svc.description}`,
+};
+
+const locations: Collection<Location> = {
+  title: "Locations",
+  description: "Shelters, opportunity centers and offices with addresses, phones and opening hours",
+  param: "name",
+  items: (ccData) => ccData.organization.locations,
+  key: (loc) => loc.name,
+  label: (loc) => loc.name,
+  markdown: (loc) =>
+    [
+      `# ${loc.name}`,
+      [
+        `- **Address:** ${loc.address}`,
+        ...(loc.phone ? [`- **Phone:** ${loc.phone}`] : []),
+        `- **Hours:** ${formatOpeningHours(loc.opening_hours)}`,
+        `- **Type:** ${loc.type}`,
+      ].join("\n"),
+    ].join("\n\n"),
+};
+
+const events: Collection<EventDay> = {
+  title: "Events",
+  description: "Organization events, one resource per date",
+  param: "date",
+  items: (ccData) => {
+    const byDate = new Map<string, OrgEvent[]>();
+    for (const evt of ccData.organization.upcoming_events) {
+      byDate.set(evt.date, [...(byDate.get(evt.date) ?? []), evt]);
+    }
+    return [...byDate.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, dayEvents]) => ({ date, events: dayEvents }));
+  },
+  key: (day) => day.date,
+  label: (day) => `${day.date}: ${day.events.map((evt) => evt.name).join("; ")}`,
+  markdown: (day) =>
+    [`# Events on ${day.date}`, ...day.events.map((evt) => `## ${evt.name}\n\n${evt.description}\n\n${evt.url}`)].join("\n\n"),
+};
+
+export const COLLECTIONS = { opportunities, services, locations, events } as const;
+
+export type CollectionName = keyof typeof COLLECTIONS;
+
+export const COLLECTION_NAMES = Object.keys(COLLECTIONS) as CollectionName[];
+
+// Record keys such as service names contain spaces, so they are URI-encoded
+export const itemUri = (collection: CollectionName, key: string) =>
+  `${RESOURCE_SCHEME}${collection}/${encodeURIComponent(key)}`;
+
+// Widened so the four collections can be handled alike
+const collectionOf = (name: CollectionName) => COLLECTIONS[name] as Collection<unknown>;
+
+const rendered = (uri: string, json: unknown, markdown: string): ResourceContents => [
+  { uri, mimeType: "application/json", text: JSON.stringify(json, null, 2) },
+  { uri, mimeType: "text/markdown", text: markdown },
+];
+
+/**
+ * One resource per record in `collection`, for resources/list.
+ */
+export function listItemResources(ccData: CCData, name: CollectionName): ResourceSummary[] {
+  const collection = collectionOf(name);
+  return collection.items(localizeData(ccData)).map((item) => ({
+    uri: itemUri(name, collection.key(item)),
+    name: collection.label(item),
+    mimeType: "application/json",
+  }));
+}
+
+/**
+ * Record keys starting with `prefix`, for completing URI template variables.
+ */
+export function completeItemKeys(ccData: CCData, name: CollectionName, prefix: string): string[] {
+  const collection = collectionOf(name);
+  const lower = prefix.toLowerCase();
+  return collection
+    .items(localizeData(ccData))
+    .map((item) => collection.key(item))
+    .filter((key) => key.toLowerCase().startsWith(lower));
+}
+
+/**
+ * Contents of a cctc:// list or record URI; null when no record matches.
+ * Record keys match case-insensitively.
+ */
+export function readDataResource(ccData: CCData, uri: string): ResourceContents | null {
+  if (!uri.startsWith(RESOURCE_SCHEME)) return null;
+  const [name, rawKey, ...rest] = uri.slice(RESOURCE_SCHEME.length).split("/");
+  // hasOwn, not `in`: "toString" and "constructor" are in every object
+  if (!Object.hasOwn(COLLECTIONS, name) || rest.length > 0) return null;
+  const collectionName = name as CollectionName;
+  const collection = collectionOf(collectionName);
+  const items = collection.items(localizeData(ccData));
+
+  if (rawKey === undefined || rawKey === "") {
+    const index = items.map((item) => `- [${collection.label(item)}](${itemUri(collectionName, collection.key(item))})`);
+    return rendered(uri, items, [`# ${collection.title}`, collection.description, index.join("\n")].join("\n\n"));
+  }
+
+  let key: string;
+  try {
+    key = decodeURIComponent(rawKey).toLowerCase();
+  } catch {
+    return null;
+  }
+  const item = items.find((candidate) => collection.key(candidate).toLowerCase() === key);
+  return item === undefined ? null : rendered(uri, item, collection.markdown(item));
+}
@@ -0,0 +1,217 @@
+import type { Language, Schedule, UpcomingShift, Weekday } from "./schema.js";
+import { formatShortDate, messages } from "./i18n.js";
+
+/**
+ * Shift schedule helpers. All schedule times are wall-clock times in the
+ * schedule's timezone (America/Chicago for the Twin Cities); dates are
+ * handled as plain YYYY-MM-DD calendar strings so DST never shifts a slot.
+ */
+
+export const TWIN_CITIES_TIMEZONE = "America/Chicago";
+
+export const WEEKDAYS: Weekday[] = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+export const TIME_OF_DAY_WINDOWS = {
+  morning: { from: "06:00", until: "12:00" },
+  afternoon: { from: "12:00", until: "17:00" },
+  evening: { from: "17:00", until: "22:00" },
+} as const;
+
+export type TimeOfDay = keyof typeof TIME_OF_DAY_WINDOWS;
+
+export interface LocalDateTime {
+  date: string;
+  time: string;
+}
+
+/**
+ * Current calendar date and HH:MM time in `timeZone`.
+ */
+export function localNow(now: Date, timeZone = TWIN_CITIES_TIMEZONE): LocalDateTime {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(now)
+      .map((p) => [p.type, p.value])
+  );
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`,
+  };
+}
+
+/**
+ * Convert a wall-clock date and time in `timeZone` to a UTC instant.
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone = TWIN_CITIES_TIMEZONE): Date {
+  const [y, mo, d] = date.split("-").map(Number);
+  const [h, mi] = time.split(":").map(Number);
+  const wallClockAsUtc = Date.UTC(y, mo - 1, d, h, mi);
+
+  // Offset of the zone at a given instant, in ms (e.g. -5h for CDT)
+  const offsetAt = (instant: number) => {
+    const local = localNow(new Date(instant), timeZone);
+    const [ly, lmo, ld] = local.date.split("-").map(Number);
+    const [lh, lmi] = local.time.split(":").map(Number);
+    return Date.UTC(ly, lmo - 1, ld, lh, lmi) - instant;
+  };
+
+  // Second pass corrects for a DST change between the guess and the answer
+  const firstGuess = wallClockAsUtc - offsetAt(wallClockAsUtc);
+  return new Date(wallClockAsUtc - offsetAt(firstGuess));
+}
+
+/**
+ * True for a real YYYY-MM-DD calendar date. Date.parse alone accepts
+ * "2025-02-31" and rolls it into March, so the parsed date must round-trip.
+ */
+export const isCalendarDate = (value: string) => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return !Number.isNaN(time) && new Date(time).toISOString().slice(0, 10) === value;
+};
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+export function weekdayOf(date: string): Weekday {
+  return WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+}
+
+export const hasStructuredSlots = (schedule: Schedule) =>
+  schedule.weekly.length > 0 || schedule.shifts.length > 0;
+
+/**
+ * Concrete shifts on a given calendar date, earliest first.
+ */
+export function shiftsOnDate(schedule: Schedule, date: string): UpcomingShift[] {
+  const weekday = weekdayOf(date);
+  const occurrences: UpcomingShift[] = [
+    ...schedule.weekly
+      .filter((slot) => slot.days.includes(weekday))
+      .map((slot) => ({ date, weekday, start: slot.start, end: slot.end, label: slot.label })),
+    ...schedule.shifts
+      .filter((shift) => shift.date === date)
+      .map((shift) => ({ date, weekday, start: shift.start, end: shift.end, label: shift.label })),
+  ];
+  return occurrences.sort((a, b) => a.start.localeCompare(b.start));
+}
+
+/**
+ * The next `count` shifts that haven't ended yet, looking up to `horizonDays` ahead.
+ */
+export function upcomingShifts(
+  schedule: Schedule,
+  now: Date,
+  count = 3,
+  horizonDays = 60
+): UpcomingShift[] {
+  if (!hasStructuredSlots(schedule)) return [];
+
+  const today = localNow(now, schedule.timezone);
+  const lastShiftDate = schedule.shifts.reduce((max, s) => (s.date > max ? s.date : max), "");
+  const results: UpcomingShift[] = [];
+
+  for (let offset = 0; offset <= horizonDays && results.length < count; offset++) {
+    const date = addDays(today.date, offset);
+    if (schedule.weekly.length === 0 && date > lastShiftDate) break;
+    for (const shift of shiftsOnDate(schedule, date)) {
+      if (offset === 0 && shift.end <= today.time) continue;
+      results.push(shift);
+      if (results.length >= count) break;
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Parse an `available_on` value: an ISO date or a weekday name such as
+ * "Saturday" or "sat".
+ */
+export function parseAvailableOn(value: string): { date: string } | { weekday: Weekday } | null {
+  const trimmed = value.trim().toLowerCase();
+  if (isCalendarDate(trimmed)) {
+    return { date: trimmed };
+  }
+  const weekday = WEEKDAYS.find((day) => trimmed.length >= 3 && day.startsWith(trimmed));
+  return weekday ? { weekday } : null;
+}
+
+const overlaps = (shift: { start: string; end: string }, from?: string, until?: string) =>
+  (!from || shift.end > from) && (!until || shift.start < until);
+
+/**
+ * Shifts matching a day and time window. For a weekday, the weekly slots on
+ * that day plus any upcoming dated shifts falling on it are considered. A
+ * date that has passed matches nothing, and on today only shifts that
+ * haven't ended count.
+ */
+export function matchingShifts(
+  schedule: Schedule,
+  day: { date: string } | { weekday: Weekday } | null,
+  window: { from?: string; until?: string },
+  now: Date
+): UpcomingShift[] {
+  let candidates: UpcomingShift[];
+
+  if (day && "date" in day) {
+    const today = localNow(now, schedule.timezone);
+    candidates = day.date < today.date
+      ? []
+      : shiftsOnDate(schedule, day.date).filter((shift) => day.date > today.date || shift.end > today.time);
+  } else {
+    const today = localNow(now, schedule.timezone).date;
+    const weekdays = day ? [day.weekday] : WEEKDAYS;
+    candidates = [
+      ...schedule.weekly.flatMap((slot) =>
+        slot.days
+          .filter((d) => weekdays.includes(d))
+          .map((d) => ({ date: "", weekday: d, start: slot.start, end: slot.end, label: slot.label }))
+      ),
+      ...schedule.shifts
+        .filter((shift) => shift.date >= today && weekdays.includes(weekdayOf(shift.date)))
+        .map((shift) => ({ ...shift, weekday: weekdayOf(shift.date) })),
+    ];
+  }
+
+  return candidates.filter((shift) => overlaps(shift, window.from, window.until));
+}
+
+/**
+ * "7:00am", "11:30am", "5:00pm"
+ */
+export function formatTime(time: string): string {
+  const [h, m] = time.split(":").map(Number);
+  const suffix = h < 12 ? "am" : "pm";
+  return `${h % 12 === 0 ? 12 : h % 12}:${String(m).padStart(2, "0")}${suffix}`;
+}
+
+/**
+ * "Sat Oct 24, 7:00am-8:00am (Breakfast)"
+ */
+export function formatShift(shift: UpcomingShift, language: Language = "en"): string {
+  const m = messages(language);
+  const day = shift.date
+    ? formatShortDate(shift.date, language)
+    : m.everyWeekday(m.weekdays[WEEKDAYS.indexOf(shift.weekday)]);
+  return `${day}, ${formatTime(shift.start)}-${formatTime(shift.end)}${shift.label ? ` (${shift.label})` : ""}`;
+}
@@ -0,0 +1,455 @@
+import { z } from "zod";
+import { isCalendarDate } from "./schedule.js";
+
+// Shared building blocks
+const ContactSchema = z.object({
+  phone: z.string(),
+  email: z.string().email(),
+});
+
+export const CoordinatesSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+});
+
+export const IsoDateSchema = z.string().refine(isCalendarDate, "Expected a YYYY-MM-DD date");
+
+// IANA zone name, checked against the runtime's time zone data so a typo
+// fails at startup rather than as a RangeError in the first request
+const isTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const TimezoneSchema = z.string().refine(isTimeZone, (value) => ({ message: `Unknown time zone "${value}"` }));
+
+const TimeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected a 24-hour HH:MM time");
+
+export const WeekdaySchema = z.enum([
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+  "sunday",
+]);
+
+// Response languages: English plus the languages of the communities we serve
+export const LanguageSchema = z.enum(["en", "es", "hmn", "so"]);
+
+// Per-language overrides for a record's text fields. Any field a translation
+// leaves out falls back to the English text; unknown field names are rejected.
+const translations = <T extends z.ZodRawShape>(fields: T) =>
+  z.record(LanguageSchema.exclude(["en"]), z.object(fields).partial().strict()).optional();
+
+const startBeforeEnd = (slot: { start: string; end: string }) => slot.start < slot.end;
+
+export const WeeklySlotSchema = z
+  .object({
+    days: z.array(WeekdaySchema).min(1),
+    start: TimeOfDaySchema,
+    end: TimeOfDaySchema,
+    label: z.string().optional(),
+  })
+  .refine(startBeforeEnd, { message: "start must be before end", path: ["end"] });
+
+export const DatedShiftSchema = z
+  .object({
+    date: IsoDateSchema,
+    start: TimeOfDaySchema,
+    end: TimeOfDaySchema,
+    label: z.string().optional(),
+  })
+  .refine(startBeforeEnd, { message: "start must be before end", path: ["end"] });
+
+export const ScheduleSchema = z.object({
+  type: z.enum(["one-time", "weekly", "flexible", "ongoing"]),
+  details: z.string(),
+  timezone: TimezoneSchema.default("America/Chicago"),
+  // Recurring weekly slots and one-off dated shifts, in `timezone` local time.
+  // Both empty means the schedule is flexible or arranged with the coordinator.
+  weekly: z.array(WeeklySlotSchema).default([]),
+  shifts: z.array(DatedShiftSchema).default([]),
+});
+
+export const HolidayClosureSchema = z.object({
+  date: IsoDateSchema,
+  name: z.string().min(1),
+});
+
+export const OpeningHoursSchema = z.object({
+  timezone: TimezoneSchema.default("America/Chicago"),
+  // Around-the-clock sites such as emergency shelters; `weekly` is ignored
+  always_open: z.boolean().default(false),
+  // Weekly opening intervals in `timezone` local time
+  weekly: z.array(WeeklySlotSchema).default([]),
+  closures: z.array(HolidayClosureSchema).default([]),
+});
+
+// Volunteer opportunities
+export const OpportunitySchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string(),
+  location: z.object({
+    city: z.string(),
+    facility: z.string(),
+    address: z.string().nullable(),
+    // null for opportunities spread across several sites
+    coordinates: CoordinatesSchema.nullable(),
+  }),
+  schedule: ScheduleSchema,
+  requirements: z.object({
+    age_minimum: z.number().int().nonnegative(),
+    background_check: z.boolean().nullable(),
+    skills: z.array(z.string()),
+    group_friendly: z.boolean(),
+    max_group_size: z.number().int().positive().nullable(),
+  }),
+  signup_url: z.string().url().nullable(),
+  contact: ContactSchema,
+  source_url: z.string().url(),
+  translations: translations({
+    title: z.string(),
+    description: z.string(),
+    schedule_details: z.string(),
+  }),
+});
+
+export const VolunteerContactSchema = ContactSchema.extend({
+  web_form_url: z.string().url(),
+});
+
+const VolunteerSchema = z.object({
+  opportunities: z.array(OpportunitySchema),
+  general_info: z.object({
+    main_contact: VolunteerContactSchema,
+    policies: z.array(z.string()),
+    source_url: z.string().url(),
+    translations: translations({ policies: z.array(z.string()) }),
+  }),
+});
+
+// Donations
+export const OnlineDonationSchema = z.object({
+  donation_page_url: z.string().url(),
+  types: z.array(z.string()),
+  contact: ContactSchema,
+  notes: z.string(),
+  source_url: z.string().url(),
+  translations: translations({ types: z.array(z.string()), notes: z.string() }),
+});
+
+export const InKindCategorySchema = z.object({
+  category: z.string().min(1),
+  details: z.string(),
+  restrictions: z.string().nullable().optional(),
+  translations: translations({ category: z.string(), details: z.string(), restrictions: z.string() }),
+});
+
+export const DropOffLocationSchema = z.object({
+  name: z.string(),
+  address: z.string(),
+  opening_hours: OpeningHoursSchema,
+  phone: z.string(),
+  email: z.string().email(),
+});
+
+export const InKindDonationSchema = z.object({
+  accepted_items: z.array(InKindCategorySchema),
+  not_accepted: z.array(z.string()),
+  drop_off_locations: z.array(DropOffLocationSchema),
+  policies: z.array(z.string()),
+  wishlist_url: z.string().url(),
+  contact: ContactSchema,
+  source_url: z.string().url(),
+  translations: translations({ not_accepted: z.array(z.string()), policies: z.array(z.string()) }),
+});
+
+export const VehicleDonationSchema = z.object({
+  phone: z.string(),
+  process_description: z.string(),
+  program_url: z.string().url(),
+  source_url: z.string().url(),
+  translations: translations({ process_description: z.string() }),
+});
+
+const DonationsSchema = z.object({
+  online: OnlineDonationSchema,
+  in_kind: InKindDonationSchema,
+  vehicle: VehicleDonationSchema,
+  other_methods: z.array(
+    z.object({
+      type: z.string(),
+      description: z.string(),
+      url: z.string().url(),
+    })
+  ),
+});
+
+// Organization
+export const ServiceSchema = z.object({
+  name: z.string().min(1),
+  description: z.string(),
+  keywords: z.array(z.string()),
+  translations: translations({ name: z.string(), description: z.string() }),
+});
+
+export const LocationSchema = z.object({
+  name: z.string().min(1),
+  address: z.string(),
+  phone: z.string().nullable(),
+  opening_hours: OpeningHoursSchema,
+  type: z.enum(["administrative", "service-center"]),
+  coordinates: CoordinatesSchema,
+});
+
+export const EventSchema = z.object({
+  name: z.string().min(1),
+  date: IsoDateSchema,
+  description: z.string(),
+  url: z.string().url(),
+  translations: translations({ name: z.string(), description: z.string() }),
+});
+
+// Events recur under the same name, so they're identified by date and name
+export const eventKey = (event: { date?: unknown; name?: unknown }) => `${event.date} ${event.name}`;
+
+export const StatsSchema = z.object({
+  people_served_annually: z.number().int().nonnegative(),
+  meals_served_annually: z.number().int().nonnegative(),
+  nights_of_housing_provided_annually: z.number().int().nonnegative(),
+  volunteers_annually: z.number().int().nonnegative(),
+  volunteer_hours_annually: z.number().int().nonnegative(),
+  years_operating: z.number().int().nonnegative(),
+});
+
+const OrganizationSchema = z.object({
+  mission: z.string(),
+  services: z.array(ServiceSchema),
+  service_area: z.string(),
+  locations: z.array(LocationSchema),
+  contact: z.object({
+    main_phone: z.string(),
+    main_email: z.string().email(),
+    hours: z.string(),
+  }),
+  about: z.object({
+    founded: z.string(),
+    history: z.string(),
+    stats: StatsSchema,
+  }),
+  upcoming_events: z.array(EventSchema),
+  discovery_keywords: z.array(z.string()),
+  source_url: z.string().url(),
+  translations: translations({
+    mission: z.string(),
+    service_area: z.string(),
+    history: z.string(),
+    contact_hours: z.string(),
+  }),
+});
+
+// Crisis and urgent-need resources
+export const UrgentNeedSchema = z.enum(["safety", "shelter", "food"]);
+
+export const CrisisLineSchema = z.object({
+  name: z.string().min(1),
+  phone: z.string().nullable(),
+  // Number or short code that takes text messages, if any
+  text: z.string().nullable().default(null),
+  url: z.string().url().nullable().default(null),
+  available: z.string(),
+  description: z.string(),
+  needs: z.array(UrgentNeedSchema).min(1),
+  translations: translations({ available: z.string(), description: z.string() }),
+});
+
+const NeedResourcesSchema = z.object({
+  // Names from organization.locations and organization.services, most relevant first
+  locations: z.array(z.string()),
+  services: z.array(z.string()),
+  guidance: z.string(),
+  translations: translations({ guidance: z.string() }),
+});
+
+const CrisisSchema = z.object({
+  notice: z.string(),
+  lines: z.array(CrisisLineSchema),
+  needs: z.object({
+    safety: NeedResourcesSchema,
+    shelter: NeedResourcesSchema,
+    food: NeedResourcesSchema,
+  }),
+  translations: translations({ notice: z.string() }),
+});
+
+export const CCDataSchema = z
+  .object({
+    volunteer: VolunteerSchema,
+    donations: DonationsSchema,
+    organization: OrganizationSchema,
+    crisis: CrisisSchema,
+  })
+  .superRefine((data, ctx) => {
+    // Records are addressed and stored by these keys (resources, the admin
+    // API, directory files, SQLite rows), so each must be unique
+    const unique = <T>(records: T[], key: (record: T) => string, path: string[], label: string) => {
+      const seen = new Set<string>();
+      records.forEach((record, i) => {
+        const value = key(record);
+        if (seen.has(value)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, i], message: `Duplicate ${label} "${value}"` });
+        }
+        seen.add(value);
+      });
+    };
+    unique(data.volunteer.opportunities, (opp) => opp.id, ["volunteer", "opportunities"], "opportunity id");
+    unique(data.organization.services, (svc) => svc.name, ["organization", "services"], "service name");
+    unique(data.organization.locations, (loc) => loc.name, ["organization", "locations"], "location name");
+    unique(data.organization.upcoming_events, eventKey, ["organization", "upcoming_events"], "event");
+
+    // Crisis resources point at locations and services by name
+    const locations = new Set(data.organization.locations.map((loc) => loc.name));
+    const services = new Set(data.organization.services.map((svc) => svc.name));
+    for (const need of UrgentNeedSchema.options) {
+      const resources = data.crisis.needs[need];
+      resources.locations.forEach((name, i) => {
+        if (!locations.has(name)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["crisis", "needs", need, "locations", i], message: `Unknown location "${name}"` });
+        }
+      });
+      resources.services.forEach((name, i) => {
+        if (!services.has(name)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["crisis", "needs", need, "services", i], message: `Unknown service "${name}"` });
+        }
+      });
+    }
+  });
+
+export type CCData = z.infer<typeof CCDataSchema>;
+export type Language = z.infer<typeof LanguageSchema>;
+export type Coordinates = z.infer<typeof CoordinatesSchema>;
+export type Weekday = z.infer<typeof WeekdaySchema>;
+export type Schedule = z.infer<typeof ScheduleSchema>;
+export type OpeningHours = z.infer<typeof OpeningHoursSchema>;
+export type Opportunity = z.infer<typeof OpportunitySchema>;
+export type VolunteerContact = z.infer<typeof VolunteerContactSchema>;
+export type OnlineDonation = z.infer<typeof OnlineDonationSchema>;
+export type InKindCategory = z.infer<typeof InKindCategorySchema>;
+export type DropOffLocation = z.infer<typeof DropOffLocationSchema>;
+export type InKindDonation = z.infer<typeof InKindDonationSchema>;
+export type VehicleDonation = z.infer<typeof VehicleDonationSchema>;
+export type Service = z.infer<typeof ServiceSchema>;
+export type Location = z.infer<typeof LocationSchema>;
+export type OrgEvent = z.infer<typeof EventSchema>;
+export type Stats = z.infer<typeof StatsSchema>;
+export type UrgentNeed = z.infer<typeof UrgentNeedSchema>;
+export type CrisisLine = z.infer<typeof CrisisLineSchema>;
+
+// A concrete upcoming occurrence of a weekly slot or dated shift
+export type UpcomingShift = {
+  date: string;
+  weekday: Weekday;
+  start: string;
+  end: string;
+  label?: string;
+};
+
+// Whether a site is open at a given moment, in the site's local time
+export type OpenStatus = {
+  open_now: boolean;
+  always_open: boolean;
+  // HH:MM the current opening interval ends; null when closed or always open
+  closes_at: string | null;
+  // Next opening within two weeks; null when open now or none is scheduled
+  next_opening: { date: string; weekday: Weekday; time: string } | null;
+  // Holiday closure in effect today
+  closure: string | null;
+  // "Open now until 4:00pm", "Closed today (Thanksgiving). Opens Mon, Nov 30 at 9:00am"
+  summary: string;
+};
+
+export type DropOffLocationResult = DropOffLocation & { status: OpenStatus };
+
+// An opportunity as returned by get_volunteer_opportunities; distance_miles
+// is set for "near me" searches (null when the opportunity has no fixed site)
+export type OpportunityResult = Opportunity & {
+  distance_miles?: number | null;
+  upcoming_shifts?: UpcomingShift[];
+  // .ics download of the upcoming shifts; null when there are no fixed shifts
+  calendar_url?: string | null;
+};
+
+// Structured output of get_volunteer_opportunities, rendered by the volunteer widget
+export type VolunteerOpportunitiesOutput = {
+  opportunities: OpportunityResult[];
+  contact: VolunteerContact;
+  // Matches across all pages; `opportunities` holds only the current page
+  total_count: number;
+  // Pass back as `cursor` (with the same `filters`) to fetch the next page
+  next_cursor: string | null;
+  filters: Record<string, string | number | boolean>;
+  origin: Coordinates | null;
+  language: Language;
+};
+
+// Giving links shown by the donation widget whatever type was requested
+export type DonationLinks = {
+  online_donation_url: string;
+  vehicle_donation_url: string;
+  vehicle_phone: string;
+  wishlist_url: string;
+};
+
+// Structured output of get_donation_options, rendered by the donation widget
+export type DonationOptionsOutput = (
+  | { type: "online"; online: OnlineDonation }
+  | { type: "in_kind"; in_kind: Omit<InKindDonation, "drop_off_locations"> & { drop_off_locations: DropOffLocationResult[] } }
+  | { type: "vehicle"; vehicle: VehicleDonation }
+) & { links: DonationLinks; language: Language };
+
+// Structured output of submit_volunteer_inquiry, shown by the volunteer widget's interest form
+export type VolunteerInquiryOutput = {
+  confirmation_id: string;
+  opportunity_id: string;
+  opportunity_title: string;
+  status: "pending";
+  submitted_at: string;
+  contact: VolunteerContact;
+};
+
+/**
+ * Thrown when CC.json does not match the schema. `issues` lists every
+ * invalid field as "json.path: message" so editors can fix them in one pass.
+ */
+export class DataValidationError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid CC.json (${issues.length} issue${issues.length === 1 ? "" : "s"}):\n  ${issues.join("\n  ")}`);
+    this.name = "DataValidationError";
+  }
+}
+
+export const formatPath = (path: (string | number)[]) =>
+  path.reduce<string>(
+    (acc, key) => (typeof key === "number" ? `${acc}[${key}]` : acc ? `${acc}.${key}` : key),
+    ""
+  ) || "(root)";
+
+/**
+ * Validate raw CC.json content and return it typed.
+ */
+export function parseCCData(raw: unknown): CCData {
+  const result = CCDataSchema.safeParse(raw);
+  if (!result.success) {
+    throw new DataValidationError(
+      result.error.issues.map((issue) => `${formatPath(issue.path)}: ${issue.message}`)
+    );
+  }
+  return result.data;
+}
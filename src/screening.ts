@@ -0,0 +1,200 @@
+import { messages, type Messages } from "./i18n.js";
+import type { Language, Opportunity, UpcomingShift } from "./schema.js";
+import { hasStructuredSlots, matchingShifts, parseAvailableOn } from "./schedule.js";
+import { tokenize } from "./search.js";
+
+/**
+ * Volunteer eligibility screening. Each opportunity is checked against a
+ * volunteer (or group) profile and the rules in `general_info.policies`, and
+ * every rule that excludes it or attaches a condition is reported.
+ */
+
+export type ScreeningStatus = "eligible" | "eligible_with_conditions" | "ineligible";
+
+export type AppliedRule = {
+  rule: "age" | "minor_supervision" | "group_friendly" | "group_size" | "skills" | "background_check" | "availability";
+  effect: "condition" | "exclusion";
+  message: string;
+  // The general_info policy the rule comes from, if any
+  policy: string | null;
+};
+
+export type ScreeningResult = {
+  opportunity_id: string;
+  title: string;
+  status: ScreeningStatus;
+  rules: AppliedRule[];
+  // Shifts matching the requested availability, when one was given
+  matching_shifts?: UpcomingShift[];
+};
+
+export interface VolunteerProfile {
+  // For a group, the age of the youngest member
+  age?: number;
+  group_size?: number;
+  minors_present?: boolean;
+  skills?: string[];
+  available_on?: string;
+  available_from?: string;
+  available_until?: string;
+}
+
+export interface VolunteerPolicies {
+  independent_age: number;
+  // Youngest age allowed at all, with supervision
+  supervised_min_age: number;
+  // Group size an opportunity takes when it doesn't set max_group_size
+  standard_group_max: number;
+  large_group_min: number;
+  // Source sentences, cited in screening results
+  text: {
+    independent: string | null;
+    supervised: string | null;
+    standard_group: string | null;
+    large_group: string | null;
+  };
+}
+
+/**
+ * Read the age and group-size limits out of the policy sentences, falling
+ * back to the long-standing values when a sentence is missing or reworded.
+ * The limits come from the English `policies`; results cite the sentence at
+ * the same position in `cited`, the policies in the reader's language.
+ */
+export function parseVolunteerPolicies(policies: string[], cited: string[] = policies): VolunteerPolicies {
+  const find = (pattern: RegExp) => {
+    for (const [i, policy] of policies.entries()) {
+      const match = policy.match(pattern);
+      if (match) return { policy: cited[i] ?? policy, match };
+    }
+    return null;
+  };
+
+  const independent = find(/(\d+)\s+years?\s+or\s+older\s+to\s+volunteer\s+independently/i);
+  const supervised = find(/aged\s+(\d+)\s*[-–]\s*\d+.*supervision/i);
+  const largeGroup = find(/large\s+groups\s+of\s+(\d+)\s*[-–]/i);
+  const standardGroup = find(/^(?!.*\blarge\b).*groups\s+of\s+\d+\s*[-–]\s*(\d+)/i);
+
+  return {
+    independent_age: independent ? Number(independent.match[1]) : 18,
+    supervised_min_age: supervised ? Number(supervised.match[1]) : 14,
+    standard_group_max: standardGroup ? Number(standardGroup.match[1]) : 15,
+    large_group_min: largeGroup ? Number(largeGroup.match[1]) : 20,
+    text: {
+      independent: independent?.policy ?? null,
+      supervised: supervised?.policy ?? null,
+      standard_group: standardGroup?.policy ?? null,
+      large_group: largeGroup?.policy ?? null,
+    },
+  };
+}
+
+// No opportunity takes volunteers younger than the supervised minimum, even
+// if its own age_minimum is lower
+function ageRules(opp: Opportunity, profile: VolunteerProfile, policies: VolunteerPolicies, m: Messages): AppliedRule[] {
+  const minimum = Math.max(opp.requirements.age_minimum, policies.supervised_min_age);
+  const youngest = profile.age;
+  const hasMinors = youngest !== undefined ? youngest < policies.independent_age : profile.minors_present ?? false;
+  const minimumPolicy = minimum >= policies.independent_age ? policies.text.independent : policies.text.supervised;
+
+  if (youngest !== undefined && youngest < minimum) {
+    const message = (profile.group_size ?? 1) > 1
+      ? m.ruleGroupTooYoung(minimum, youngest)
+      : m.ruleTooYoung(minimum, youngest);
+    return [{ rule: "age", effect: "exclusion", message, policy: minimumPolicy }];
+  }
+  if (hasMinors && youngest === undefined && minimum >= policies.independent_age) {
+    return [{ rule: "age", effect: "exclusion", message: m.ruleAdultsOnly(minimum), policy: minimumPolicy }];
+  }
+  if (hasMinors) {
+    return [{
+      rule: "minor_supervision",
+      effect: "condition",
+      message: youngest === undefined
+        ? m.ruleSupervisionMinimum(policies.independent_age, minimum)
+        : m.ruleSupervision(policies.independent_age),
+      policy: policies.text.supervised,
+    }];
+  }
+  return [];
+}
+
+function groupRules(opp: Opportunity, profile: VolunteerProfile, policies: VolunteerPolicies, m: Messages): AppliedRule[] {
+  const size = profile.group_size ?? 1;
+  if (size <= 1) return [];
+  if (!opp.requirements.group_friendly) {
+    return [{ rule: "group_friendly", effect: "exclusion", message: m.ruleIndividualsOnly, policy: null }];
+  }
+  const max = opp.requirements.max_group_size ?? policies.standard_group_max;
+  if (size > max) {
+    return [{
+      rule: "group_size",
+      effect: "condition",
+      message: m.ruleLargeGroup(max),
+      policy: policies.text.large_group,
+    }];
+  }
+  return [];
+}
+
+function skillRules(opp: Opportunity, profile: VolunteerProfile, m: Messages): AppliedRule[] {
+  const required = opp.requirements.skills;
+  if (required.length === 0) return [];
+  if (!profile.skills) {
+    return [{ rule: "skills", effect: "condition", message: m.ruleSkills(required), policy: null }];
+  }
+  const offered = new Set(profile.skills.flatMap(tokenize));
+  return required.some((skill) => tokenize(skill).some((t) => offered.has(t)))
+    ? []
+    : [{ rule: "skills", effect: "exclusion", message: m.ruleSkills(required), policy: null }];
+}
+
+/**
+ * Screen every opportunity against the profile. Availability is only
+ * checked when a day or time window is given. Rule messages are in `language`.
+ */
+export function screenOpportunities(
+  opportunities: Opportunity[],
+  profile: VolunteerProfile,
+  policies: VolunteerPolicies,
+  now: Date,
+  language: Language = "en"
+): ScreeningResult[] {
+  const m = messages(language);
+  const day = profile.available_on ? parseAvailableOn(profile.available_on) : null;
+  const window = { from: profile.available_from, until: profile.available_until };
+  const checkAvailability = Boolean(profile.available_on || window.from || window.until);
+
+  return opportunities.map((opp) => {
+    const rules = [...ageRules(opp, profile, policies, m), ...groupRules(opp, profile, policies, m), ...skillRules(opp, profile, m)];
+    if (opp.requirements.background_check) {
+      rules.push({ rule: "background_check", effect: "condition", message: m.ruleBackgroundCheck, policy: null });
+    }
+
+    let matching: UpcomingShift[] | undefined;
+    if (checkAvailability) {
+      if (hasStructuredSlots(opp.schedule)) {
+        matching = matchingShifts(opp.schedule, day, window, now);
+        if (matching.length === 0) {
+          rules.push({ rule: "availability", effect: "exclusion", message: m.ruleNoShifts(opp.schedule.details), policy: null });
+        }
+      } else {
+        rules.push({ rule: "availability", effect: "condition", message: m.ruleArrangedTimes(opp.schedule.details), policy: null });
+      }
+    }
+
+    const status: ScreeningStatus = rules.some((r) => r.effect === "exclusion")
+      ? "ineligible"
+      : rules.length > 0
+        ? "eligible_with_conditions"
+        : "eligible";
+
+    return {
+      opportunity_id: opp.id,
+      title: opp.title,
+      status,
+      rules,
+      ...(matching && matching.length > 0 ? { matching_shifts: matching } : {}),
+    };
+  });
+}
@@ -0,0 +1,470 @@
+import { LanguageSchema, type CCData, type Language } from "./schema.js";
+import { formatOpeningHours } from "./hours.js";
+import { messages } from "./i18n.js";
+import { localizeData } from "./localize.js";
+
+/**
+ * Ranked full-text search over organization content.
+ *
+ * Documents are built once per CCData snapshot (mission, services, locations,
+ * events, stats, contact info) and scored with BM25F: each field has its own
+ * length normalization and weight, and query terms are stemmed and expanded
+ * with synonyms before scoring.
+ */
+
+const STOPWORDS = new Set([
+  "a", "about", "after", "all", "am", "an", "and", "any", "are", "as", "at", "be", "before", "by",
+  "can", "could", "do", "does", "for", "from", "get", "give", "go", "have", "i", "im", "in", "is",
+  "it", "its", "like", "looking", "me", "my", "need", "of", "on", "or", "our", "please", "some",
+  "tell", "that", "the", "their", "them", "there", "this", "to", "us", "want", "was", "we", "what",
+  "which", "who", "will", "with", "would", "you", "your",
+]);
+
+// Each group is expanded symmetrically: a query term from a group also
+// matches the other members of that group at reduced weight.
+const SYNONYM_GROUPS: string[][] = [
+  ["bed", "sleep", "shelter", "overnight", "homeless"],
+  ["tonight", "overnight", "emergency", "urgent", "now"],
+  ["food", "meal", "hungry", "eat", "breakfast", "lunch", "dinner"],
+  ["house", "housing", "apartment", "rent", "home"],
+  ["job", "employment", "work", "career", "training"],
+  ["kid", "child", "children", "family", "parent", "youth", "teen"],
+  ["senior", "elder", "elderly", "aging", "older"],
+  ["disability", "disabled", "independent"],
+  ["medical", "health", "hospital", "doctor", "recuperative", "respite", "clinic"],
+  ["mental", "counseling", "behavioral"],
+  ["veteran", "vet", "military"],
+  ["contact", "phone", "call", "email", "reach"],
+  ["location", "address", "where", "directions", "located"],
+  ["event", "calendar", "fundraiser", "gala"],
+  ["mission", "purpose", "about", "history", "founded"],
+  ["stat", "statistic", "impact", "many", "number", "served"],
+  ["shower", "laundry", "locker", "hygiene"],
+  ["serve", "server", "serving", "assist"],
+  ["warehouse", "sort", "distribution"],
+  ["bake", "baking", "dessert", "treat"],
+  ["sew", "sewing", "sewist", "mend", "clothing"],
+  ["group", "team", "corporate", "company"],
+];
+
+const SYNONYM_WEIGHT = 0.5;
+const FUZZY_WEIGHT = 0.7;
+
+// Fields not listed here have weight 1
+const FIELD_WEIGHTS: Record<string, number> = {
+  name: 3,
+  keywords: 2,
+  tags: 1.5,
+};
+
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Light suffix-stripping stemmer; conservative so short words survive intact.
+ * A trailing "e" is dropped last so "serve", "serves" and "serving" agree.
+ */
+export function stem(word: string): string {
+  if (word.length <= 3) return word;
+  return dropFinalE(stripSuffix(word));
+}
+
+function stripSuffix(word: string): string {
+  if (word.endsWith("ies") && word.length > 4) return word.slice(0, -3) + "y";
+  if (word.endsWith("sses")) return word.slice(0, -2);
+  if (word.endsWith("ing") && word.length > 5) return undouble(word.slice(0, -3));
+  if (word.endsWith("ed") && word.length > 4) return undouble(word.slice(0, -2));
+  if (word.endsWith("ly") && word.length > 5) return word.slice(0, -2);
+  if (word.endsWith("s") && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+const dropFinalE = (word: string) => (word.length > 4 && word.endsWith("e") ? word.slice(0, -1) : word);
+
+const undouble = (word: string) =>
+  /([b-df-hj-np-tv-z])\1$/.test(word) && !/(ll|ss|zz)$/.test(word) ? word.slice(0, -1) : word;
+
+/**
+ * Lowercase, strip accents, split on non-alphanumerics, drop stopwords
+ * and stem.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    // "niños" -> "ninos", rather than splitting at the "ñ"
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/['’]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length > 0 && !STOPWORDS.has(t))
+    .map(stem);
+}
+
+const synonymIndex = new Map<string, Set<string>>();
+for (const group of SYNONYM_GROUPS) {
+  const stems = group.map(stem);
+  for (const s of stems) {
+    const related = synonymIndex.get(s) ?? new Set<string>();
+    stems.forEach((other) => other !== s && related.add(other));
+    synonymIndex.set(s, related);
+  }
+}
+
+/**
+ * Tokenize a query and expand it with synonyms. Original terms keep
+ * weight 1; synonyms get SYNONYM_WEIGHT unless they also appear verbatim.
+ */
+export function expandQuery(query: string): Map<string, number> {
+  const terms = new Map<string, number>();
+  const original = tokenize(query);
+  original.forEach((t) => terms.set(t, 1));
+  for (const t of original) {
+    for (const syn of synonymIndex.get(t) ?? []) {
+      if (!terms.has(syn)) terms.set(syn, SYNONYM_WEIGHT);
+    }
+  }
+  return terms;
+}
+
+export interface SearchDocument {
+  id: string;
+  type: "mission" | "service" | "services_overview" | "location" | "event" | "stats" | "contact" | "opportunity";
+  heading: string;
+  summary: string;
+  source_url: string;
+  // YYYY-MM-DD, for dated documents such as events
+  date?: string;
+  fields: Record<string, string>;
+}
+
+export interface SearchResult {
+  id: string;
+  type: SearchDocument["type"];
+  heading: string;
+  summary: string;
+  source_url: string;
+  date?: string;
+  score: number;
+  matched_fields: string[];
+}
+
+interface IndexedDocument {
+  doc: SearchDocument;
+  // field -> term -> frequency
+  termFreqs: Record<string, Map<string, number>>;
+  fieldLengths: Record<string, number>;
+}
+
+export class SearchIndex {
+  private docs: IndexedDocument[];
+  private docFreq = new Map<string, number>();
+  private avgFieldLength: Record<string, number> = {};
+
+  constructor(documents: SearchDocument[]) {
+    const totals: Record<string, { sum: number; count: number }> = {};
+
+    this.docs = documents.map((doc) => {
+      const termFreqs: Record<string, Map<string, number>> = {};
+      const fieldLengths: Record<string, number> = {};
+      const seen = new Set<string>();
+
+      for (const [field, text] of Object.entries(doc.fields)) {
+        const tokens = tokenize(text);
+        const freqs = new Map<string, number>();
+        tokens.forEach((t) => {
+          freqs.set(t, (freqs.get(t) ?? 0) + 1);
+          seen.add(t);
+        });
+        termFreqs[field] = freqs;
+        fieldLengths[field] = tokens.length;
+        totals[field] = totals[field] ?? { sum: 0, count: 0 };
+        totals[field].sum += tokens.length;
+        totals[field].count += 1;
+      }
+
+      seen.forEach((t) => this.docFreq.set(t, (this.docFreq.get(t) ?? 0) + 1));
+      return { doc, termFreqs, fieldLengths };
+    });
+
+    for (const [field, { sum, count }] of Object.entries(totals)) {
+      this.avgFieldLength[field] = count > 0 ? sum / count : 0;
+    }
+  }
+
+  get size(): number {
+    return this.docs.length;
+  }
+
+  search(query: string, limit = 5): SearchResult[] {
+    const terms = this.addFuzzyMatches(expandQuery(query));
+    if (terms.size === 0) return [];
+
+    const n = this.docs.length;
+    const results: SearchResult[] = [];
+
+    for (const { doc, termFreqs, fieldLengths } of this.docs) {
+      let score = 0;
+      const matched = new Set<string>();
+
+      for (const [term, queryWeight] of terms) {
+        const df = this.docFreq.get(term) ?? 0;
+        if (df === 0) continue;
+
+        let weightedTf = 0;
+        for (const [field, freqs] of Object.entries(termFreqs)) {
+          const tf = freqs.get(term) ?? 0;
+          if (tf === 0) continue;
+          matched.add(field);
+          const avg = this.avgFieldLength[field] || 1;
+          const norm = 1 - B + B * (fieldLengths[field] / avg);
+          weightedTf += ((FIELD_WEIGHTS[field] ?? 1) * tf) / norm;
+        }
+        if (weightedTf === 0) continue;
+
+        const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+        score += queryWeight * idf * ((weightedTf * (K1 + 1)) / (weightedTf + K1));
+      }
+
+      if (score > 0) {
+        results.push({
+          id: doc.id,
+          type: doc.type,
+          heading: doc.heading,
+          summary: doc.summary,
+          source_url: doc.source_url,
+          ...(doc.date ? { date: doc.date } : {}),
+          score: Math.round(score * 1000) / 1000,
+          matched_fields: [...matched].sort(),
+        });
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /**
+   * Typo tolerance: a query term missing from the vocabulary also matches
+   * indexed terms within a small edit distance, or that it is a prefix of.
+   */
+  private addFuzzyMatches(terms: Map<string, number>): Map<string, number> {
+    const expanded = new Map(terms);
+    for (const [term, weight] of terms) {
+      if (term.length < 4 || this.docFreq.has(term)) continue;
+      const maxDistance = term.length >= 8 ? 2 : 1;
+      for (const candidate of this.docFreq.keys()) {
+        if (expanded.has(candidate)) continue;
+        if (candidate.startsWith(term) || editDistance(term, candidate, maxDistance) <= maxDistance) {
+          expanded.set(candidate, weight * FUZZY_WEIGHT);
+        }
+      }
+    }
+    return expanded;
+  }
+}
+
+/**
+ * Levenshtein distance, giving up early once it exceeds `max`.
+ */
+export function editDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      rowMin = Math.min(rowMin, curr[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Turn organization content into searchable documents, with headings and
+ * summaries in `language` (pass data already localized to that language).
+ */
+export function buildSearchDocuments(ccData: CCData, language: Language = "en"): SearchDocument[] {
+  const m = messages(language);
+  const org = ccData.organization;
+  const sourceUrl = org.source_url;
+  const stats = org.about.stats;
+  const docs: SearchDocument[] = [];
+
+  docs.push({
+    id: "mission",
+    type: "mission",
+    heading: m.missionHeading,
+    summary: `${org.mission}\n\n${org.about.history} ${m.founded(org.about.founded, stats.years_operating)}`,
+    source_url: sourceUrl,
+    fields: {
+      mission: org.mission,
+      history: org.about.history,
+      tags: "mission purpose about history founded who we are what we do",
+    },
+  });
+
+  for (const svc of org.services) {
+    docs.push({
+      id: `service:${svc.name}`,
+      type: "service",
+      heading: svc.name,
+      summary: svc.description,
+      source_url: sourceUrl,
+      fields: {
+        name: svc.name,
+        description: svc.description,
+        keywords: svc.keywords.join(" "),
+      },
+    });
+  }
+
+  docs.push({
+    id: "services_overview",
+    type: "services_overview",
+    heading: m.servicesOverviewHeading,
+    summary:
+      `${m.servicesOverviewIntro}\n\n` +
+      org.services.map((svc) => `• **${svc.name}**: ${svc.description}`).join("\n\n"),
+    source_url: sourceUrl,
+    fields: {
+      discovery_keywords: org.discovery_keywords.join(" "),
+      tags: "services programs overview help support",
+    },
+  });
+
+  for (const loc of org.locations) {
+    docs.push({
+      id: `location:${loc.name}`,
+      type: "location",
+      heading: loc.name,
+      summary: `${loc.address}${loc.phone ? `\n${m.phone}: ${loc.phone}` : ""}\n${m.hours}: ${formatOpeningHours(loc.opening_hours, language)}`,
+      source_url: sourceUrl,
+      fields: {
+        name: loc.name,
+        address: loc.address,
+        tags: `location address hours open ${loc.type.replace("-", " ")}${loc.opening_hours.always_open ? " 24 hours overnight" : ""}`,
+      },
+    });
+  }
+
+  for (const evt of org.upcoming_events) {
+    docs.push({
+      id: `event:${evt.date}:${evt.name}`,
+      type: "event",
+      heading: `${evt.name} - ${evt.date}`,
+      summary: `${evt.description}\n${evt.url}`,
+      source_url: evt.url,
+      date: evt.date,
+      fields: {
+        name: evt.name,
+        description: evt.description,
+        tags: "event calendar upcoming",
+      },
+    });
+  }
+
+  docs.push({
+    id: "stats",
+    type: "stats",
+    heading: m.statsHeading,
+    summary:
+      `${m.statsIntro}\n\n` +
+      `• ${m.peopleServed(stats.people_served_annually.toLocaleString())}\n` +
+      `• ${m.mealsServed(stats.meals_served_annually.toLocaleString())}\n` +
+      `• ${m.nightsOfHousing(stats.nights_of_housing_provided_annually.toLocaleString())}\n` +
+      `• ${m.volunteersAnnually(stats.volunteers_annually.toLocaleString())}\n` +
+      `• ${m.volunteerHours(stats.volunteer_hours_annually.toLocaleString())}\n` +
+      `• ${m.yearsServing(stats.years_operating)}`,
+    source_url: sourceUrl,
+    fields: {
+      tags: "impact statistics stats numbers how many people served meals nights volunteers hours years annually",
+    },
+  });
+
+  docs.push({
+    id: "contact",
+    type: "contact",
+    heading: m.contactHeading,
+    summary:
+      `**${m.mainOffice}:**\n` +
+      `${m.phone}: ${org.contact.main_phone}\n` +
+      `${m.email}: ${org.contact.main_email}\n` +
+      `${m.hours}: ${org.contact.hours}\n\n` +
+      `**${m.volunteerInquiries}:** ${ccData.volunteer.general_info.main_contact.email} | ${ccData.volunteer.general_info.main_contact.phone}\n` +
+      `**${m.donationInquiries}:** ${ccData.donations.online.contact.email} | ${ccData.donations.online.contact.phone}`,
+    source_url: sourceUrl,
+    fields: {
+      tags: "contact phone email call hours office reach main",
+    },
+  });
+
+  return docs;
+}
+
+/**
+ * Volunteer opportunities as searchable documents; `id` is the opportunity id.
+ */
+export function buildOpportunityDocuments(ccData: CCData): SearchDocument[] {
+  return ccData.volunteer.opportunities.map((opp) => ({
+    id: opp.id,
+    type: "opportunity",
+    heading: opp.title,
+    summary: opp.description,
+    source_url: opp.source_url,
+    fields: {
+      name: opp.title,
+      description: opp.description,
+      keywords: opp.requirements.skills.join(" "),
+      facility: `${opp.location.facility} ${opp.location.city}`,
+    },
+  }));
+}
+
+const indexCache = new WeakMap<CCData, Map<Language, SearchIndex>>();
+const opportunityIndexCache = new WeakMap<CCData, SearchIndex>();
+
+/**
+ * Search index for a data snapshot and response language, built on first
+ * use and reused until the data is reloaded.
+ */
+export function getSearchIndex(ccData: CCData, language: Language = "en"): SearchIndex {
+  let byLanguage = indexCache.get(ccData);
+  if (!byLanguage) {
+    byLanguage = new Map();
+    indexCache.set(ccData, byLanguage);
+  }
+  let index = byLanguage.get(language);
+  if (!index) {
+    index = new SearchIndex(buildSearchDocuments(ccData, language));
+    byLanguage.set(language, index);
+  }
+  return index;
+}
+
+/**
+ * Search index over volunteer opportunities for a data snapshot.
+ */
+export function getOpportunityIndex(ccData: CCData): SearchIndex {
+  let index = opportunityIndexCache.get(ccData);
+  if (!index) {
+    index = new SearchIndex(buildOpportunityDocuments(ccData));
+    opportunityIndexCache.set(ccData, index);
+  }
+  return index;
+}
+
+/**
+ * Build the indexes the tools search, over each language's localized
+ * snapshot, so the first query after a load doesn't wait for them.
+ * Returns the English organization index.
+ */
+export function warmSearchIndexes(ccData: CCData): SearchIndex {
+  for (const language of LanguageSchema.options) {
+    const localized = localizeData(ccData, language);
+    getSearchIndex(localized, language);
+    getOpportunityIndex(localized);
+  }
+  return getSearchIndex(localizeData(ccData));
+}
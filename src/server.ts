@@ -0,0 +1,1325 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import type {
+  Coordinates,
+  DonationLinks,
+  DonationOptionsOutput,
+  OpportunityResult,
+  VolunteerInquiryOutput,
+  VolunteerOpportunitiesOutput,
+} from "./schema.js";
+import { IsoDateSchema, LanguageSchema, UrgentNeedSchema } from "./schema.js";
+import type { DataStore } from "./dataStore.js";
+import type { InquiryStore } from "./inquiryStore.js";
+import { messages } from "./i18n.js";
+import { localizeData } from "./localize.js";
+import { checkDonationItem } from "./donationCheck.js";
+import { parseVolunteerPolicies, screenOpportunities, type ScreeningStatus } from "./screening.js";
+import { formatGroupOption, planGroupVolunteering } from "./groupPlanner.js";
+import { formatOpeningHours, openStatus } from "./hours.js";
+import { buildCalendar, calendarQuery, CalendarSelectionError } from "./ical.js";
+import { distanceMiles, GeoLookupError, resolveOrigin, roundMiles } from "./geo.js";
+import { systemClock, type Clock } from "./clock.js";
+import { formatEventDate, upcomingEvents } from "./events.js";
+import { detectUrgentNeeds, formatImmediateHelp, immediateHelp } from "./crisis.js";
+import {
+  corporateServiceDayPrompt,
+  donationDropOffPrompt,
+  familyHelpPrompt,
+  firstVolunteerShiftPrompt,
+} from "./prompts.js";
+import {
+  COLLECTIONS,
+  COLLECTION_NAMES,
+  completeItemKeys,
+  listItemResources,
+  readDataResource,
+  RESOURCE_SCHEME,
+} from "./resources.js";
+import {
+  formatShift,
+  hasStructuredSlots,
+  localNow,
+  matchingShifts,
+  parseAvailableOn,
+  TIME_OF_DAY_WINDOWS,
+  upcomingShifts,
+} from "./schedule.js";
+import {
+  DEFAULT_PAGE_SIZE,
+  InvalidCursorError,
+  MAX_PAGE_SIZE,
+  paginate,
+  queryFingerprint,
+} from "./pagination.js";
+import { getOpportunityIndex, getSearchIndex, type SearchResult } from "./search.js";
+
+/**
+ * The MCP server: tools, prompts, widget and data resources. Each session
+ * gets its own server from createServer; everything it reads or writes is
+ * passed in, so importing this module has no side effects and tests can
+ * build a server around fixture data and a fixed clock.
+ */
+
+// Sort opportunities; the input order is kept for "relevance" and for ties
+const sortOpportunities = (
+  opportunities: OpportunityResult[],
+  sortBy: "relevance" | "age_minimum" | "group_size" | "city" | "distance"
+): OpportunityResult[] => {
+  const sorted = [...opportunities];
+  switch (sortBy) {
+    case "distance":
+      // Opportunities without a fixed site sort last
+      return sorted.sort(
+        (a, b) => (a.distance_miles ?? Infinity) - (b.distance_miles ?? Infinity)
+      );
+    case "age_minimum":
+      return sorted.sort((a, b) => a.requirements.age_minimum - b.requirements.age_minimum);
+    case "group_size":
+      return sorted.sort(
+        (a, b) => (b.requirements.max_group_size ?? 0) - (a.requirements.max_group_size ?? 0)
+      );
+    case "city":
+      return sorted.sort((a, b) => a.location.city.localeCompare(b.location.city));
+    default:
+      return sorted;
+  }
+};
+
+// Tool schemas
+const LanguageParam = LanguageSchema.optional().describe("Response language: en (English, default), es (Spanish), hmn (Hmong) or so (Somali). Use the language the user is writing in");
+
+const GetVolunteerOpportunitiesSchema = z.object({
+  keyword: z.string().optional().describe("Search words matched against title, description, skills and facility (multi-word, typo-tolerant, e.g. 'meal serving weekend'); results are ordered by relevance"),
+  city: z.string().optional().describe("Filter by city: Minneapolis, Saint Paul, St. Paul, Maplewood, or Twin Cities"),
+  schedule_type: z.enum(["one-time", "weekly", "flexible", "ongoing"]).optional().describe("Type of schedule commitment"),
+  age_minimum: z.number().optional().describe("Volunteer's age: only include opportunities whose minimum age is at or below it (e.g., 14, 18). Use screen_volunteer_eligibility to see why others are excluded"),
+  group_friendly: z.boolean().optional().describe("Filter for group-friendly opportunities"),
+  skill: z.string().optional().describe("Required skill (e.g., 'sewing', 'baking', 'cooking')"),
+  available_on: z
+    .string()
+    .refine((value) => parseAvailableOn(value) !== null, "Use a YYYY-MM-DD date or a weekday name")
+    .optional()
+    .describe("Only include opportunities with shifts on this date (YYYY-MM-DD) or weekday (e.g., 'saturday'), Twin Cities time. Past dates match no shifts"),
+  time_of_day: z.enum(["morning", "afternoon", "evening"]).optional().describe("Only include shifts overlapping this part of the day (morning 6am-12pm, afternoon 12-5pm, evening 5-10pm)"),
+  available_from: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/).optional().describe("Start of the volunteer's availability window, 24-hour HH:MM (overrides time_of_day)"),
+  available_until: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/).optional().describe("End of the volunteer's availability window, 24-hour HH:MM (overrides time_of_day)"),
+  include_flexible: z.boolean().optional().describe("When filtering by availability, also include flexible or by-arrangement opportunities without fixed shifts (default true)"),
+  near_zip: z.string().regex(/^\d{5}$/).optional().describe("Five-digit Twin Cities ZIP code to measure distance from (e.g., '55408')"),
+  near_lat: z.number().min(-90).max(90).optional().describe("Latitude to measure distance from (use with near_lng)"),
+  near_lng: z.number().min(-180).max(180).optional().describe("Longitude to measure distance from (use with near_lat)"),
+  radius_miles: z.number().positive().optional().describe("Only include opportunities within this many miles of near_zip or near_lat/near_lng"),
+  sort_by: z.enum(["relevance", "age_minimum", "group_size", "city", "distance"]).optional().describe("Sort order: relevance (default; file order when no keyword), age_minimum (youngest allowed first), group_size (largest groups first), city (A-Z), or distance (closest first; default when a location is given without a keyword)"),
+  limit: z.number().int().min(1).max(MAX_PAGE_SIZE).optional().describe(`Maximum opportunities per page (default ${DEFAULT_PAGE_SIZE})`),
+  cursor: z.string().optional().describe("Opaque next_cursor from a previous call with the same filters, to fetch the next page"),
+  language: LanguageParam,
+});
+
+const GetDonationOptionsSchema = z.object({
+  type: z.enum(["online", "in_kind", "vehicle"]).describe("Type of donation: online, in_kind, or vehicle"),
+  language: LanguageParam,
+});
+
+const ScreenVolunteerEligibilitySchema = z.object({
+  age: z.number().int().min(0).max(120).optional().describe("Volunteer's age (for a group, the age of the youngest member)"),
+  group_size: z.number().int().min(1).optional().describe("Number of people volunteering together (default 1)"),
+  minors_present: z.boolean().optional().describe("Whether anyone in the group is under 18, when ages aren't known"),
+  skills: z.array(z.string()).optional().describe("Skills the volunteer has (e.g., ['sewing', 'cooking'])"),
+  available_on: z
+    .string()
+    .refine((value) => parseAvailableOn(value) !== null, "Use a YYYY-MM-DD date or a weekday name")
+    .optional()
+    .describe("Date (YYYY-MM-DD) or weekday (e.g., 'saturday') the volunteer is free"),
+  time_of_day: z.enum(["morning", "afternoon", "evening"]).optional().describe("Part of the day the volunteer is free"),
+  available_from: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/).optional().describe("Start of availability, 24-hour HH:MM (overrides time_of_day)"),
+  available_until: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/).optional().describe("End of availability, 24-hour HH:MM (overrides time_of_day)"),
+  language: LanguageParam,
+});
+
+const PlanGroupVolunteeringSchema = z.object({
+  group_size: z.number().int().min(2).describe("Number of people in the group"),
+  min_age: z.number().int().min(0).max(120).describe("Age of the youngest group member"),
+  preferred_dates: z
+    .array(
+      z.string().refine((value) => parseAvailableOn(value) !== null, "Use a YYYY-MM-DD date or a weekday name")
+    )
+    .optional()
+    .describe("Preferred dates (YYYY-MM-DD) or weekdays (e.g., 'saturday'), most preferred first"),
+  city: z.string().optional().describe("Preferred city: Minneapolis, St. Paul, or Maplewood"),
+  group_name: z.string().optional().describe("Company, school, parish or family name, used in the inquiry email"),
+  language: LanguageParam,
+});
+
+const SubmitVolunteerInquirySchema = z.object({
+  name: z.string().trim().min(1).max(200).describe("Volunteer's full name (or the group contact's name)"),
+  email: z.string().email().optional().describe("Email address (email or phone is required)"),
+  phone: z.string().regex(/^[0-9()+\-.\s]{7,20}$/, "Enter a valid phone number").optional().describe("Phone number (email or phone is required)"),
+  opportunity_id: z.string().min(1).describe("ID of the chosen volunteer opportunity, from get_volunteer_opportunities"),
+  group_size: z.number().int().min(1).max(500).optional().describe("Number of people, including the volunteer (default 1)"),
+  availability: z.string().trim().min(1).max(500).describe("When the volunteer is available (e.g., 'Saturday mornings', 'weekdays after 3pm')"),
+  notes: z.string().max(2000).optional().describe("Anything else the coordinator should know"),
+  language: LanguageParam,
+});
+
+const CheckDonationItemSchema = z.object({
+  item: z.string().min(1).describe("The item the donor wants to give, with any size or style (e.g., 'size 10 men's sneakers', 'queen sheet set', 'canned soup')"),
+  condition: z.enum(["new", "used", "expired"]).describe("Condition of the item: new, used, or expired"),
+  language: LanguageParam,
+});
+
+const SearchOrgInfoSchema = z.object({
+  query: z.string().describe("Search query about Catholic Charities Twin Cities (e.g., 'mission', 'services', 'contact', 'homeless shelter', 'food programs')"),
+  limit: z.number().int().min(1).max(20).optional().describe("Maximum number of ranked results to return (default 5)"),
+  language: LanguageParam,
+});
+
+const FindNearbyLocationsSchema = z.object({
+  near_zip: z.string().regex(/^\d{5}$/).optional().describe("Five-digit Twin Cities ZIP code (e.g., '55408')"),
+  near_lat: z.number().min(-90).max(90).optional().describe("Latitude (use with near_lng)"),
+  near_lng: z.number().min(-180).max(180).optional().describe("Longitude (use with near_lat)"),
+  radius_miles: z.number().positive().optional().describe("Only include locations within this many miles"),
+  type: z.enum(["administrative", "service-center"]).optional().describe("Filter by location type"),
+  open_now: z.boolean().optional().describe("Only include locations that are open right now"),
+  language: LanguageParam,
+});
+
+const GetImmediateHelpSchema = z.object({
+  need: UrgentNeedSchema.optional().describe("What the person needs right now: safety, shelter or food. Leave out to detect it from `situation`"),
+  situation: z.string().max(2000).optional().describe("The user's own words describing their situation (e.g., 'I have nowhere to sleep tonight')"),
+  near_zip: z.string().regex(/^\d{5}$/).optional().describe("Five-digit Twin Cities ZIP code, to list the closest sites first"),
+  near_lat: z.number().min(-90).max(90).optional().describe("Latitude (use with near_lng)"),
+  near_lng: z.number().min(-180).max(180).optional().describe("Longitude (use with near_lat)"),
+  language: LanguageParam,
+});
+
+export const ExportCalendarSchema = z.object({
+  opportunity_id: z.string().optional().describe("Export the upcoming shifts of one volunteer opportunity (its id from get_volunteer_opportunities)"),
+  event: z.string().optional().describe("Export a single organization event, by name (e.g., 'Spirit of the Season') or YYYY-MM-DD date"),
+  city: z.string().optional().describe("For a feed export (no opportunity_id or event): only include shifts in this city"),
+  include_shifts: z.boolean().optional().describe("For a feed export: include volunteer shifts (default true)"),
+  include_events: z.boolean().optional().describe("For a feed export: include upcoming organization events (default true)"),
+  days: z.number().int().min(1).max(90).optional().describe("How many days of upcoming shifts to include (default 30)"),
+  language: LanguageParam,
+});
+
+const GetUpcomingEventsSchema = z.object({
+  from: IsoDateSchema.optional().describe("Earliest event date to include, YYYY-MM-DD (default today; past events are never returned)"),
+  to: IsoDateSchema.optional().describe("Latest event date to include, YYYY-MM-DD"),
+  keyword: z.string().optional().describe("Only include events whose name or description mention these words (e.g., 'holiday', 'virtual', 'Mall of America')"),
+  language: LanguageParam,
+});
+
+// Prompt arguments are strings by protocol; numbers are parsed by the prompt builders
+const FirstVolunteerShiftPromptSchema = z.object({
+  city: z.string().optional().describe("City to volunteer in (e.g., 'Minneapolis', 'St. Paul')"),
+  age: z.string().optional().describe("Volunteer's age in years"),
+  availability: z.string().optional().describe("When the volunteer is free (e.g., 'Saturday mornings')"),
+});
+
+const DonationDropOffPromptSchema = z.object({
+  items: z.string().optional().describe("Items to donate, comma-separated (e.g., 'winter coats, socks, shampoo')"),
+});
+
+const FamilyHelpPromptSchema = z.object({
+  need: z.string().optional().describe("What the family member needs help with (e.g., 'senior care', 'housing', 'food')"),
+  age: z.string().optional().describe("Family member's age in years"),
+  city: z.string().optional().describe("Where they live"),
+});
+
+const CorporateServiceDayPromptSchema = z.object({
+  group_size: z.string().optional().describe("Number of participants"),
+  company: z.string().optional().describe("Company or team name"),
+  youngest_age: z.string().optional().describe("Age of the youngest participant (default: all adults)"),
+  preferred_dates: z.string().optional().describe("Preferred YYYY-MM-DD dates or weekdays, comma-separated"),
+  city: z.string().optional().describe("Preferred city"),
+});
+
+// Every tool the server registers, for settings that name tools
+export const TOOL_NAMES = [
+  "get_volunteer_opportunities",
+  "screen_volunteer_eligibility",
+  "plan_group_volunteering",
+  "submit_volunteer_inquiry",
+  "get_donation_options",
+  "check_donation_item",
+  "search_org_info",
+  "find_nearby_locations",
+  "get_immediate_help",
+  "get_upcoming_events",
+  "export_calendar",
+] as const;
+
+export interface ServerOptions {
+  dataStore: DataStore;
+  // Where submit_volunteer_inquiry saves submissions
+  inquiryStore: InquiryStore;
+  // Built widget HTML served as UI resources
+  widgets: { volunteer: string; donation: string };
+  // Public origin for download links, given the current request's headers
+  publicBaseUrl: (headers?: Record<string, string | string[] | undefined>) => string;
+  // Current time for date-dependent tools; injectable for tests
+  clock?: Clock;
+}
+
+// Create MCP server factory
+export const createServer = ({ dataStore, inquiryStore, widgets, publicBaseUrl, clock = systemClock }: ServerOptions) => {
+  const server = new McpServer(
+    {
+      name: "CCTwinCities",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        resources: { listChanged: true, subscribe: true },
+        tools: { listChanged: true },
+      },
+    }
+  );
+
+  // Register UI resources
+  server.resource(
+    "Volunteer Opportunities List Widget",
+    "ui://widget/volunteer-list.html",
+    async () => ({
+      contents: [
+        {
+          uri: "ui://widget/volunteer-list.html",
+          mimeType: "text/html",
+          text: widgets.volunteer,
+        },
+      ],
+    })
+  );
+
+  server.resource(
+    "Donation Options Widget",
+    "ui://widget/donation-options.html",
+    async () => ({
+      contents: [
+        {
+          uri: "ui://widget/donation-options.html",
+          mimeType: "text/html",
+          text: widgets.donation,
+        },
+      ],
+    })
+  );
+
+  // Register data resources: a list resource and a record template per collection
+  const readOrThrow = (uri: URL) => {
+    const contents = readDataResource(dataStore.current, uri.href);
+    if (!contents) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource ${uri.href} not found`);
+    }
+    return { contents };
+  };
+
+  for (const name of COLLECTION_NAMES) {
+    const collection = COLLECTIONS[name];
+    server.resource(
+      collection.title,
+      `${RESOURCE_SCHEME}${name}`,
+      { description: `${collection.description} (JSON and markdown)`, mimeType: "application/json" },
+      async (uri) => readOrThrow(uri)
+    );
+    server.resource(
+      `${collection.title} by ${collection.param}`,
+      new ResourceTemplate(`${RESOURCE_SCHEME}${name}/{${collection.param}}`, {
+        list: async () => ({ resources: listItemResources(dataStore.current, name) }),
+        complete: {
+          [collection.param]: (value) => completeItemKeys(dataStore.current, name, value),
+        },
+      }),
+      { description: `One record from ${collection.title.toLowerCase()} (JSON and markdown)`, mimeType: "application/json" },
+      async (uri) => readOrThrow(uri)
+    );
+  }
+
+  // resources/subscribe: remember what each subscribed resource looked like
+  // and send resources/updated when a reload changes (or removes) it. Only
+  // data resources that exist now can be subscribed to.
+  const subscriptions = new Map<string, string>();
+  const snapshot = (uri: string) => JSON.stringify(readDataResource(dataStore.current, uri));
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    if (!readDataResource(dataStore.current, uri)) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource ${uri} not found`);
+    }
+    subscriptions.set(uri, snapshot(uri));
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const stopWatching = dataStore.onReload(() => {
+    for (const [uri, previous] of subscriptions) {
+      const current = snapshot(uri);
+      if (current === previous) continue;
+      subscriptions.set(uri, current);
+      server.server.sendResourceUpdated({ uri }).catch((error) => {
+        console.error(`Failed to send resource update for ${uri}:`, error);
+      });
+    }
+  });
+  server.server.onclose = stopWatching;
+
+  // Register guided-flow prompts, filled in from the current data
+  const userPrompt = (text: string) => ({
+    messages: [{ role: "user" as const, content: { type: "text" as const, text } }],
+  });
+
+  server.prompt(
+    "plan_first_volunteer_shift",
+    "Plan my first volunteer shift: opportunities I qualify for, upcoming shifts and the volunteer policies",
+    FirstVolunteerShiftPromptSchema.shape,
+    async (args) => userPrompt(firstVolunteerShiftPrompt(dataStore.current, args, clock()))
+  );
+
+  server.prompt(
+    "prepare_donation_dropoff",
+    "Prepare a donation drop-off: check items against the wishlist, with drop-off hours and policies",
+    DonationDropOffPromptSchema.shape,
+    async (args) => userPrompt(donationDropOffPrompt(dataStore.current, args, clock()))
+  );
+
+  server.prompt(
+    "find_help_for_family_member",
+    "Find help for a family member: matching programs, service locations and who to call",
+    FamilyHelpPromptSchema.shape,
+    async (args) => userPrompt(familyHelpPrompt(dataStore.current, args, clock()))
+  );
+
+  server.prompt(
+    "organize_corporate_service_day",
+    "Organize a corporate service day: group plan, group policies and the volunteer office contact",
+    CorporateServiceDayPromptSchema.shape,
+    async (args) => userPrompt(corporateServiceDayPrompt(dataStore.current, args, clock()))
+  );
+
+  // Register get_volunteer_opportunities tool
+  server.tool(
+    "get_volunteer_opportunities",
+    "Use this when the user wants to volunteer, help, serve, or give back to Catholic Charities Twin Cities. Triggers on queries like: 'I want to volunteer', 'volunteer opportunities near me', 'help homeless Minneapolis', 'serve meals', 'weekend volunteer work', 'volunteer with my family', 'group volunteer opportunities', 'what volunteer work is available', 'how can I help', 'volunteer at shelter', 'serve food to homeless', 'warehouse volunteering', 'meal service volunteer', 'flexible volunteer hours', 'one-time volunteer project', 'volunteer in St. Paul', 'volunteer in Minneapolis', 'volunteer in Maplewood', 'teen volunteer opportunities', 'court-ordered volunteer hours', 'student internship', or any variation asking about volunteering, helping, or serving at Catholic Charities programs including Higher Ground shelter, Dorothy Day Place, meal services, distribution center, or other locations. Supports filtering by location (Minneapolis, St. Paul, Maplewood, Twin Cities), schedule type (one-time, weekly, flexible, ongoing), age requirements (14+, 18+), group size (families, teams, corporate groups), and required skills (sewing, baking, cooking). Returns structured list with descriptions, contact info, and signup links.",
+    GetVolunteerOpportunitiesSchema.shape,
+    async (params, extra) => {
+      const language = params.language ?? "en";
+      const m = messages(language);
+      // Snapshot the data so a concurrent reload can't change it mid-call
+      const ccData = localizeData(dataStore.current, language);
+      try {
+      let opportunities = ccData.volunteer.opportunities;
+      const now = clock();
+      const baseUrl = publicBaseUrl(extra.requestInfo?.headers);
+
+      // Apply filters
+      if (params.keyword) {
+        // Ranked, typo-tolerant match over title, description, skills and facility
+        const ranked = getOpportunityIndex(ccData).search(params.keyword, Infinity);
+        const byId = new Map(opportunities.map((opp) => [opp.id, opp]));
+        opportunities = ranked.flatMap((result) => byId.get(result.id) ?? []);
+      }
+
+      if (params.city) {
+        const city = params.city.toLowerCase();
+        opportunities = opportunities.filter((opp) =>
+          opp.location.city.toLowerCase().includes(city)
+        );
+      }
+
+      if (params.schedule_type) {
+        opportunities = opportunities.filter(
+          (opp) => opp.schedule.type === params.schedule_type
+        );
+      }
+
+      if (params.age_minimum !== undefined) {
+        opportunities = opportunities.filter(
+          (opp) => opp.requirements.age_minimum <= params.age_minimum!
+        );
+      }
+
+      if (params.group_friendly !== undefined) {
+        opportunities = opportunities.filter(
+          (opp) => opp.requirements.group_friendly === params.group_friendly
+        );
+      }
+
+      if (params.skill) {
+        const skill = params.skill.toLowerCase();
+        opportunities = opportunities.filter((opp) =>
+          opp.requirements.skills.some((s) => s.toLowerCase().includes(skill))
+        );
+      }
+
+      // Availability: keep opportunities with a shift overlapping the requested day and window
+      if (params.available_on || params.time_of_day || params.available_from || params.available_until) {
+        const day = params.available_on ? parseAvailableOn(params.available_on) : null;
+        const preset = params.time_of_day ? TIME_OF_DAY_WINDOWS[params.time_of_day] : undefined;
+        const window = {
+          from: params.available_from ?? preset?.from,
+          until: params.available_until ?? preset?.until,
+        };
+        const includeFlexible = params.include_flexible ?? true;
+        opportunities = opportunities.filter((opp) =>
+          hasStructuredSlots(opp.schedule)
+            ? matchingShifts(opp.schedule, day, window, now).length > 0
+            : includeFlexible
+        );
+      }
+
+      // Distance from the requested ZIP code or coordinates
+      const origin = resolveOrigin(params);
+      let results: OpportunityResult[] = opportunities;
+      if (origin) {
+        results = results.map((opp) => ({
+          ...opp,
+          distance_miles: opp.location.coordinates
+            ? roundMiles(distanceMiles(origin, opp.location.coordinates))
+            : null,
+        }));
+        if (params.radius_miles !== undefined) {
+          results = results.filter(
+            (opp) => opp.distance_miles != null && opp.distance_miles <= params.radius_miles!
+          );
+        }
+      }
+
+      const defaultSort = origin && !params.keyword ? "distance" : "relevance";
+      results = sortOpportunities(results, params.sort_by ?? defaultSort);
+
+      // Paginate; the cursor is tied to the filters it was issued for
+      const { cursor, limit, ...filters } = params;
+      const page = paginate(results, {
+        limit: limit ?? DEFAULT_PAGE_SIZE,
+        cursor,
+        fingerprint: queryFingerprint(filters),
+      });
+
+      // Build structured content
+      const structuredContent: VolunteerOpportunitiesOutput = {
+        opportunities: page.items.map((opp) => ({
+          id: opp.id,
+          title: opp.title,
+          description: opp.description,
+          location: opp.location,
+          schedule: opp.schedule,
+          requirements: opp.requirements,
+          contact: opp.contact,
+          signup_url: opp.signup_url,
+          source_url: opp.source_url,
+          ...(origin ? { distance_miles: opp.distance_miles } : {}),
+          upcoming_shifts: upcomingShifts(opp.schedule, now),
+          calendar_url: hasStructuredSlots(opp.schedule)
+            ? `${baseUrl}/calendar.ics?${calendarQuery({ opportunity_id: opp.id, language: params.language })}`
+            : null,
+        })),
+        contact: ccData.volunteer.general_info.main_contact,
+        total_count: page.total_count,
+        next_cursor: page.next_cursor,
+        filters,
+        origin,
+        language,
+      };
+
+      // Text summary
+      const textSummary =
+        results.length === 0
+          ? m.noOpportunities
+          : m.foundOpportunities(results.length) +
+            (page.items.length < page.total_count
+              ? ` (${m.showingRange(page.offset + 1, page.offset + page.items.length)})`
+              : "") +
+            `:\n\n` +
+            page.items
+              .map(
+                (opp, idx) =>
+                  `${page.offset + idx + 1}. **${opp.title}** - ${opp.location.city}` +
+                  (opp.distance_miles != null ? ` (${m.milesAway(opp.distance_miles)})` : "") +
+                  `\n` +
+                  `   ${opp.description}\n` +
+                  `   ${m.schedule}: ${opp.schedule.details}\n` +
+                  (hasStructuredSlots(opp.schedule)
+                    ? `   ${m.nextShifts}: ${upcomingShifts(opp.schedule, now).map((shift) => formatShift(shift, language)).join("; ") || m.noneScheduled}\n`
+                    : "") +
+                  `   ${m.age}: ${opp.requirements.age_minimum}+` +
+                  (opp.requirements.group_friendly
+                    ? ` | ${m.groupFriendly(String(opp.requirements.max_group_size || m.notAvailable))}`
+                    : "") +
+                  (opp.requirements.skills.length > 0
+                    ? ` | ${m.skills}: ${opp.requirements.skills.join(", ")}`
+                    : "") +
+                  `\n` +
+                  `   ${m.contact}: ${opp.contact.email} | ${opp.contact.phone}\n` +
+                  (opp.signup_url ? `   ${m.signUp}: ${opp.signup_url}\n` : "")
+              )
+              .join("\n") +
+            (page.next_cursor
+              ? `\n${m.moreOpportunities(page.next_cursor)}\n`
+              : "") +
+            `\n**${m.generalVolunteerContact}:** ${ccData.volunteer.general_info.main_contact.email} | ${ccData.volunteer.general_info.main_contact.phone}`;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: textSummary,
+          },
+        ],
+        structuredContent,
+        _meta: {
+          "openai/outputTemplate": "ui://widget/volunteer-list.html",
+          "openai/widgetAccessible": true,
+          "openai/widgetDescription": "Interactive volunteer opportunities list for Catholic Charities Twin Cities. Displays opportunities with filtering by location (Minneapolis, St. Paul, Maplewood), schedule type, age requirements, and skills. Shows opportunity details including title, description, address, schedule, age requirements, group capacity, required skills, contact info (phone/email), and signup links. Users can email volunteer coordinators or sign up directly through provided links. Helps users find and register for volunteer opportunities serving homeless individuals, families in need, meal service, warehouse work, and other community service activities across Twin Cities metro area.",
+        },
+      };
+      } catch (error: any) {
+        if (error instanceof InvalidCursorError || error instanceof GeoLookupError) {
+          return {
+            content: [{
+              type: "text",
+              text: error instanceof InvalidCursorError
+                ? m.invalidCursor(error.message)
+                : m.geoLookupFailed(error.message),
+            }],
+            isError: true,
+          };
+        }
+        console.error("Error in get_volunteer_opportunities:", error);
+        return {
+          content: [{
+            type: "text",
+            text: m.volunteerSearchError,
+          }],
+        };
+      }
+    }
+  );
+
+  // Register screen_volunteer_eligibility tool
+  server.tool(
+    "screen_volunteer_eligibility",
+    "Use this when the user asks whether they (or their family, class, or group) can volunteer at Catholic Charities Twin Cities, or why an opportunity isn't available to them. Triggers on queries like: 'can a 15-year-old volunteer', 'I'm 16, where can I help', 'can I bring my kids to volunteer', 'we have a group of 25, what can we do', 'I can sew, what can I do on Saturdays', 'am I old enough to serve meals', 'why can't I sign up for dinner service'. Takes a volunteer profile (age, group size, whether minors are present, skills, availability) and returns every opportunity as eligible, eligible with conditions (e.g., adult supervision and minor waiver, special arrangement for large groups, background check) or ineligible, with the specific rule that applied.",
+    ScreenVolunteerEligibilitySchema.shape,
+    async (params) => {
+      const language = params.language ?? "en";
+      const m = messages(language);
+      // Snapshot the data so a concurrent reload can't change it mid-call
+      const source = dataStore.current;
+      const ccData = localizeData(source, language);
+      try {
+      const generalInfo = ccData.volunteer.general_info;
+      // Limits are read from the English policies and cited in the user's language
+      const policies = parseVolunteerPolicies(source.volunteer.general_info.policies, generalInfo.policies);
+      const preset = params.time_of_day ? TIME_OF_DAY_WINDOWS[params.time_of_day] : undefined;
+      const results = screenOpportunities(
+        ccData.volunteer.opportunities,
+        {
+          ...params,
+          available_from: params.available_from ?? preset?.from,
+          available_until: params.available_until ?? preset?.until,
+        },
+        policies,
+        clock(),
+        language
+      );
+
+      const section = (status: ScreeningStatus, heading: string) => {
+        const matches = results.filter((r) => r.status === status);
+        if (matches.length === 0) return "";
+        return `**${heading} (${matches.length}):**\n` +
+          matches
+            .map((r) => {
+              const rules = status === "ineligible" ? r.rules.filter((rule) => rule.effect === "exclusion") : r.rules;
+              return `• **${r.title}**` + rules.map((rule) => `\n   - ${rule.message}`).join("");
+            })
+            .join("\n") +
+          "\n\n";
+      };
+
+      const isMinor = params.age !== undefined && params.age < policies.independent_age;
+      let textContent = `**${m.eligibilityHeading}**\n\n`;
+      if (isMinor && policies.text.supervised) {
+        textContent += `_${policies.text.supervised}._\n\n`;
+      }
+      textContent +=
+        section("eligible", m.eligibleHeading) +
+        section("eligible_with_conditions", m.eligibleWithConditionsHeading) +
+        section("ineligible", m.notEligibleHeading);
+      textContent += m.questionsContact(generalInfo.main_contact.email, generalInfo.main_contact.phone);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: textContent,
+          },
+        ],
+        structuredContent: {
+          profile: params,
+          results,
+          counts: {
+            eligible: results.filter((r) => r.status === "eligible").length,
+            eligible_with_conditions: results.filter((r) => r.status === "eligible_with_conditions").length,
+            ineligible: results.filter((r) => r.status === "ineligible").length,
+          },
+          contact: generalInfo.main_contact,
+        },
+      };
+      } catch (error: any) {
+        console.error("Error in screen_volunteer_eligibility:", error);
+        return {
+          content: [{
+            type: "text",
+            text: m.eligibilityError,
+          }],
+        };
+      }
+    }
+  );
+
+  // Register plan_group_volunteering tool
+  server.tool(
+    "plan_group_volunteering",
+    "Use this when the user wants to plan volunteering for a corporate team, company, school class, youth group, parish, or family group at Catholic Charities Twin Cities. Triggers on queries like: 'volunteer day for my team of 12', 'corporate volunteer event for 40 people', 'where can our youth group of 20 volunteer', 'family volunteering with kids ages 14 and up', 'team building volunteer opportunity in St. Paul', 'can 30 coworkers volunteer together next Friday'. Takes the group size, the youngest member's age and preferred dates, and suggests one opportunity that fits the whole group or a split across several within each opportunity's group capacity. Groups over the limits are flagged for a special arrangement with a drafted inquiry email.",
+    PlanGroupVolunteeringSchema.shape,
+    async (params) => {
+      const language = params.language ?? "en";
+      const m = messages(language);
+      // Snapshot the data so a concurrent reload can't change it mid-call
+      const source = dataStore.current;
+      const ccData = localizeData(source, language);
+      try {
+      const generalInfo = ccData.volunteer.general_info;
+      const plan = planGroupVolunteering(
+        ccData.volunteer.opportunities,
+        params,
+        parseVolunteerPolicies(source.volunteer.general_info.policies, generalInfo.policies),
+        generalInfo.main_contact,
+        clock(),
+        language
+      );
+
+      let textContent = `**${m.groupPlanHeading(plan.group_size, plan.min_age)}**\n\n`;
+      if (plan.options.length === 0) {
+        textContent += `${m.noGroupOptions(plan.preferred_dates.length > 0)}\n\n`;
+      } else if (plan.plan === "single") {
+        textContent += `${m.wholeGroupTogether}\n\n`;
+        textContent += plan.options.map((option, idx) => `${idx + 1}. ${formatGroupOption(option, plan.plan, language)}`).join("\n\n") + "\n\n";
+      } else {
+        textContent += plan.plan === "split"
+          ? `${m.splitIntoTeams(plan.options.length)}\n\n`
+          : `${m.suggestedStartingPoint}\n\n`;
+        textContent += plan.options.map((option, idx) => `${idx + 1}. ${formatGroupOption(option, plan.plan, language)}`).join("\n\n") + "\n\n";
+      }
+
+      if (plan.special_arrangement) {
+        textContent += `⚠️ **${m.specialArrangementNeeded}:** ${plan.special_arrangement_reason}\n\n`;
+      }
+      if (plan.inquiry_email) {
+        textContent += `**${m.draftInquiryEmail}**\n${m.emailTo}: ${plan.inquiry_email.to}\n${m.emailSubject}: ${plan.inquiry_email.subject}\n\n${plan.inquiry_email.body}\n\n`;
+      }
+      textContent += `${m.volunteerOffice}: ${generalInfo.main_contact.email} | ${generalInfo.main_contact.phone}`;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: textContent,
+          },
+        ],
+        structuredContent: plan,
+      };
+      } catch (error: any) {
+        console.error("Error in plan_group_volunteering:", error);
+        return {
+          content: [{
+            type: "text",
+            text: m.groupPlanError,
+          }],
+        };
+      }
+    }
+  );
+
+  // Register submit_volunteer_inquiry tool
+  server.tool(
+    "submit_volunteer_inquiry",
+    "Use this when the user wants to sign up for, register for, or express interest in a specific Catholic Charities Twin Cities volunteer opportunity, especially one without an online signup link. Triggers on queries like: 'sign me up for the warehouse shift', 'I'd like to volunteer at the dinner service, my email is...', 'register our group of 8 for the painting project', 'send my interest to the volunteer coordinator'. Collects name, email or phone, the chosen opportunity, group size and availability, saves the inquiry for the volunteer coordinators, and returns a confirmation ID. Only call this after the user has provided their contact details and agreed to share them.",
+    SubmitVolunteerInquirySchema.shape,
+    async (params, extra) => {
+      const language = params.language ?? "en";
+      const m = messages(language);
+      // Snapshot the data so a concurrent reload can't change it mid-call
+      const source = dataStore.current;
+      const ccData = localizeData(source, language);
+      try {
+      if (!params.email && !params.phone) {
+        return {
+          content: [{
+            type: "text",
+            text: m.contactRequired,
+          }],
+          isError: true,
+        };
+      }
+      const opp = ccData.volunteer.opportunities.find((o) => o.id === params.opportunity_id);
+      if (!opp) {
+        return {
+          content: [{
+            type: "text",
+            text: m.unknownOpportunity(params.opportunity_id),
+          }],
+          isError: true,
+        };
+      }
+
+      // Coordinators read inquiries under the English title
+      const inquiry = inquiryStore.add(
+        { ...params, group_size: params.group_size ?? 1, client: extra.authInfo?.clientId },
+        source.volunteer.opportunities.find((o) => o.id === opp.id)!.title,
+        clock()
+      );
+      const structuredContent: VolunteerInquiryOutput = {
+        confirmation_id: inquiry.confirmation_id,
+        opportunity_id: opp.id,
+        opportunity_title: opp.title,
+        status: inquiry.status,
+        submitted_at: inquiry.submitted_at,
+        contact: ccData.volunteer.general_info.main_contact,
+      };
+
+      let textContent = `**${m.inquiryReceived(inquiry.name)}**\n\n`;
+      textContent += `${m.confirmationId}: **${inquiry.confirmation_id}**\n`;
+      textContent += `${m.opportunity}: ${opp.title}\n`;
+      textContent += `${m.groupSize}: ${inquiry.group_size}\n`;
+      textContent += `${m.availability}: ${inquiry.availability}\n\n`;
+      if (inquiry.group_size > 1 && !opp.requirements.group_friendly) {
+        textContent += `${m.individualsNote}\n\n`;
+      }
+      textContent += `${m.coordinatorWillContact([inquiry.email, inquiry.phone].filter((c): c is string => Boolean(c)))} `;
+      textContent += m.inquiryQuestions(opp.contact.email, opp.contact.phone);
+      if (opp.signup_url) {
+        textContent += `\n\n${m.signUpDirectly(opp.signup_url)}`;
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: textContent,
+          },
+        ],
+        structuredContent,
+      };
+      } catch (error: any) {
+        console.error("Error in submit_volunteer_inquiry:", error);
+        return {
+          content: [{
+            type: "text",
+            text: m.inquiryError,
+          }],
+        };
+      }
+    }
+  );
+
+  // Register get_donation_options tool
+  server.tool(
+    "get_donation_options",
+    "Use this when the user wants to donate, give, contribute, or support Catholic Charities Twin Cities. Triggers on queries like: 'I want to donate', 'donate to charity', 'donate clothes', 'donate winter coats', 'donate household items', 'donate food', 'donate vehicle', 'donate car', 'where to drop off donations', 'donation hours', 'what items do you need', 'donation wish list', 'give money online', 'monthly donation', 'tribute donation', 'memorial gift', 'I have items to give', 'where can I bring donations Minneapolis', 'donate shoes', 'donate hygiene products', 'donate bedding', 'donate pots and pans', 'donate backpacks', 'give financially', 'support Catholic Charities', 'how to help with money', 'online giving', 'recurring donation', 'planned giving', or any variation about donating money, items (clothing, winter gear, shoes, personal hygiene products, linens, bedding, household goods, food), or vehicles (cars, trucks, boats, RVs, motorcycles). Provides type-specific information about online donations (one-time, recurring, tribute, memorial), in-kind item donations (accepted items, drop-off locations at 341 Chester St St. Paul, hours Monday-Friday 9am-4pm, policies requiring NEW items only), or vehicle donations (free pickup, tax deductible). Returns contact info, addresses, accepted items lists, and donation policies.",
+    GetDonationOptionsSchema.shape,
+    async (params) => {
+      const language = params.language ?? "en";
+      const m = messages(language);
+      // Snapshot the data so a concurrent reload can't change it mid-call
+      const ccData = localizeData(dataStore.current, language);
+      try {
+      const donationType = params.type;
+      const links: DonationLinks = {
+        online_donation_url: ccData.donations.online.donation_page_url,
+        vehicle_donation_url: ccData.donations.vehicle.program_url,
+        vehicle_phone: ccData.donations.vehicle.phone,
+        wishlist_url: ccData.donations.in_kind.wishlist_url,
+      };
+
+      let textContent = "";
+      let structuredContent: DonationOptionsOutput;
+
+      if (donationType === "online") {
+        const donationData = ccData.donations.online;
+        textContent = `**${m.onlineTitle}**\n\n`;
+        textContent += `${m.donateOnlineAt(donationData.donation_page_url)}\n\n`;
+        textContent += `**${m.donationTypes}:**\n${donationData.types.map((t) => `• ${t}`).join("\n")}\n\n`;
+        textContent += `${donationData.notes}\n\n`;
+        textContent += `**${m.givingQuestions}**\n`;
+        textContent += `${m.phone}: ${donationData.contact.phone}\n`;
+        textContent += `${m.email}: ${donationData.contact.email}`;
+        structuredContent = { type: "online", online: donationData, links, language };
+      } else if (donationType === "in_kind") {
+        const now = clock();
+        const donationData = {
+          ...ccData.donations.in_kind,
+          drop_off_locations: ccData.donations.in_kind.drop_off_locations.map((loc) => ({
+            ...loc,
+            status: openStatus(loc.opening_hours, now, language),
+          })),
+        };
+        textContent = `**${m.inKindTitle}**\n\n`;
+        textContent += `**${m.currentlyAccepting}:**\n\n`;
+        donationData.accepted_items.forEach((cat) => {
+          textContent += `**${cat.category}:**\n${cat.details}\n`;
+          if (cat.restrictions) textContent += `*${cat.restrictions}*\n`;
+          textContent += `\n`;
+        });
+        textContent += `**${m.notAccepted}:**\n${donationData.not_accepted.map((item) => `• ${item}`).join("\n")}\n\n`;
+        textContent += `**${m.dropOffLocation}:**\n`;
+        donationData.drop_off_locations.forEach((loc) => {
+          textContent += `${loc.name}\n`;
+          textContent += `${loc.address}\n`;
+          textContent += `${m.hours}: ${formatOpeningHours(loc.opening_hours, language)} (${loc.status.summary})\n`;
+          textContent += `${m.phone}: ${loc.phone}\n`;
+          textContent += `${m.email}: ${loc.email}\n\n`;
+        });
+        textContent += `**${m.importantPolicies}:**\n${donationData.policies.map((p) => `• ${p}`).join("\n")}\n\n`;
+        textContent += m.viewWishlist(donationData.wishlist_url);
+        structuredContent = { type: "in_kind", in_kind: donationData, links, language };
+      } else {
+        const donationData = ccData.donations.vehicle;
+        textContent = `**${m.vehicleTitle}**\n\n`;
+        textContent += `${donationData.process_description}\n\n`;
+        textContent += `**${m.toDonateVehicle}:**\n`;
+        textContent += `${m.phone}: ${donationData.phone}\n`;
+        textContent += `${m.online}: ${donationData.program_url}\n\n`;
+        textContent += m.vehiclesAccepted;
+        structuredContent = { type: "vehicle", vehicle: donationData, links, language };
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: textContent,
+          },
+        ],
+        structuredContent,
+        _meta: {
+          "openai/outputTemplate": "ui://widget/donation-options.html",
+          "openai/widgetAccessible": true,
+          "openai/widgetDescription": "Interactive donation options for Catholic Charities Twin Cities. For in-kind giving, shows the accepted item categories as a checklist users can tick off while shopping, the items that are not accepted, donation policies, and drop-off locations with hours, address, phone and email. Includes buttons to donate online (one-time, recurring, tribute, memorial gifts) and to start a vehicle donation, plus links to the full wishlist.",
+        },
+      };
+      } catch (error: any) {
+        console.error("Error in get_donation_options:", error);
+        return {
+          content: [{
+            type: "text",
+            text: m.donationError,
+          }],
+        };
+      }
+    }
+  );
+
+  // Register check_donation_item tool
+  server.tool(
+    "check_donation_item",
+    "Use this when the user asks whether Catholic Charities Twin Cities will accept a specific item they want to donate. Triggers on queries like: 'can I donate used winter coats', 'do you take a size 10 men's sneaker', 'can I drop off a king comforter', 'do you accept canned food', 'will you take a used air fryer', 'can I donate expired food', 'do you need 36 inch jeans', 'can I give toiletries'. Checks the item and its condition (new, used, expired) against the in-kind wishlist, its size ranges (e.g., men's shoe sizes 9-13, jeans 34in to 44in, M-4XL, twin/full/queen bedding) and the not-accepted list. Returns accepted, rejected, or call to confirm, with the reason, the matching wishlist category, and drop-off details.",
+    CheckDonationItemSchema.shape,
+    async (params) => {
+      const language = params.language ?? "en";
+      const m = messages(language);
+      // Snapshot the data so a concurrent reload can't change it mid-call
+      const source = dataStore.current;
+      const ccData = localizeData(source, language);
+      try {
+      const inKind = ccData.donations.in_kind;
+      // The wishlist is matched in English and reported in the user's language
+      const result = checkDonationItem(localizeData(source).donations.in_kind, params.item, params.condition, language, inKind);
+      const now = clock();
+      const dropOffLocations = inKind.drop_off_locations.map((loc) => ({
+        ...loc,
+        status: openStatus(loc.opening_hours, now, language),
+      }));
+
+      let textContent = `**${m.verdicts[result.verdict]}:** ${params.item} (${m.itemConditions[params.condition]})\n\n${result.reason}\n`;
+      if (result.category) textContent += `\n**${m.wishlistCategory}:** ${result.category}\n`;
+      if (result.verdict !== "rejected") {
+        textContent += `\n**${m.dropOffLocation}:**\n`;
+        dropOffLocations.forEach((loc) => {
+          textContent += `${loc.name}, ${loc.address}\n`;
+          textContent += `${m.hours}: ${formatOpeningHours(loc.opening_hours, language)} (${loc.status.summary})\n`;
+        });
+      }
+      textContent += `\n**${m.questions}:** ${inKind.contact.phone} | ${inKind.contact.email}\n`;
+      textContent += `${m.fullWishlist}: ${inKind.wishlist_url}`;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: textContent,
+          },
+        ],
+        structuredContent: {
+          item: params.item,
+          condition: params.condition,
+          ...result,
+          drop_off_locations: dropOffLocations,
+          contact: inKind.contact,
+          wishlist_url: inKind.wishlist_url,
+        },
+      };
+      } catch (error: any) {
+        console.error("Error in check_donation_item:", error);
+        return {
+          content: [{
+            type: "text",
+            text: m.donationCheckError,
+          }],
+        };
+      }
+    }
+  );
+
+  // Register search_org_info tool
+  server.tool(
+    "search_org_info",
+    "Use this when the user asks about Catholic Charities Twin Cities' mission, services, programs, locations, contact information, impact statistics, or wants to learn what they do. Also use for informational queries about homeless shelters, food programs, housing assistance, family services, senior services, disability services, emergency assistance, or social services in Minneapolis, St. Paul, Twin Cities, or Minnesota area. Triggers on queries like: 'what does Catholic Charities do', 'Catholic Charities mission', 'homeless shelter Minneapolis', 'homeless shelter St. Paul', 'free meals Minneapolis', 'free meals Twin Cities', 'food shelf near me', 'emergency shelter Minnesota', 'affordable housing Minneapolis', 'family shelter', 'help for homeless', 'where can I get food', 'places that help homeless people', 'organizations that feed people', 'senior services Minneapolis', 'disability services St. Paul', 'childcare programs', 'family support services', 'mental health support', 'job training programs', 'emergency assistance', 'housing help', 'meal programs', 'supportive housing', 'veteran housing', 'Higher Ground shelter', 'Dorothy Day Place', 'where is Catholic Charities located', 'Catholic Charities phone number', 'contact Catholic Charities', 'how many people does Catholic Charities serve', 'upcoming events', 'history of Catholic Charities', or any variation asking about the organization's work, locations (Minneapolis, St. Paul, Maplewood), services for people experiencing homelessness, hunger, housing insecurity, families in need, seniors, people with disabilities, or general social services in the Twin Cities. Searches across mission statement, service descriptions (Adult Emergency Shelters, Affordable Housing, Opportunity Centers, Children and Family Services, Aging and Disability Services, Food Services, Medical Respite, Housing First Program), 7 locations across Twin Cities, events, impact statistics (30,000+ people served, 1,000,000+ meals, 550,000+ nights of housing annually), and contact information.",
+    SearchOrgInfoSchema.shape,
+    async (params) => {
+      const language = params.language ?? "en";
+      const m = messages(language);
+      // Snapshot the data so a concurrent reload can't change it mid-call
+      const ccData = localizeData(dataStore.current, language);
+      try {
+      // Over-fetch so dropping past events still leaves a full page
+      const today = localNow(clock()).date;
+      const limit = params.limit ?? 5;
+      const results: SearchResult[] = getSearchIndex(ccData, language)
+        .search(params.query, limit + ccData.organization.upcoming_events.length)
+        .filter((result) => !(result.type === "event" && result.date && result.date < today))
+        .slice(0, limit)
+        .map((result) => {
+          // Opening status depends on the time of the call, so it isn't indexed
+          const location = result.type === "location"
+            ? ccData.organization.locations.find((loc) => result.id === `location:${loc.name}`)
+            : undefined;
+          if (!location) return result;
+          const status = openStatus(location.opening_hours, clock(), language);
+          return { ...result, summary: `${result.summary}\n${m.status}: ${status.summary}`, status };
+        });
+
+      // Default if no results
+      if (results.length === 0) {
+        results.push({
+          id: "about",
+          type: "mission",
+          heading: m.aboutHeading,
+          summary: `${ccData.organization.mission}\n\n${m.servingSince(ccData.organization.service_area, ccData.organization.about.founded)}\n\n${m.contact}: ${ccData.organization.contact.main_phone} | ${ccData.organization.contact.main_email}`,
+          source_url: ccData.organization.source_url,
+          score: 0,
+          matched_fields: [],
+        });
+      }
+
+      // Someone describing an urgent need gets crisis lines and shelter or
+      // meal sites before the ranked results
+      const needs = detectUrgentNeeds(params.query);
+      const urgentHelp = needs.length > 0 ? immediateHelp(ccData, needs, clock(), null, language) : null;
+
+      const textContent = [
+        ...(urgentHelp ? [formatImmediateHelp(urgentHelp)] : []),
+        ...results.map(
+          (result) =>
+            `**${result.heading}**` +
+            (result.score > 0
+              ? ` _(${m.relevance(result.score.toFixed(2), result.matched_fields.join(", "))})_`
+              : "") +
+            `\n\n${result.summary}\n\n${m.source}: ${result.source_url}`
+        ),
+      ].join("\n\n---\n\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: textContent,
+          },
+        ],
+        structuredContent: {
+          query: params.query,
+          results,
+          ...(urgentHelp ? { urgent_help: urgentHelp } : {}),
+        },
+        ...(urgentHelp ? { _meta: { "cctc/urgent": true, "cctc/urgentNeeds": needs } } : {}),
+      };
+      } catch (error: any) {
+        console.error("Error in search_org_info:", error);
+        return {
+          content: [{
+            type: "text",
+            text: m.orgSearchError,
+          }],
+        };
+      }
+    }
+  );
+
+  // Register find_nearby_locations tool
+  server.tool(
+    "find_nearby_locations",
+    "Use this when the user asks which Catholic Charities Twin Cities location is closest to them, or wants directions or distances from a ZIP code or their current position. Triggers on queries like: 'what's closest to 55408', 'nearest Catholic Charities location', 'shelter near me', 'which site is closest to downtown St. Paul', 'how far is the Family Service Center from 55104'. Accepts a Twin Cities ZIP code or latitude/longitude, plus an optional radius in miles, and returns locations sorted by distance with addresses and phone numbers. Works offline using a built-in ZIP code table.",
+    FindNearbyLocationsSchema.shape,
+    async (params) => {
+      const language = params.language ?? "en";
+      const m = messages(language);
+      // Snapshot the data so a concurrent reload can't change it mid-call
+      const ccData = localizeData(dataStore.current, language);
+      try {
+      const origin = resolveOrigin(params);
+      if (!origin) {
+        return {
+          content: [{
+            type: "text",
+            text: m.locationRequired,
+          }],
+          isError: true,
+        };
+      }
+
+      const now = clock();
+      let locations = ccData.organization.locations.map((loc) => ({
+        ...loc,
+        distance_miles: roundMiles(distanceMiles(origin, loc.coordinates)),
+        status: openStatus(loc.opening_hours, now, language),
+      }));
+      if (params.type) {
+        locations = locations.filter((loc) => loc.type === params.type);
+      }
+      if (params.radius_miles !== undefined) {
+        locations = locations.filter((loc) => loc.distance_miles <= params.radius_miles!);
+      }
+      if (params.open_now) {
+        locations = locations.filter((loc) => loc.status.open_now);
+      }
+      locations.sort((a, b) => a.distance_miles - b.distance_miles);
+
+      const originLabel = params.near_zip ? m.nearZip(params.near_zip) : m.yourLocation;
+      const textContent =
+        locations.length === 0
+          ? m.noNearbyLocations(originLabel, params.open_now ?? false, params.radius_miles, ccData.organization.contact.main_phone)
+          : `**${m.nearestLocations(originLabel)}**\n\n` +
+            locations
+              .map(
+                (loc, idx) =>
+                  `${idx + 1}. **${loc.name}** - ${m.miles(loc.distance_miles)}\n` +
+                  `   ${loc.address}\n` +
+                  `   ${loc.status.summary}` +
+                  (loc.phone ? `\n   ${m.phone}: ${loc.phone}` : "")
+              )
+              .join("\n\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: textContent,
+          },
+        ],
+        structuredContent: {
+          origin,
+          locations,
+        },
+      };
+      } catch (error: any) {
+        if (error instanceof GeoLookupError) {
+          return {
+            content: [{
+              type: "text",
+              text: m.geoLookupFailed(error.message),
+            }],
+            isError: true,
+          };
+        }
+        console.error("Error in find_nearby_locations:", error);
+        return {
+          content: [{
+            type: "text",
+            text: m.nearbyError,
+          }],
+        };
+      }
+    }
+  );
+
+  // Register get_immediate_help tool
+  server.tool(
+    "get_immediate_help",
+    "Use this FIRST when the user describes an urgent need for shelter, food or safety for themselves or someone with them, rather than asking a general question. Triggers on messages like: 'I have nowhere to sleep tonight', 'I'm sleeping in my car', 'we just got evicted', 'I'm homeless and need a bed', 'I haven't eaten in two days', 'my kids are hungry', 'I'm not safe at home', 'my partner hits me', 'I want to end my life'. Returns crisis lines (911, 988, 211 and others) and Catholic Charities shelter and meal sites with today's hours, open-now status and phone numbers, open sites first. Pass a ZIP code or coordinates to sort sites by distance.",
+    GetImmediateHelpSchema.shape,
+    async (params) => {
+      const language = params.language ?? "en";
+      const m = messages(language);
+      const ccData = localizeData(dataStore.current, language);
+      try {
+      const detected = params.need ? [params.need] : detectUrgentNeeds(params.situation ?? "");
+      // Nothing recognizable: show everything rather than guess
+      const needs = detected.length > 0 ? detected : UrgentNeedSchema.options;
+
+      // A bad ZIP shouldn't hold up crisis information; sites just stay unsorted by distance
+      let origin: Coordinates | null = null;
+      try {
+        origin = resolveOrigin(params);
+      } catch (error) {
+        if (!(error instanceof GeoLookupError)) throw error;
+      }
+
+      const help = immediateHelp(ccData, needs, clock(), origin, language);
+      return {
+        content: [
+          {
+            type: "text",
+            text: formatImmediateHelp(help),
+          },
+        ],
+        structuredContent: help,
+        _meta: {
+          "cctc/urgent": true,
+          "cctc/urgentNeeds": help.needs.map((need) => need.need),
+        },
+      };
+      } catch (error: any) {
+        console.error("Error in get_immediate_help:", error);
+        return {
+          content: [{
+            type: "text",
+            text: m.immediateHelpError,
+          }],
+        };
+      }
+    }
+  );
+
+  // Register get_upcoming_events tool
+  server.tool(
+    "get_upcoming_events",
+    "Use this when the user asks about upcoming Catholic Charities Twin Cities events, fundraisers, galas, holiday events, virtual events, or what's happening on a date or in a month. Triggers on queries like: 'upcoming events', 'Catholic Charities events this December', 'is there a fundraiser coming up', 'Spirit of the Season date', 'events at Mall of America', 'what events are happening next month', 'virtual events'. Supports from/to date filters and a keyword filter. Only returns events that haven't happened yet, soonest first, with dates, descriptions, and links.",
+    GetUpcomingEventsSchema.shape,
+    async (params) => {
+      const language = params.language ?? "en";
+      const m = messages(language);
+      // Snapshot the data so a concurrent reload can't change it mid-call
+      const ccData = localizeData(dataStore.current, language);
+      try {
+      const today = localNow(clock()).date;
+      const events = upcomingEvents(ccData.organization.upcoming_events, params, today);
+
+      const textContent =
+        events.length === 0
+          ? m.noUpcomingEvents(`${ccData.organization.source_url}/events/`, ccData.organization.contact.main_email)
+          : `**${m.upcomingEventsHeading}**\n\n` +
+            events
+              .map((evt) => `**${evt.name}** - ${formatEventDate(evt, language)}\n${evt.description}\n${evt.url}`)
+              .join("\n\n");
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: textContent,
+          },
+        ],
+        structuredContent: {
+          today,
+          from: params.from && params.from > today ? params.from : today,
+          to: params.to ?? null,
+          total_count: events.length,
+          events,
+        },
+      };
+      } catch (error: any) {
+        console.error("Error in get_upcoming_events:", error);
+        return {
+          content: [{
+            type: "text",
+            text: m.eventsError,
+          }],
+        };
+      }
+    }
+  );
+
+  // Register export_calendar tool
+  server.tool(
+    "export_calendar",
+    "Use this when the user wants to add a volunteer shift or a Catholic Charities Twin Cities event to their calendar, or asks for an .ics file or calendar feed. Triggers on queries like: 'add this shift to my calendar', 'put Spirit of the Season on my calendar', 'calendar invite for the breakfast shift', 'export volunteer shifts to Google Calendar', 'iCal feed of St. Paul shifts'. Exports one opportunity's upcoming shifts (opportunity_id), a single event (event name or date), or a filtered feed of shifts and events. Returns an RFC 5545 .ics calendar with locations and contact details, plus a download link.",
+    ExportCalendarSchema.shape,
+    async (params, extra) => {
+      const language = params.language ?? "en";
+      const m = messages(language);
+      // Snapshot the data so a concurrent reload can't change it mid-call
+      const ccData = localizeData(dataStore.current, language);
+      try {
+      const calendar = buildCalendar(ccData, params, clock());
+      const downloadUrl = `${publicBaseUrl(extra.requestInfo?.headers)}/calendar.ics?${calendarQuery(params)}`;
+
+      const textContent =
+        calendar.event_count === 0
+          ? m.emptyCalendar(calendar.name, ccData.volunteer.general_info.main_contact.email)
+          : `**${m.calendarTitle(calendar.name)}** (${m.calendarEntries(calendar.event_count)})\n\n` +
+            m.downloadCalendar(downloadUrl);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: textContent,
+          },
+          {
+            type: "resource",
+            resource: {
+              uri: downloadUrl,
+              mimeType: "text/calendar",
+              text: calendar.ics,
+            },
+          },
+        ],
+        structuredContent: {
+          name: calendar.name,
+          event_count: calendar.event_count,
+          download_url: downloadUrl,
+        },
+      };
+      } catch (error: any) {
+        if (error instanceof CalendarSelectionError) {
+          return {
+            content: [{
+              type: "text",
+              text: m.calendarSelectionHelp(error.message),
+            }],
+            isError: true,
+          };
+        }
+        console.error("Error in export_calendar:", error);
+        return {
+          content: [{
+            type: "text",
+            text: m.calendarError,
+          }],
+        };
+      }
+    }
+  );
+
+  return server;
+};
+
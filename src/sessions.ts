@@ -0,0 +1,203 @@
+import type { Response } from "express";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import type { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import {
+  isJSONRPCError,
+  isJSONRPCNotification,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  type RequestId,
+} from "@modelcontextprotocol/sdk/types.js";
+import { systemClock, type Clock } from "./clock.js";
+import { positiveInteger } from "./env.js";
+
+/**
+ * Open MCP sessions on both transports, each with its own McpServer.
+ * Sessions that go quiet are closed after an idle timeout, the number of
+ * open sessions is capped, open SSE streams get keep-alive comments so
+ * proxies don't cut them, and on shutdown unanswered requests are given
+ * time to finish before every session is closed.
+ */
+
+export type SessionTransport = StreamableHTTPServerTransport | SSEServerTransport;
+
+export interface SessionConfig {
+  // Close sessions with no messages from the client for this long
+  idleTimeoutMs: number;
+  maxSessions: number;
+  // Interval between SSE keep-alive comments
+  keepAliveMs: number;
+  // How long shutdown waits for unanswered requests
+  shutdownTimeoutMs: number;
+}
+
+export function parseSessionConfig(env: NodeJS.ProcessEnv): SessionConfig {
+  return {
+    idleTimeoutMs: positiveInteger("SESSION_IDLE_TIMEOUT_MS", env.SESSION_IDLE_TIMEOUT_MS, 30 * 60 * 1000),
+    maxSessions: positiveInteger("MAX_SESSIONS", env.MAX_SESSIONS, 1000),
+    keepAliveMs: positiveInteger("SSE_KEEPALIVE_MS", env.SSE_KEEPALIVE_MS, 25 * 1000),
+    shutdownTimeoutMs: positiveInteger("SHUTDOWN_TIMEOUT_MS", env.SHUTDOWN_TIMEOUT_MS, 20 * 1000),
+  };
+}
+
+export interface Session {
+  id: string;
+  transport: SessionTransport;
+  server: McpServer;
+  // API client that opened the session, when authentication is on
+  clientId?: string;
+  lastActivity: number;
+  // Requests from the client that haven't been answered yet
+  pending: Set<RequestId>;
+  // Open SSE responses, for keep-alive comments
+  streams: Set<Response>;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export class SessionManager {
+  private sessions = new Map<string, Session>();
+  private timers: NodeJS.Timeout[] = [];
+
+  constructor(private config: SessionConfig, private clock: Clock = systemClock) {}
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  get(id: string): Session | undefined {
+    return this.sessions.get(id);
+  }
+
+  all(): Session[] {
+    return [...this.sessions.values()];
+  }
+
+  isFull(): boolean {
+    return this.sessions.size >= this.config.maxSessions;
+  }
+
+  // Unanswered requests across all sessions
+  inFlight(): number {
+    return this.all().reduce((total, session) => total + session.pending.size, 0);
+  }
+
+  /**
+   * Register a connected session. Wraps the transport's message handlers
+   * to track activity and unanswered requests, so call it after anything
+   * else that wraps them (such as limitToolCalls).
+   */
+  add(id: string, transport: SessionTransport, server: McpServer, clientId?: string): Session {
+    const session: Session = {
+      id,
+      transport,
+      server,
+      clientId,
+      lastActivity: this.clock().getTime(),
+      pending: new Set(),
+      streams: new Set(),
+    };
+
+    const onmessage = transport.onmessage;
+    transport.onmessage = (message, extra) => {
+      session.lastActivity = this.clock().getTime();
+      if (isJSONRPCRequest(message)) {
+        session.pending.add(message.id);
+      } else if (isJSONRPCNotification(message) && message.method === "notifications/cancelled") {
+        // Cancelled requests get no response
+        session.pending.delete(message.params?.requestId as RequestId);
+      }
+      onmessage?.(message, extra);
+    };
+
+    const send = transport.send.bind(transport);
+    transport.send = async (message, options) => {
+      try {
+        await send(message, options);
+      } finally {
+        if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+          session.pending.delete(message.id);
+        }
+      }
+    };
+
+    this.sessions.set(id, session);
+    return session;
+  }
+
+  // Forget a session whose transport has closed
+  remove(id: string) {
+    this.sessions.delete(id);
+  }
+
+  /**
+   * Send keep-alive comments on an SSE response until it closes.
+   */
+  keepAlive(session: Session, res: Response) {
+    if (res.writableEnded) return;
+    session.streams.add(res);
+    res.on("close", () => session.streams.delete(res));
+  }
+
+  /**
+   * Close a session's server and transport. The transport's onclose
+   * handler runs as usual.
+   */
+  async close(id: string, reason: string) {
+    const session = this.sessions.get(id);
+    if (!session) return;
+    this.sessions.delete(id);
+    console.log(`Closing session ${id} (${reason})`);
+    try {
+      await session.server.close();
+    } catch (error) {
+      console.error(`Error closing session ${id}:`, error);
+    }
+  }
+
+  start() {
+    const sweep = setInterval(() => void this.closeIdle(), Math.min(this.config.idleTimeoutMs, 60 * 1000));
+    const ping = setInterval(() => this.sendKeepAlives(), this.config.keepAliveMs);
+    // Timers alone shouldn't keep the process running
+    sweep.unref();
+    ping.unref();
+    this.timers.push(sweep, ping);
+  }
+
+  private async closeIdle() {
+    const cutoff = this.clock().getTime() - this.config.idleTimeoutMs;
+    const idle = this.all().filter((session) => session.pending.size === 0 && session.lastActivity <= cutoff);
+    await Promise.all(idle.map((session) => this.close(session.id, "idle")));
+  }
+
+  private sendKeepAlives() {
+    for (const session of this.sessions.values()) {
+      for (const res of session.streams) {
+        if (!res.writableEnded) {
+          // SSE comment line: ignored by clients, but keeps proxies from timing out the stream
+          res.write(": keep-alive\n\n");
+        }
+      }
+    }
+  }
+
+  /**
+   * Wait up to the shutdown timeout for unanswered requests, then close
+   * every session.
+   */
+  async shutdown() {
+    this.timers.forEach((timer) => clearInterval(timer));
+    this.timers = [];
+
+    const deadline = Date.now() + this.config.shutdownTimeoutMs;
+    while (this.inFlight() > 0 && Date.now() < deadline) {
+      await sleep(100);
+    }
+    const unanswered = this.inFlight();
+    if (unanswered > 0) {
+      console.warn(`⚠️  Closing sessions with ${unanswered} requests still unanswered`);
+    }
+    await Promise.all(this.all().map((session) => this.close(session.id, "shutdown")));
+  }
+}
@@ -0,0 +1,56 @@
+import { afterEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { InvalidTokenError, ServerError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { IntrospectionVerifier } from "../src/auth.js";
+import { fixedClock } from "../src/clock.js";
+import { booleanSetting } from "../src/env.js";
+
+const RESOURCE = "https://cctc.example/mcp";
+const realFetch = globalThis.fetch;
+
+// A verifier whose introspection endpoint answers with `body`
+const verifierReturning = (body: unknown) => {
+  globalThis.fetch = async () => new Response(typeof body === "string" ? body : JSON.stringify(body), { status: 200 });
+  return new IntrospectionVerifier({ url: "https://auth.example/introspect", resource: RESOURCE }, fixedClock("2026-01-01T00:00:00Z"));
+};
+
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+test("introspection accepts active tokens issued for this server", async () => {
+  const verifier = verifierReturning({ active: true, client_id: "partner-a", scope: "read intake other", aud: [RESOURCE], exp: 1893456000 });
+  const info = await verifier.verifyAccessToken("token");
+  assert.equal(info.clientId, "partner-a");
+  assert.deepEqual(info.scopes, ["read", "intake"]);
+  assert.equal(info.expiresAt, 1893456000);
+});
+
+test("introspection rejects inactive tokens and other audiences", async () => {
+  await assert.rejects(verifierReturning({ active: false }).verifyAccessToken("token"), InvalidTokenError);
+  await assert.rejects(
+    verifierReturning({ active: true, aud: "https://other.example/mcp" }).verifyAccessToken("token"),
+    InvalidTokenError
+  );
+});
+
+test("introspection rejects tokens that name no client", async () => {
+  for (const body of [{ active: true, aud: RESOURCE }, { active: true, aud: RESOURCE, client_id: "", sub: "" }]) {
+    await assert.rejects(verifierReturning(body).verifyAccessToken("token"), InvalidTokenError, JSON.stringify(body));
+  }
+  const info = await verifierReturning({ active: true, aud: RESOURCE, sub: "user-7" }).verifyAccessToken("token");
+  assert.equal(info.clientId, "user-7");
+});
+
+test("malformed introspection responses are server errors", async () => {
+  for (const body of ["not json", { aud: RESOURCE }, { active: "yes", aud: RESOURCE }, { active: true, aud: [1] }, { active: true, aud: RESOURCE, exp: "soon" }]) {
+    await assert.rejects(verifierReturning(body).verifyAccessToken("token"), ServerError, JSON.stringify(body));
+  }
+});
+
+test("booleanSetting reads true/false and rejects anything else", () => {
+  assert.equal(booleanSetting("AUTH_REQUIRED", undefined, false), false);
+  assert.equal(booleanSetting("AUTH_REQUIRED", " TRUE ", false), true);
+  assert.equal(booleanSetting("AUTH_REQUIRED", "false", true), false);
+  assert.throws(() => booleanSetting("AUTH_REQUIRED", "yes", false), /AUTH_REQUIRED must be true or false/);
+});
@@ -0,0 +1,32 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import { applyContentChange, CONTENT_COLLECTIONS, ContentError, findRecord, isContentCollection } from "../src/contentAdmin.js";
+import { CC_JSON } from "./helpers.js";
+
+test("isContentCollection accepts collections and ignores Object.prototype names", () => {
+  for (const name of Object.keys(CONTENT_COLLECTIONS)) {
+    assert.ok(isContentCollection(name), name);
+  }
+  for (const name of ["constructor", "toString", "__proto__", "hasOwnProperty"]) {
+    assert.equal(isContentCollection(name), false, name);
+  }
+});
+
+test("events with the same name on different dates are separate records", () => {
+  const raw = JSON.parse(readFileSync(CC_JSON, "utf-8"));
+  const event = raw.organization.upcoming_events[0];
+  const nextYear = { ...event, date: `${Number(event.date.slice(0, 4)) + 1}${event.date.slice(4)}` };
+  const created = applyContentChange(raw, "events", "create", undefined, nextYear);
+  assert.equal(created.key, `${nextYear.date} ${event.name}`);
+  assert.throws(() => applyContentChange(raw, "events", "create", undefined, nextYear), (error: ContentError) => error.status === 409);
+
+  applyContentChange(raw, "events", "patch", created.key, { description: "Second year" });
+  assert.equal((findRecord(raw, "events", created.key) as { description: string }).description, "Second year");
+  assert.notEqual((findRecord(raw, "events", `${event.date} ${event.name}`) as { description: string }).description, "Second year");
+
+  applyContentChange(raw, "events", "delete", `${event.date} ${event.name}`, undefined);
+  assert.equal(findRecord(raw, "events", `${event.date} ${event.name}`), null);
+  assert.ok(findRecord(raw, "events", created.key));
+  assert.throws(() => applyContentChange(raw, "events", "delete", event.name, undefined), (error: ContentError) => error.status === 404);
+});
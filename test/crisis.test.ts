@@ -0,0 +1,45 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { detectUrgentNeeds } from "../src/crisis.js";
+import type { UrgentNeed } from "../src/schema.js";
+
+const CASES: [string, UrgentNeed[]][] = [
+  // Needs, in English
+  ["I want to kill myself", ["safety"]],
+  ["my boyfriend hits me", ["safety"]],
+  ["I'm not safe at home", ["safety"]],
+  ["I don't feel safe with my husband", ["safety"]],
+  ["I have nowhere to sleep tonight", ["shelter"]],
+  ["we're sleeping in our car", ["shelter"]],
+  ["I just got evicted", ["shelter"]],
+  ["I need a bed for tonight", ["shelter"]],
+  ["I haven't eaten in two days", ["food"]],
+  ["my kids are hungry", ["food"]],
+  ["where can i get food today", ["food"]],
+  ["we ran out of food", ["food"]],
+  ["he threatened to kill me and I have nowhere to go", ["safety", "shelter"]],
+  ["I'm homeless and want to volunteer", ["shelter"]],
+  // Needs, in Spanish
+  ["tengo hambre y no tengo donde dormir", ["shelter", "food"]],
+  ["¿Dónde puedo conseguir comida?", ["food"]],
+  ["mis hijos tienen hambre", ["food"]],
+  ["dormimos en el carro", ["shelter"]],
+  ["mi esposo me pega", ["safety"]],
+  ["no me siento segura en casa", ["safety"]],
+  // Ordinary questions
+  ["hit me up with volunteer shifts", []],
+  ["why are used car seats not safe to donate", []],
+  ["looking for food drive volunteer opportunities", []],
+  ["where can i get food shelf volunteer hours", []],
+  ["I need a bed frame donation drop off", []],
+  ["homeless shelter Minneapolis", []],
+  ["do you accept food donations", []],
+  ["quiero donar comida", []],
+  ["busco oportunidades de voluntariado", []],
+];
+
+for (const [text, needs] of CASES) {
+  test(`detectUrgentNeeds(${JSON.stringify(text)})`, () => {
+    assert.deepEqual(detectUrgentNeeds(text), needs);
+  });
+}
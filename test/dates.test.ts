@@ -0,0 +1,91 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { connectTestServer, resultText } from "./helpers.js";
+
+// Fixed instants, as UTC; CC.json times are America/Chicago (UTC-6 in winter)
+const MONDAY_MORNING = "2025-12-01T15:00:00Z"; // Mon Dec 1, 9:00am
+const MONDAY_NIGHT = "2025-12-02T03:00:00Z"; // Mon Dec 1, 9:00pm
+const MID_DECEMBER = "2025-12-15T18:00:00Z";
+const NEXT_YEAR = "2026-01-05T18:00:00Z";
+
+const eventNames = (result: { structuredContent?: Record<string, unknown> }) =>
+  (result.structuredContent?.events as { name: string }[]).map((event) => event.name);
+
+test("get_upcoming_events lists only events on or after today", async () => {
+  const early = await connectTestServer({ now: MONDAY_MORNING });
+  const result = await early.callTool("get_upcoming_events");
+  assert.deepEqual(eventNames(result), ["Spirit of the Season", "Giving Tree at Mall of America"]);
+  assert.match(resultText(result), /December 11, 2025 \(in 10 days\)/);
+  for (const event of result.structuredContent?.events as Record<string, unknown>[]) {
+    assert.equal(event.translations, undefined);
+  }
+  await early.close();
+
+  const mid = await connectTestServer({ now: MID_DECEMBER });
+  assert.deepEqual(eventNames(await mid.callTool("get_upcoming_events")), ["Giving Tree at Mall of America"]);
+  await mid.close();
+
+  const late = await connectTestServer({ now: NEXT_YEAR });
+  assert.deepEqual(eventNames(await late.callTool("get_upcoming_events")), []);
+  await late.close();
+});
+
+test("export_calendar finds upcoming events but not past ones", async () => {
+  const early = await connectTestServer({ now: MONDAY_MORNING });
+  const upcoming = await early.callTool("export_calendar", { event: "Spirit of the Season" });
+  assert.ok(!upcoming.isError);
+  assert.match(resultText(upcoming), /https:\/\/cctc\.example\/calendar\.ics\?event=/);
+  await early.close();
+
+  const late = await connectTestServer({ now: NEXT_YEAR });
+  const past = await late.callTool("export_calendar", { event: "Spirit of the Season" });
+  assert.equal(past.isError, true);
+  assert.match(resultText(past), /No upcoming event matching/);
+  await late.close();
+});
+
+test("next shifts start from the current local time", async () => {
+  const args = { query: "Dinner Meal Service at Higher Ground Minneapolis", limit: 1 };
+
+  const morning = await connectTestServer({ now: MONDAY_MORNING });
+  assert.match(resultText(await morning.callTool("get_volunteer_opportunities", args)), /Next shifts: Mon, Dec 1, 5:00pm/);
+  await morning.close();
+
+  // Monday's dinner shift is over by 9pm
+  const night = await connectTestServer({ now: MONDAY_NIGHT });
+  assert.match(resultText(await night.callTool("get_volunteer_opportunities", args)), /Next shifts: Tue, Dec 2, 5:00pm/);
+  await night.close();
+});
+
+test("find_nearby_locations reports open status at the current time", async () => {
+  const statusOf = async (now: string) => {
+    const server = await connectTestServer({ now });
+    const result = await server.callTool("find_nearby_locations", { near_zip: "55107" });
+    await server.close();
+    const locations = result.structuredContent?.locations as { name: string; status: { open_now: boolean } }[];
+    return locations.find((location) => location.name === "Catholic Charities Distribution Center")?.status;
+  };
+
+  assert.equal((await statusOf(MONDAY_MORNING))?.open_now, true);
+  assert.equal((await statusOf(MONDAY_NIGHT))?.open_now, false);
+});
+
+test("available_on dates that have passed match no shifts", async () => {
+  const count = async (now: string, available_on: string) => {
+    const server = await connectTestServer({ now });
+    const result = await server.callTool("get_volunteer_opportunities", { available_on, include_flexible: false });
+    await server.close();
+    return result.structuredContent?.total_count as number;
+  };
+
+  assert.ok((await count(MONDAY_MORNING, "2025-12-01")) > 0);
+  assert.equal(await count(MONDAY_MORNING, "2025-11-24"), 0);
+  // By 9pm Monday's shifts are over too
+  assert.equal(await count(MONDAY_NIGHT, "2025-12-01"), 0);
+
+  const server = await connectTestServer({ now: MONDAY_MORNING });
+  const screened = await server.callTool("screen_volunteer_eligibility", { age: 30, available_on: "2025-11-24" });
+  const results = screened.structuredContent?.results as { matching_shifts?: unknown[] }[];
+  assert.ok(results.every((result) => result.matching_shifts === undefined));
+  await server.close();
+});
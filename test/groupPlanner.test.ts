@@ -0,0 +1,65 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import { parseCCData } from "../src/schema.js";
+import { parseVolunteerPolicies, screenOpportunities } from "../src/screening.js";
+import { formatGroupOption, planGroupVolunteering } from "../src/groupPlanner.js";
+import { corporateServiceDayPrompt } from "../src/prompts.js";
+import { CC_JSON } from "./helpers.js";
+
+const ccData = parseCCData(JSON.parse(readFileSync(CC_JSON, "utf-8")));
+const { general_info: generalInfo, opportunities } = ccData.volunteer;
+const now = new Date("2025-12-01T15:00:00Z");
+
+const plan = (group_size: number) =>
+  planGroupVolunteering(opportunities, { group_size, min_age: 18 }, parseVolunteerPolicies(generalInfo.policies), generalInfo.main_contact, now);
+
+test("a group that fits one opportunity gets a single plan", () => {
+  const result = plan(8);
+  assert.equal(result.plan, "single");
+  assert.ok(result.options.every((option) => option.assigned === 8));
+});
+
+test("a large group that can be split is assigned in teams", () => {
+  const result = plan(30);
+  assert.equal(result.plan, "special_arrangement");
+  assert.equal(result.options.reduce((total, option) => total + (option.assigned ?? 0), 0), 30);
+});
+
+test("a group too big to split leaves team sizes to the coordinator", () => {
+  const result = plan(500);
+  assert.equal(result.plan, "special_arrangement");
+  assert.ok(result.options.length > 0);
+  for (const option of result.options) {
+    assert.equal(option.assigned, undefined);
+    const line = formatGroupOption(option, result.plan);
+    assert.doesNotMatch(line, /\b0 people/);
+    assert.match(line, /contact the coordinator/);
+  }
+  assert.ok(result.inquiry_email);
+});
+
+test("the corporate service day prompt never offers 0-person teams", () => {
+  const text = corporateServiceDayPrompt(ccData, { group_size: "500" }, now);
+  assert.doesNotMatch(text, /\b0 people/);
+});
+
+test("no one under the supervised minimum age is eligible, whatever an opportunity allows", () => {
+  const policies = parseVolunteerPolicies(generalInfo.policies);
+  assert.equal(policies.supervised_min_age, 14);
+  // An opportunity that would take younger children on its own
+  const lenient = opportunities.map((opp) => ({
+    ...opp,
+    requirements: { ...opp.requirements, age_minimum: 10, group_friendly: true, background_check: false, skills: [] },
+  }));
+
+  const [result] = screenOpportunities(lenient, { age: 12 }, policies, now);
+  assert.equal(result.status, "ineligible");
+  assert.equal(result.rules[0].rule, "age");
+  assert.equal(result.rules[0].policy, policies.text.supervised);
+  assert.match(result.rules[0].message, /at least 14/);
+  assert.equal(screenOpportunities(lenient, { age: 14 }, policies, now)[0].status, "eligible_with_conditions");
+
+  const group = planGroupVolunteering(lenient, { group_size: 6, min_age: 12 }, policies, generalInfo.main_contact, now);
+  assert.deepEqual(group.options, []);
+});
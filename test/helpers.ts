@@ -0,0 +1,60 @@
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { fixedClock } from "../src/clock.js";
+import { DataStore } from "../src/dataStore.js";
+import { JsonFileProvider, type DataProvider } from "../src/dataProviders.js";
+import { InquiryStore } from "../src/inquiryStore.js";
+import { createServer } from "../src/server.js";
+
+export const ROOT = join(dirname(fileURLToPath(import.meta.url)), "..");
+export const CC_JSON = join(ROOT, "CC.json");
+
+// A fresh temporary directory for files a test writes
+export const tempDir = () => mkdtempSync(join(tmpdir(), "cctc-test-"));
+
+export interface TestServerOptions {
+  provider?: DataProvider;
+  // ISO instant the server's clock is frozen at
+  now?: string;
+}
+
+/**
+ * An MCP client connected in memory to a server over CC.json (or
+ * `provider`), with inquiries written to a temporary directory.
+ */
+export async function connectTestServer({ provider = new JsonFileProvider(CC_JSON), now = "2025-12-01T15:00:00Z" }: TestServerOptions = {}) {
+  const dataStore = new DataStore(provider);
+  const inquiryStore = new InquiryStore(join(tempDir(), "inquiries.jsonl"));
+  const server = createServer({
+    dataStore,
+    inquiryStore,
+    widgets: { volunteer: "<html></html>", donation: "<html></html>" },
+    publicBaseUrl: () => "https://cctc.example",
+    clock: fixedClock(now),
+  });
+  const client = new Client({ name: "test", version: "1.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+  const callTool = async (name: string, args: Record<string, unknown> = {}) =>
+    (await client.callTool({ name, arguments: args })) as CallToolResult;
+
+  return {
+    client,
+    dataStore,
+    inquiryStore,
+    callTool,
+    close: () => client.close(),
+  };
+}
+
+// The text of a tool result's first content block
+export const resultText = (result: CallToolResult) => {
+  const [first] = result.content;
+  return first?.type === "text" ? first.text : "";
+};
@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { appendFileSync, readFileSync } from "fs";
+import { join } from "path";
+import { InquiryStore } from "../src/inquiryStore.js";
+import { tempDir } from "./helpers.js";
+
+const input = (name: string) => ({
+  name,
+  email: `${name.toLowerCase()}@example.com`,
+  opportunity_id: "warehouse",
+  group_size: 1,
+  availability: "Saturdays",
+});
+
+test("marking an inquiry handled moves it off the pending list", () => {
+  const path = join(tempDir(), "inquiries.jsonl");
+  const store = new InquiryStore(path);
+  const first = store.add(input("Ana"), "Warehouse", new Date("2025-12-01T15:00:00Z"));
+  const second = store.add(input("Ben"), "Warehouse", new Date("2025-12-01T16:00:00Z"));
+
+  const handled = store.setStatus(first.confirmation_id, "handled", "coordinator", new Date("2025-12-02T15:00:00Z"));
+  assert.equal(handled?.status, "handled");
+  assert.equal(handled?.updated_by, "coordinator");
+  assert.equal(handled?.updated_at, "2025-12-02T15:00:00.000Z");
+
+  assert.deepEqual(store.list("pending").map((inquiry) => inquiry.confirmation_id), [second.confirmation_id]);
+  assert.deepEqual(store.list("handled").map((inquiry) => inquiry.confirmation_id), [first.confirmation_id]);
+  assert.equal(store.list().length, 2);
+});
+
+test("setStatus returns undefined for unknown IDs and keeps other lines as they were", () => {
+  const path = join(tempDir(), "inquiries.jsonl");
+  const store = new InquiryStore(path);
+  const inquiry = store.add(input("Ana"), "Warehouse", new Date("2025-12-01T15:00:00Z"));
+  appendFileSync(path, "{not json\n");
+  const before = readFileSync(path, "utf-8");
+
+  assert.equal(store.setStatus("VI-20251201-NOPE22", "handled", "coordinator", new Date()), undefined);
+  assert.equal(readFileSync(path, "utf-8"), before);
+
+  store.setStatus(inquiry.confirmation_id, "handled", "coordinator", new Date());
+  assert.match(readFileSync(path, "utf-8"), /\n\{not json\n$/);
+});
@@ -0,0 +1,202 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { copyFileSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import initSqlJs from "sql.js";
+import { parse, stringify } from "yaml";
+import { createDataProvider, writeDirectory, writeSqlite, type DataProviderKind } from "../src/dataProviders.js";
+import type { DataStore } from "../src/dataStore.js";
+import { DataValidationError, parseCCData } from "../src/schema.js";
+import { CC_JSON, connectTestServer, resultText, tempDir } from "./helpers.js";
+
+const content = JSON.parse(readFileSync(CC_JSON, "utf-8"));
+const first = content.volunteer.opportunities[0];
+
+interface Fixture {
+  // Write CC.json's content in this provider's format and return its path
+  create(dir: string): Promise<string>;
+  // Retitle the first opportunity the way someone editing by hand would
+  retitle(path: string, title: string): Promise<void>;
+}
+
+const FIXTURES: Record<DataProviderKind, Fixture> = {
+  json: {
+    async create(dir) {
+      const path = join(dir, "CC.json");
+      copyFileSync(CC_JSON, path);
+      return path;
+    },
+    async retitle(path, title) {
+      writeFileSync(path, readFileSync(path, "utf-8").replace(`"title": "${first.title}"`, `"title": "${title}"`));
+    },
+  },
+  directory: {
+    async create(dir) {
+      const path = join(dir, "content");
+      writeDirectory(content, path);
+      return path;
+    },
+    async retitle(path, title) {
+      const file = join(path, "opportunities", readdirSync(join(path, "opportunities")).sort()[0]);
+      writeFileSync(file, stringify({ ...parse(readFileSync(file, "utf-8")), title }));
+    },
+  },
+  sqlite: {
+    async create(dir) {
+      const path = join(dir, "cc.sqlite");
+      await writeSqlite(content, path);
+      return path;
+    },
+    async retitle(path, title) {
+      const db = new (await initSqlJs()).Database(readFileSync(path));
+      db.run("UPDATE records SET data = ? WHERE collection = 'opportunities' AND key = ?", [
+        JSON.stringify({ ...first, title }),
+        first.id,
+      ]);
+      writeFileSync(path, db.export());
+      db.close();
+    },
+  },
+};
+
+// Resolves on the store's next successful reload
+const nextReload = (dataStore: DataStore) =>
+  new Promise<void>((resolve) => {
+    const stop = dataStore.onReload(() => {
+      stop();
+      resolve();
+    });
+  });
+
+for (const [kind, fixture] of Object.entries(FIXTURES) as [DataProviderKind, Fixture][]) {
+  describe(`${kind} provider`, () => {
+    const setup = async () => {
+      const path = await fixture.create(tempDir());
+      const provider = await createDataProvider(kind, path, tempDir());
+      return { path, ...(await connectTestServer({ provider })) };
+    };
+
+    test("serves tool calls from the loaded content", async () => {
+      const { callTool, close } = await setup();
+      const text = resultText(await callTool("get_volunteer_opportunities"));
+      assert.ok(text.includes(first.title));
+      await close();
+    });
+
+    test("picks up edits made on disk", { timeout: 5000 }, async () => {
+      const { path, dataStore, callTool, close } = await setup();
+      dataStore.watch(20);
+      try {
+        const reloaded = nextReload(dataStore);
+        await fixture.retitle(path, "Edited Outside The Server");
+        await reloaded;
+        const text = resultText(await callTool("get_volunteer_opportunities"));
+        assert.match(text, /Edited Outside The Server/);
+      } finally {
+        dataStore.unwatch();
+        await close();
+      }
+    });
+
+    test("saves updates where a fresh provider loads them", async () => {
+      const { path, dataStore, callTool, close } = await setup();
+      dataStore.update((raw) => {
+        raw.volunteer.opportunities[0].title = "Saved Through The Store";
+      });
+      assert.match(resultText(await callTool("get_volunteer_opportunities")), /Saved Through The Store/);
+      await close();
+
+      const reopened = await connectTestServer({ provider: await createDataProvider(kind, path, tempDir()) });
+      const text = resultText(await reopened.callTool("get_volunteer_opportunities"));
+      assert.match(text, /Saved Through The Store/);
+      assert.ok(!text.includes(first.title));
+      assert.equal(reopened.dataStore.current.volunteer.opportunities.length, content.volunteer.opportunities.length);
+      await reopened.close();
+    });
+
+    test("rejects a duplicate opportunity id without saving", async () => {
+      const { path, dataStore, close } = await setup();
+      assert.throws(
+        () =>
+          dataStore.update((raw) => {
+            raw.volunteer.opportunities.push({ ...first, title: "Duplicate" });
+          }),
+        (error: unknown) => error instanceof DataValidationError && /Duplicate opportunity id/.test(error.message)
+      );
+      await close();
+
+      const reopened = await connectTestServer({ provider: await createDataProvider(kind, path, tempDir()) });
+      assert.equal(reopened.dataStore.current.volunteer.opportunities.length, content.volunteer.opportunities.length);
+      await reopened.close();
+    });
+
+    test("saves nothing when beforeSave throws", async () => {
+      const { path, dataStore, close } = await setup();
+      assert.throws(() =>
+        dataStore.update(
+          (raw) => {
+            raw.volunteer.opportunities[0].title = "Never Saved";
+          },
+          () => {
+            throw new Error("audit log unavailable");
+          }
+        )
+      );
+      assert.equal(dataStore.current.volunteer.opportunities[0].title, first.title);
+      await close();
+
+      const reopened = await connectTestServer({ provider: await createDataProvider(kind, path, tempDir()) });
+      assert.equal(reopened.dataStore.current.volunteer.opportunities[0].title, first.title);
+      await reopened.close();
+    });
+  });
+}
+
+test("directory provider keeps a renamed record's position", async () => {
+  const dir = join(tempDir(), "content");
+  writeDirectory(content, dir);
+  const { dataStore, close } = await connectTestServer({ provider: await createDataProvider("directory", dir, tempDir()) });
+  const before = readdirSync(join(dir, "opportunities")).sort();
+
+  dataStore.update((raw) => {
+    raw.volunteer.opportunities[0].id = "renamed-opportunity";
+  });
+  const after = readdirSync(join(dir, "opportunities")).sort();
+  assert.equal(after.length, before.length);
+  assert.equal(after[0], `${before[0].match(/^\d+/)![0]}-renamed-opportunity.yaml`);
+  assert.deepEqual(after.slice(1), before.slice(1));
+  assert.equal(dataStore.current.volunteer.opportunities[0].id, "renamed-opportunity");
+  await close();
+});
+
+test("directory provider orders records by number past 99", async () => {
+  const dir = join(tempDir(), "content");
+  writeDirectory(content, dir);
+  // Lexically "100-" sorts between "10-" and "11-"
+  writeFileSync(join(dir, "opportunities", "100-late.yaml"), stringify({ ...first, id: "late" }));
+  const { dataStore, close } = await connectTestServer({ provider: await createDataProvider("directory", dir, tempDir()) });
+  assert.equal(dataStore.current.volunteer.opportunities.at(-1)!.id, "late");
+
+  dataStore.update((raw) => {
+    raw.volunteer.opportunities.push({ ...first, id: "later" });
+  });
+  assert.ok(readdirSync(join(dir, "opportunities")).includes("101-later.yaml"));
+  assert.deepEqual(dataStore.current.volunteer.opportunities.slice(-2).map((opp) => opp.id), ["late", "later"]);
+  await close();
+});
+
+test("every keyed collection rejects duplicates", () => {
+  const withDuplicate = (change: (raw: any) => void) => {
+    const raw = structuredClone(content);
+    change(raw);
+    return () => parseCCData(raw);
+  };
+  const [service] = content.organization.services;
+  const [location] = content.organization.locations;
+  const [event] = content.organization.upcoming_events;
+  assert.throws(withDuplicate((raw) => raw.organization.services.push(service)), /Duplicate service name/);
+  assert.throws(withDuplicate((raw) => raw.organization.locations.push(location)), /Duplicate location name/);
+  assert.throws(withDuplicate((raw) => raw.organization.upcoming_events.push(event)), /Duplicate event/);
+  // Same name on another date is a different event
+  assert.doesNotThrow(withDuplicate((raw) => raw.organization.upcoming_events.push({ ...event, date: "2099-01-01" })));
+});
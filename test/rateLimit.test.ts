@@ -0,0 +1,24 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseRateLimitConfig } from "../src/rateLimit.js";
+import { TOOL_NAMES } from "../src/server.js";
+import { connectTestServer } from "./helpers.js";
+
+test("TOOL_NAMES lists every registered tool", async () => {
+  const { client, close } = await connectTestServer();
+  const { tools } = await client.listTools();
+  assert.deepEqual(tools.map((tool) => tool.name).sort(), [...TOOL_NAMES].sort());
+  await close();
+});
+
+test("RATE_LIMIT_TOOLS sets per-tool budgets", () => {
+  const config = parseRateLimitConfig({ RATE_LIMIT_TOOLS: "submit_volunteer_inquiry=5, export_calendar = 20" }, TOOL_NAMES);
+  assert.deepEqual(config.tools, { submit_volunteer_inquiry: 5, export_calendar: 20 });
+});
+
+test("RATE_LIMIT_TOOLS rejects missing budgets and unknown tools", () => {
+  for (const value of ["search_org_info=", "search_org_info", "search_org_info=0", "=5"]) {
+    assert.throws(() => parseRateLimitConfig({ RATE_LIMIT_TOOLS: value }, TOOL_NAMES), /RATE_LIMIT_TOOLS/, value);
+  }
+  assert.throws(() => parseRateLimitConfig({ RATE_LIMIT_TOOLS: "search_org_inf=5" }, TOOL_NAMES), /unknown tool "search_org_inf"/);
+});
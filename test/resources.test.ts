@@ -0,0 +1,31 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { parseCCData } from "../src/schema.js";
+import { readDataResource } from "../src/resources.js";
+import { CC_JSON, connectTestServer } from "./helpers.js";
+
+const ccData = parseCCData(JSON.parse(readFileSync(CC_JSON, "utf-8")));
+
+test("readDataResource resolves collections and records", () => {
+  assert.ok(readDataResource(ccData, "cctc://opportunities"));
+  const id = ccData.volunteer.opportunities[0].id;
+  assert.ok(readDataResource(ccData, `cctc://opportunities/${id}`));
+  assert.equal(readDataResource(ccData, "cctc://opportunities/no-such-record"), null);
+});
+
+test("readDataResource ignores Object.prototype names", () => {
+  for (const uri of ["cctc://toString", "cctc://constructor/x", "cctc://__proto__", "cctc://hasOwnProperty/y"]) {
+    assert.equal(readDataResource(ccData, uri), null, uri);
+  }
+});
+
+test("resources/subscribe rejects URIs that don't resolve", async () => {
+  const { client, close } = await connectTestServer();
+  await client.subscribeResource({ uri: "cctc://opportunities" });
+  for (const uri of ["cctc://toString", "cctc://opportunities/no-such-record", "https://example.com/"]) {
+    await assert.rejects(client.subscribeResource({ uri }), (error: { code?: number }) => error.code === ErrorCode.InvalidParams, uri);
+  }
+  await close();
+});
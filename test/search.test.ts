@@ -0,0 +1,22 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import { localizeData } from "../src/localize.js";
+import { parseCCData } from "../src/schema.js";
+import { getSearchIndex, tokenize, warmSearchIndexes } from "../src/search.js";
+import { CC_JSON } from "./helpers.js";
+
+test("tokenize strips accents instead of splitting on them", () => {
+  assert.deepEqual(tokenize("niños"), tokenize("ninos"));
+  assert.equal(tokenize("niños").length, 1);
+  assert.deepEqual(tokenize("Ropa para niños y bebés"), tokenize("ropa para ninos y bebes"));
+  assert.deepEqual(tokenize("Café"), tokenize("cafe"));
+});
+
+test("warmSearchIndexes builds the indexes the tools query", () => {
+  const data = parseCCData(JSON.parse(readFileSync(CC_JSON, "utf-8")));
+  const warmed = warmSearchIndexes(data);
+  // Tools search the localized snapshot, not the raw data
+  assert.equal(warmed, getSearchIndex(localizeData(data), "en"));
+  assert.notEqual(warmed, getSearchIndex(data));
+});
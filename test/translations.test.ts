@@ -0,0 +1,105 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import { messages, type Messages } from "../src/i18n.js";
+import { localizeData } from "../src/localize.js";
+import { LanguageSchema, parseCCData, type CCData } from "../src/schema.js";
+import { CC_JSON, connectTestServer, resultText } from "./helpers.js";
+
+const ccData = parseCCData(JSON.parse(readFileSync(CC_JSON, "utf-8")));
+const LANGUAGES = LanguageSchema.options.filter((language) => language !== "en");
+
+type Translated = { translations?: Partial<Record<string, Record<string, unknown>>> };
+
+/**
+ * Every translated record in CC.json and the keys each language must
+ * provide, mapped to the English field they translate. Keys for optional
+ * English fields (such as `restrictions`) are only required when the
+ * English record has a value.
+ */
+const REQUIRED: { name: string; records: (data: CCData) => Translated[]; keys: Record<string, string> }[] = [
+  {
+    name: "volunteer.opportunities",
+    records: (data) => data.volunteer.opportunities,
+    keys: { title: "title", description: "description", schedule_details: "schedule.details" },
+  },
+  { name: "volunteer.general_info", records: (data) => [data.volunteer.general_info], keys: { policies: "policies" } },
+  { name: "donations.online", records: (data) => [data.donations.online], keys: { types: "types", notes: "notes" } },
+  {
+    name: "donations.in_kind.accepted_items",
+    records: (data) => data.donations.in_kind.accepted_items,
+    keys: { category: "category", details: "details", restrictions: "restrictions" },
+  },
+  { name: "donations.in_kind", records: (data) => [data.donations.in_kind], keys: { not_accepted: "not_accepted", policies: "policies" } },
+  { name: "donations.vehicle", records: (data) => [data.donations.vehicle], keys: { process_description: "process_description" } },
+  { name: "organization.services", records: (data) => data.organization.services, keys: { name: "name", description: "description" } },
+  { name: "organization.upcoming_events", records: (data) => data.organization.upcoming_events, keys: { name: "name", description: "description" } },
+  {
+    name: "organization",
+    records: (data) => [data.organization],
+    keys: { mission: "mission", service_area: "service_area", history: "history", contact_hours: "contact.hours" },
+  },
+  { name: "crisis", records: (data) => [data.crisis], keys: { notice: "notice" } },
+  { name: "crisis.lines", records: (data) => data.crisis.lines, keys: { available: "available", description: "description" } },
+  { name: "crisis.needs", records: (data) => Object.values(data.crisis.needs), keys: { guidance: "guidance" } },
+];
+
+// Value at a dotted path such as "schedule.details"
+const valueAt = (record: unknown, path: string) =>
+  path.split(".").reduce<unknown>((value, part) => (value as Record<string, unknown> | null | undefined)?.[part], record);
+
+for (const language of LANGUAGES) {
+  test(`CC.json has ${language} translations for every translated field`, () => {
+    const missing: string[] = [];
+    for (const { name, records, keys } of REQUIRED) {
+      records(ccData).forEach((record, idx) => {
+        for (const [key, path] of Object.entries(keys)) {
+          const english = valueAt(record, path);
+          if (english === null || english === undefined) continue;
+          if (record.translations?.[language]?.[key] === undefined) missing.push(`${name}[${idx}].${key}`);
+        }
+      });
+    }
+    assert.deepEqual(missing, []);
+  });
+}
+
+test("every interface catalog has exactly the English keys", () => {
+  const english = Object.keys(messages("en")).sort();
+  for (const language of LANGUAGES) {
+    assert.deepEqual(Object.keys(messages(language)).sort(), english, language);
+  }
+});
+
+// A call to each tool that takes a language, with the English text it must not fall back to
+const TOOL_CALLS: { tool: string; args: Record<string, unknown>; expected: (m: Messages) => string }[] = [
+  { tool: "screen_volunteer_eligibility", args: { age: 15 }, expected: (m) => m.eligibilityHeading },
+  { tool: "plan_group_volunteering", args: { group_size: 30, min_age: 16 }, expected: (m) => m.draftInquiryEmail },
+  {
+    tool: "submit_volunteer_inquiry",
+    args: { name: "Ana", email: "ana@example.com", opportunity_id: ccData.volunteer.opportunities[0].id, availability: "Saturdays" },
+    expected: (m) => m.inquiryReceived("Ana"),
+  },
+  { tool: "check_donation_item", args: { item: "used winter coat", condition: "used" }, expected: (m) => m.verdicts.rejected },
+  { tool: "find_nearby_locations", args: { near_zip: "55408" }, expected: (m) => m.nearestLocations(m.nearZip("55408")) },
+  { tool: "get_upcoming_events", args: {}, expected: (m) => m.upcomingEventsHeading },
+  { tool: "export_calendar", args: {}, expected: (m) => m.downloadCalendar("") },
+];
+
+for (const language of LANGUAGES) {
+  test(`tools answer in ${language} and read translated content`, async () => {
+    const { callTool, close } = await connectTestServer();
+    const m = messages(language);
+    for (const { tool, args, expected } of TOOL_CALLS) {
+      const result = await callTool(tool, { ...args, language });
+      const text = resultText(result);
+      assert.ok(text.includes(expected(m)), `${tool}: ${text}`);
+      assert.ok(!text.includes(expected(messages("en"))), `${tool} fell back to English`);
+      assert.ok(!JSON.stringify(result).includes('"translations"'), `${tool} leaked translations`);
+    }
+    const title = localizeData(ccData, language).volunteer.opportunities[0].title;
+    assert.notEqual(title, ccData.volunteer.opportunities[0].title);
+    assert.ok(resultText(await callTool("screen_volunteer_eligibility", { language })).includes(title));
+    await close();
+  });
+}
@@ -0,0 +1,334 @@
+import React, { useState, useEffect } from 'react';
+import type { DonationOptionsOutput, InKindCategory, Language } from '../src/schema';
+import { widgetMessages, type WidgetMessages } from '../src/i18n';
+import { splitItems } from '../src/donationCheck';
+import { formatOpeningHours } from '../src/hours';
+import { useOpenAiGlobal } from './openai';
+
+// Shared with the server so the widget always matches the tool's structuredContent
+type ToolOutput = DonationOptionsOutput;
+
+const itemKey = (category: InKindCategory, item: string) => `${category.category}: ${item}`;
+
+const primaryButton = (backgroundColor: string): React.CSSProperties => ({
+  padding: '8px 16px',
+  fontSize: '14px',
+  fontWeight: '500',
+  color: '#fff',
+  backgroundColor,
+  border: 'none',
+  borderRadius: '6px',
+  cursor: 'pointer'
+});
+
+const secondaryButton: React.CSSProperties = {
+  padding: '6px 12px',
+  fontSize: '13px',
+  fontWeight: '500',
+  color: '#374151',
+  backgroundColor: '#f3f4f6',
+  border: '1px solid #d1d5db',
+  borderRadius: '6px',
+  cursor: 'pointer'
+};
+
+const card: React.CSSProperties = {
+  border: '1px solid #e5e7eb',
+  borderRadius: '8px',
+  padding: '16px',
+  backgroundColor: '#fff',
+  marginBottom: '12px'
+};
+
+const sectionHeading: React.CSSProperties = {
+  margin: '0 0 8px 0',
+  fontSize: '15px',
+  fontWeight: '600',
+  color: '#111827'
+};
+
+function ContactLinks({ phone, email }: { phone: string; email?: string }) {
+  return (
+    <>
+      <a
+        href={`tel:${phone}`}
+        onClick={(e) => {
+          e.preventDefault();
+          window.openai?.openUrl(`tel:${phone}`);
+        }}
+        style={{ color: '#2563eb', cursor: 'pointer' }}
+      >
+        {phone}
+      </a>
+      {email && (
+        <>
+          {' | '}
+          <a
+            href={`mailto:${email}`}
+            onClick={(e) => {
+              e.preventDefault();
+              window.openai?.openUrl(`mailto:${email}`);
+            }}
+            style={{ color: '#2563eb', cursor: 'pointer' }}
+          >
+            {email}
+          </a>
+        </>
+      )}
+    </>
+  );
+}
+
+type InKindOutput = Extract<ToolOutput, { type: 'in_kind' }>['in_kind'];
+
+function InKindOptions({ data, language, m }: { data: InKindOutput; language: Language; m: WidgetMessages }) {
+  const [checked, setChecked] = useState<string[]>([]);
+  const [expanded, setExpanded] = useState<string[]>([]);
+
+  useEffect(() => {
+    // Restore the checklist if the widget is re-rendered
+    if (window.openai?.widgetState) {
+      setChecked(window.openai.widgetState.checked || []);
+      setExpanded(window.openai.widgetState.expanded || []);
+    }
+  }, []);
+
+  // Save checklist state
+  useEffect(() => {
+    if (window.openai?.setWidgetState) {
+      window.openai.setWidgetState({ checked, expanded });
+    }
+  }, [checked, expanded]);
+
+  const toggle = (list: string[], setList: (next: string[]) => void, key: string) =>
+    setList(list.includes(key) ? list.filter(k => k !== key) : [...list, key]);
+
+  return (
+    <>
+      {/* Accepted items checklist */}
+      <div style={card}>
+        <h3 style={sectionHeading}>{m.currentlyAccepting}</h3>
+        <p style={{ margin: '0 0 12px 0', fontSize: '13px', color: '#6b7280' }}>
+          {m.checklistHint} {checked.length > 0 && m.itemsOnList(checked.length)}
+        </p>
+
+        {data.accepted_items.map((category) => {
+          const items = splitItems(category.details);
+          const isOpen = expanded.includes(category.category);
+          const checkedCount = items.filter(item => checked.includes(itemKey(category, item))).length;
+
+          return (
+            <div key={category.category} style={{ borderTop: '1px solid #e5e7eb', padding: '8px 0' }}>
+              <button
+                onClick={() => toggle(expanded, setExpanded, category.category)}
+                style={{
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  width: '100%',
+                  padding: '4px 0',
+                  fontSize: '14px',
+                  fontWeight: '600',
+                  color: '#111827',
+                  backgroundColor: 'transparent',
+                  border: 'none',
+                  cursor: 'pointer',
+                  textAlign: 'left'
+                }}
+              >
+                <span>{isOpen ? '▾' : '▸'} {category.category}</span>
+                <span style={{ fontWeight: '400', color: '#6b7280', fontSize: '13px' }}>
+                  {checkedCount > 0 ? `${checkedCount}/${items.length}` : m.itemCount(items.length)}
+                </span>
+              </button>
+
+              {category.restrictions && (
+                <div style={{ fontSize: '12px', color: '#b45309', margin: '2px 0 0 16px' }}>
+                  {category.restrictions}
+                </div>
+              )}
+
+              {isOpen && (
+                <ul style={{ listStyle: 'none', margin: '8px 0 0 0', padding: '0 0 0 16px' }}>
+                  {items.map((item) => {
+                    const key = itemKey(category, item);
+                    return (
+                      <li key={key} style={{ fontSize: '13px', padding: '3px 0' }}>
+                        <label style={{ cursor: 'pointer', color: '#374151' }}>
+                          <input
+                            type="checkbox"
+                            checked={checked.includes(key)}
+                            onChange={() => toggle(checked, setChecked, key)}
+                            style={{ marginRight: '8px' }}
+                          />
+                          {item}
+                        </label>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+
+        <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', marginTop: '12px' }}>
+          {checked.length > 0 && (
+            <button onClick={() => setChecked([])} style={secondaryButton}>
+              {m.clearChecklist}
+            </button>
+          )}
+          <button onClick={() => window.openai?.openUrl(data.wishlist_url)} style={secondaryButton}>
+            {m.viewWishlist}
+          </button>
+        </div>
+      </div>
+
+      {/* Drop-off locations */}
+      <div style={card}>
+        <h3 style={sectionHeading}>{m.dropOffLocations}</h3>
+        {data.drop_off_locations.map((loc) => (
+          <div key={loc.name} style={{ fontSize: '13px', marginBottom: '8px', display: 'grid', gap: '4px' }}>
+            <strong style={{ fontSize: '14px' }}>{loc.name}</strong>
+            <div>
+              📍{' '}
+              <a
+                href={`https://maps.google.com/?q=${encodeURIComponent(loc.address)}`}
+                onClick={(e) => {
+                  e.preventDefault();
+                  window.openai?.openUrl(`https://maps.google.com/?q=${encodeURIComponent(loc.address)}`);
+                }}
+                style={{ color: '#2563eb', cursor: 'pointer' }}
+              >
+                {loc.address}
+              </a>
+            </div>
+            <div>
+              🕐 {formatOpeningHours(loc.opening_hours, language)}{' '}
+              <span style={{ fontWeight: '600', color: loc.status.open_now ? '#059669' : '#b45309' }}>
+                • {loc.status.summary}
+              </span>
+            </div>
+            <div>📞 <ContactLinks phone={loc.phone} email={loc.email} /></div>
+          </div>
+        ))}
+      </div>
+
+      {/* Not accepted and policies */}
+      <div style={{ ...card, backgroundColor: '#f9fafb' }}>
+        <h3 style={sectionHeading}>{m.notAccepted}</h3>
+        <ul style={{ margin: '0 0 12px 0', paddingLeft: '20px', fontSize: '13px', color: '#374151' }}>
+          {data.not_accepted.map(item => <li key={item}>{item}</li>)}
+        </ul>
+        <h3 style={sectionHeading}>{m.policies}</h3>
+        <ul style={{ margin: 0, paddingLeft: '20px', fontSize: '13px', color: '#374151' }}>
+          {data.policies.map(policy => <li key={policy}>{policy}</li>)}
+        </ul>
+      </div>
+    </>
+  );
+}
+
+export default function DonationOptions() {
+  const [data, setData] = useState<ToolOutput | null>(null);
+  const displayMode = useOpenAiGlobal('displayMode') || 'inline';
+  const m = widgetMessages(data?.language);
+
+  useEffect(() => {
+    if (window.openai && window.openai.toolOutput) {
+      setData(window.openai.toolOutput);
+    }
+  }, []);
+
+  if (!data) {
+    return <div style={{ padding: '16px' }}>{m.loadingDonations}</div>;
+  }
+
+  const { links } = data;
+  const isFullscreen = displayMode === 'fullscreen';
+
+  const handleShowInKind = () => {
+    if (window.openai?.sendFollowUpMessage) {
+      window.openai.sendFollowUpMessage(m.askInKind);
+    }
+  };
+
+  return (
+    <div style={{
+      fontFamily: 'system-ui, -apple-system, sans-serif',
+      padding: isFullscreen ? '24px' : '8px',
+      maxWidth: '100%',
+      height: '100%',
+      overflow: 'auto'
+    }}>
+      {data.type === 'online' && (
+        <div style={card}>
+          <h3 style={sectionHeading}>{m.giveOnline}</h3>
+          <p style={{ margin: '0 0 12px 0', fontSize: '14px', color: '#6b7280', lineHeight: '1.5' }}>
+            {data.online.notes}
+          </p>
+          <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap', marginBottom: '12px' }}>
+            {data.online.types.map((type) => (
+              <span
+                key={type}
+                style={{
+                  padding: '2px 10px',
+                  fontSize: '12px',
+                  color: '#065f46',
+                  backgroundColor: '#d1fae5',
+                  borderRadius: '999px'
+                }}
+              >
+                {type}
+              </span>
+            ))}
+          </div>
+          <div style={{ fontSize: '13px' }}>
+            <strong>{m.givingQuestions}</strong>{' '}
+            <ContactLinks phone={data.online.contact.phone} email={data.online.contact.email} />
+          </div>
+        </div>
+      )}
+
+      {data.type === 'in_kind' && <InKindOptions data={data.in_kind} language={data.language} m={m} />}
+
+      {data.type === 'vehicle' && (
+        <div style={card}>
+          <h3 style={sectionHeading}>{m.donateVehicleTitle}</h3>
+          <p style={{ margin: '0 0 12px 0', fontSize: '14px', color: '#6b7280', lineHeight: '1.5' }}>
+            {data.vehicle.process_description}
+          </p>
+          <div style={{ fontSize: '13px' }}>
+            <strong>📞 {m.call}:</strong> <ContactLinks phone={data.vehicle.phone} />
+          </div>
+        </div>
+      )}
+
+      {/* Giving actions */}
+      <div style={{
+        textAlign: 'center',
+        padding: '16px 12px',
+        borderTop: '1px solid #e5e7eb',
+        marginTop: '4px',
+        backgroundColor: '#f9fafb',
+        borderRadius: '8px'
+      }}>
+        <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', justifyContent: 'center' }}>
+          <button onClick={() => window.openai?.openUrl(links.online_donation_url)} style={primaryButton('#059669')}>
+            💝 {m.donateOnline}
+          </button>
+          <button onClick={() => window.openai?.openUrl(links.vehicle_donation_url)} style={primaryButton('#2563eb')}>
+            🚗 {m.donateVehicle}
+          </button>
+          {data.type !== 'in_kind' && (
+            <button onClick={handleShowInKind} style={secondaryButton}>
+              📦 {m.donateItems}
+            </button>
+          )}
+        </div>
+        <p style={{ margin: '12px 0 0 0', fontSize: '12px', color: '#6b7280' }}>
+          {m.vehicleByPhone(links.vehicle_phone)}
+        </p>
+      </div>
+    </div>
+  );
+}
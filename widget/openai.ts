@@ -0,0 +1,33 @@
+import { useSyncExternalStore } from 'react';
+
+// window.openai bridge shared by all widgets; toolOutput is the calling
+// tool's structuredContent
+export interface OpenAIGlobal<T = any> {
+  toolOutput: T;
+  sendFollowUpMessage: (message: string) => void;
+  openUrl: (url: string) => void;
+  callTool: (toolName: string, params: any) => Promise<any>;
+  setWidgetState: (state: any) => void;
+  widgetState: any;
+  displayMode: 'inline' | 'fullscreen' | 'pip';
+  maxHeight: number;
+}
+
+declare global {
+  interface Window {
+    openai: OpenAIGlobal;
+  }
+}
+
+// Custom hook to subscribe to window.openai global state
+export function useOpenAiGlobal<K extends keyof OpenAIGlobal>(key: K): OpenAIGlobal[K] {
+  return useSyncExternalStore(
+    (onChange) => {
+      const handleSetGlobal = () => onChange();
+      window.addEventListener('openai:setGlobal', handleSetGlobal);
+      return () => window.removeEventListener('openai:setGlobal', handleSetGlobal);
+    },
+    () => window.openai?.[key],
+    () => undefined
+  );
+}
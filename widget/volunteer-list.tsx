@@ -1,69 +1,156 @@
-import React, { useState, useEffect, useSyncExternalStore } from 'react';
-
-interface Opportunity {
-  id: string;
-  title: string;
-  description: string;
-  location: {
-    city: string;
-    facility: string;
-    address: string | null;
-  };
-  schedule: {
-    type: string;
-    details: string;
-  };
-  requirements: {
-    age_minimum: number;
-    background_check: boolean | null;
-    skills: string[];
-    group_friendly: boolean;
-    max_group_size: number | null;
-  };
-  contact: {
-    phone: string;
-    email: string;
-  };
-  signup_url: string | null;
-  source_url: string;
-}
+import React, { useState, useEffect } from 'react';
+import type { Opportunity, VolunteerInquiryOutput, VolunteerOpportunitiesOutput } from '../src/schema';
+import { formatShortDate, widgetMessages, type WidgetMessages } from '../src/i18n';
+import { useOpenAiGlobal } from './openai';
 
-interface ToolOutput {
-  opportunities: Opportunity[];
-  contact: {
-    phone: string;
-    email: string;
-    web_form_url: string;
-  };
-}
+// Shared with the server so the widget always matches the tool's structuredContent
+type ToolOutput = VolunteerOpportunitiesOutput;
 
-interface OpenAIGlobal {
-  toolOutput: ToolOutput;
-  sendFollowUpMessage: (message: string) => void;
-  openUrl: (url: string) => void;
-  callTool: (toolName: string, params: any) => Promise<any>;
-  setWidgetState: (state: any) => void;
-  widgetState: any;
-  displayMode: 'inline' | 'fullscreen' | 'pip';
-  maxHeight: number;
+// "07:00" -> "7:00am"
+function formatTime(time: string): string {
+  const [h, m] = time.split(':').map(Number);
+  return `${h % 12 === 0 ? 12 : h % 12}:${String(m).padStart(2, '0')}${h < 12 ? 'am' : 'pm'}`;
 }
 
-declare global {
-  interface Window {
-    openai: OpenAIGlobal;
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  boxSizing: 'border-box',
+  padding: '6px 8px',
+  fontSize: '14px',
+  border: '1px solid #d1d5db',
+  borderRadius: '6px',
+  backgroundColor: '#fff'
+};
+
+const labelStyle: React.CSSProperties = {
+  fontSize: '12px',
+  fontWeight: '600',
+  color: '#374151',
+  display: 'block',
+  marginBottom: '4px'
+};
+
+// Inline "I'm Interested" form; submits through submit_volunteer_inquiry
+function InterestForm({ opp, m, onClose }: { opp: Opportunity; m: WidgetMessages; onClose: () => void }) {
+  const [form, setForm] = useState({ name: '', email: '', phone: '', group_size: '1', availability: '', notes: '' });
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmation, setConfirmation] = useState<VolunteerInquiryOutput | null>(null);
+
+  const update = (field: keyof typeof form) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setForm({ ...form, [field]: e.target.value });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.email.trim() && !form.phone.trim()) {
+      setError(m.contactRequired);
+      return;
+    }
+    if (!window.openai?.callTool) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const result = await window.openai.callTool('submit_volunteer_inquiry', {
+        name: form.name.trim(),
+        email: form.email.trim() || undefined,
+        phone: form.phone.trim() || undefined,
+        opportunity_id: opp.id,
+        group_size: Math.max(1, parseInt(form.group_size, 10) || 1),
+        availability: form.availability.trim(),
+        notes: form.notes.trim() || undefined,
+      });
+      const output: VolunteerInquiryOutput | undefined = result?.structuredContent;
+      if (!output) throw new Error(result?.content?.[0]?.text || 'No structured content in response');
+      setConfirmation(output);
+    } catch (err) {
+      console.error('Failed to submit inquiry:', err);
+      setError(m.inquiryFailed);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (confirmation) {
+    return (
+      <div style={{ marginTop: '12px', padding: '12px', backgroundColor: '#ecfdf5', border: '1px solid #a7f3d0', borderRadius: '6px', fontSize: '13px' }}>
+        <strong>{m.inquiryThanks}</strong>
+        <p style={{ margin: '6px 0 0 0' }}>
+          {m.confirmationId}: <strong>{confirmation.confirmation_id}</strong>. {m.coordinatorWillContact}
+        </p>
+      </div>
+    );
   }
-}
 
-// Custom hook to subscribe to window.openai global state
-function useOpenAiGlobal<K extends keyof OpenAIGlobal>(key: K): OpenAIGlobal[K] {
-  return useSyncExternalStore(
-    (onChange) => {
-      const handleSetGlobal = () => onChange();
-      window.addEventListener('openai:setGlobal', handleSetGlobal);
-      return () => window.removeEventListener('openai:setGlobal', handleSetGlobal);
-    },
-    () => window.openai?.[key],
-    () => undefined
+  return (
+    <form
+      onSubmit={handleSubmit}
+      style={{ marginTop: '12px', padding: '12px', backgroundColor: '#f9fafb', border: '1px solid #e5e7eb', borderRadius: '6px', display: 'grid', gap: '8px' }}
+    >
+      <div>
+        <label style={labelStyle}>{m.name} *</label>
+        <input required value={form.name} onChange={update('name')} style={inputStyle} />
+      </div>
+      <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+        <div style={{ flex: '1', minWidth: '150px' }}>
+          <label style={labelStyle}>{m.email}</label>
+          <input type="email" value={form.email} onChange={update('email')} style={inputStyle} />
+        </div>
+        <div style={{ flex: '1', minWidth: '150px' }}>
+          <label style={labelStyle}>{m.phone}</label>
+          <input type="tel" value={form.phone} onChange={update('phone')} style={inputStyle} />
+        </div>
+      </div>
+      <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+        <div style={{ width: '100px' }}>
+          <label style={labelStyle}>{m.groupSize}</label>
+          <input type="number" min={1} value={form.group_size} onChange={update('group_size')} style={inputStyle} />
+        </div>
+        <div style={{ flex: '1', minWidth: '150px' }}>
+          <label style={labelStyle}>{m.availability} *</label>
+          <input required placeholder={m.availabilityPlaceholder} value={form.availability} onChange={update('availability')} style={inputStyle} />
+        </div>
+      </div>
+      <div>
+        <label style={labelStyle}>{m.notes}</label>
+        <textarea rows={2} value={form.notes} onChange={update('notes')} style={inputStyle} />
+      </div>
+      {error && <p style={{ margin: 0, fontSize: '13px', color: '#dc2626' }}>{error}</p>}
+      <div style={{ display: 'flex', gap: '8px' }}>
+        <button
+          type="submit"
+          disabled={submitting}
+          style={{
+            padding: '6px 12px',
+            fontSize: '13px',
+            fontWeight: '500',
+            color: '#fff',
+            backgroundColor: '#059669',
+            border: 'none',
+            borderRadius: '6px',
+            cursor: submitting ? 'default' : 'pointer',
+            opacity: submitting ? 0.6 : 1
+          }}
+        >
+          {submitting ? m.sending : m.send}
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          style={{
+            padding: '6px 12px',
+            fontSize: '13px',
+            fontWeight: '500',
+            color: '#374151',
+            backgroundColor: '#f3f4f6',
+            border: '1px solid #d1d5db',
+            borderRadius: '6px',
+            cursor: 'pointer'
+          }}
+        >
+          {m.cancel}
+        </button>
+      </div>
+    </form>
   );
 }
 
@@ -71,7 +158,11 @@ export default function VolunteerList() {
   const [data, setData] = useState<ToolOutput | null>(null);
   const [filterCity, setFilterCity] = useState<string>('');
   const [filterSchedule, setFilterSchedule] = useState<string>('');
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState(false);
+  const [interestFor, setInterestFor] = useState<string | null>(null);
   const displayMode = useOpenAiGlobal('displayMode') || 'inline';
+  const m = widgetMessages(data?.language);
 
   useEffect(() => {
     if (window.openai && window.openai.toolOutput) {
@@ -93,10 +184,35 @@ export default function VolunteerList() {
   }, [filterCity, filterSchedule]);
 
   if (!data) {
-    return <div style={{ padding: '16px' }}>Loading opportunities...</div>;
+    return <div style={{ padding: '16px' }}>{m.loadingOpportunities}</div>;
   }
 
   const { opportunities, contact } = data;
+  const totalCount = data.total_count ?? opportunities.length;
+
+  // Fetch the next page with the same filters and append it to the list
+  const handleLoadMore = async () => {
+    if (!data.next_cursor || !window.openai?.callTool) return;
+    setLoadingMore(true);
+    setLoadMoreError(false);
+    try {
+      const result = await window.openai.callTool('get_volunteer_opportunities', {
+        ...data.filters,
+        cursor: data.next_cursor,
+      });
+      const nextPage: ToolOutput | undefined = result?.structuredContent;
+      if (!nextPage) throw new Error('No structured content in response');
+      setData({
+        ...nextPage,
+        opportunities: [...opportunities, ...nextPage.opportunities],
+      });
+    } catch (error) {
+      console.error('Failed to load more opportunities:', error);
+      setLoadMoreError(true);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
 
   // Apply local filters
   let filteredOpps = opportunities;
@@ -126,17 +242,13 @@ export default function VolunteerList() {
 
   const handleAskAboutOpportunity = (opp: Opportunity) => {
     if (window.openai?.sendFollowUpMessage) {
-      window.openai.sendFollowUpMessage(
-        `Tell me more about the "${opp.title}" volunteer opportunity`
-      );
+      window.openai.sendFollowUpMessage(m.askAboutOpportunity(opp.title));
     }
   };
 
   const handleShowDonations = () => {
     if (window.openai?.sendFollowUpMessage) {
-      window.openai.sendFollowUpMessage(
-        `Show me donation options for Catholic Charities Twin Cities`
-      );
+      window.openai.sendFollowUpMessage(m.askDonationOptions);
     }
   };
 
@@ -145,7 +257,7 @@ export default function VolunteerList() {
   if (filteredOpps.length === 0 && (filterCity || filterSchedule)) {
     return (
       <div style={{ padding: '16px', textAlign: 'center' }}>
-        <p>No opportunities match your filters.</p>
+        <p>{m.noFilterMatches}</p>
         <button
           onClick={() => {
             setFilterCity('');
@@ -163,7 +275,7 @@ export default function VolunteerList() {
             marginTop: '12px'
           }}
         >
-          Clear Filters
+          {m.clearFilters}
         </button>
       </div>
     );
@@ -172,9 +284,9 @@ export default function VolunteerList() {
   if (opportunities.length === 0) {
     return (
       <div style={{ padding: '16px', textAlign: 'center' }}>
-        <p>No opportunities found.</p>
+        <p>{m.noOpportunities}</p>
         <p style={{ fontSize: '14px', marginTop: '12px' }}>
-          Contact: <a href={`mailto:${contact.email}`}>{contact.email}</a> | {contact.phone}
+          {m.contact}: <a href={`mailto:${contact.email}`}>{contact.email}</a> | {contact.phone}
         </p>
       </div>
     );
@@ -204,7 +316,7 @@ export default function VolunteerList() {
       }}>
         <div style={{ flex: '1', minWidth: '150px' }}>
           <label style={{ fontSize: '12px', fontWeight: '600', color: '#374151', display: 'block', marginBottom: '4px' }}>
-            City
+            {m.city}
           </label>
           <select
             value={filterCity}
@@ -218,7 +330,7 @@ export default function VolunteerList() {
               backgroundColor: '#fff'
             }}
           >
-            <option value="">All Cities</option>
+            <option value="">{m.allCities}</option>
             {cities.map(city => (
               <option key={city} value={city}>{city}</option>
             ))}
@@ -227,7 +339,7 @@ export default function VolunteerList() {
 
         <div style={{ flex: '1', minWidth: '150px' }}>
           <label style={{ fontSize: '12px', fontWeight: '600', color: '#374151', display: 'block', marginBottom: '4px' }}>
-            Schedule
+            {m.schedule}
           </label>
           <select
             value={filterSchedule}
@@ -241,9 +353,9 @@ export default function VolunteerList() {
               backgroundColor: '#fff'
             }}
           >
-            <option value="">All Schedules</option>
+            <option value="">{m.allSchedules}</option>
             {scheduleTypes.map(type => (
-              <option key={type} value={type}>{type}</option>
+              <option key={type} value={type}>{m.scheduleTypes[type] ?? type}</option>
             ))}
           </select>
         </div>
@@ -266,7 +378,7 @@ export default function VolunteerList() {
               alignSelf: 'flex-end'
             }}
           >
-            Clear
+            {m.clear}
           </button>
         )}
       </div>
@@ -319,25 +431,36 @@ export default function VolunteerList() {
               marginBottom: '12px'
             }}>
               <div>
-                <strong>📍 Location:</strong> {opp.location.city}
+                <strong>📍 {m.location}:</strong> {opp.location.city}
                 {opp.location.facility && opp.location.facility !== 'Various locations' &&
                   ` • ${opp.location.facility}`}
+                {opp.distance_miles != null && ` • ${m.milesAway(opp.distance_miles)}`}
               </div>
 
               <div>
-                <strong>🕐 Schedule:</strong> {opp.schedule.details}
+                <strong>🕐 {m.schedule}:</strong> {opp.schedule.details}
+                {opp.upcoming_shifts && opp.upcoming_shifts.length > 0 && (
+                  <ul style={{ margin: '4px 0 0 0', paddingLeft: '20px', color: '#374151' }}>
+                    {opp.upcoming_shifts.map((shift) => (
+                      <li key={`${shift.date}-${shift.start}`}>
+                        {formatShortDate(shift.date, data.language)}, {formatTime(shift.start)}–{formatTime(shift.end)}
+                        {shift.label && ` (${shift.label})`}
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
 
               <div>
-                <strong>👤 Requirements:</strong> Age {opp.requirements.age_minimum}+
+                <strong>👤 {m.requirements}:</strong> {m.age(opp.requirements.age_minimum)}
                 {opp.requirements.group_friendly &&
-                  ` • Group-friendly (max ${opp.requirements.max_group_size || 'varies'})`}
+                  ` • ${m.groupFriendly(String(opp.requirements.max_group_size || m.varies))}`}
                 {opp.requirements.skills.length > 0 &&
-                  ` • Skills: ${opp.requirements.skills.join(', ')}`}
+                  ` • ${m.skills}: ${opp.requirements.skills.join(', ')}`}
               </div>
 
               <div>
-                <strong>📞 Contact:</strong>{' '}
+                <strong>📞 {m.contact}:</strong>{' '}
                 <a
                   href={`mailto:${opp.contact.email}`}
                   onClick={(e) => {
@@ -381,7 +504,7 @@ export default function VolunteerList() {
                     cursor: 'pointer'
                   }}
                 >
-                  Sign Up
+                  {m.signUp}
                 </button>
               )}
               <button
@@ -400,8 +523,40 @@ export default function VolunteerList() {
                   cursor: 'pointer'
                 }}
               >
-                Email
+                {m.email}
+              </button>
+              <button
+                onClick={() => setInterestFor(interestFor === opp.id ? null : opp.id)}
+                style={{
+                  padding: '6px 12px',
+                  fontSize: '13px',
+                  fontWeight: '500',
+                  color: '#065f46',
+                  backgroundColor: '#d1fae5',
+                  border: '1px solid #a7f3d0',
+                  borderRadius: '6px',
+                  cursor: 'pointer'
+                }}
+              >
+                {m.interested}
               </button>
+              {opp.calendar_url && (
+                <button
+                  onClick={() => window.openai?.openUrl(opp.calendar_url!)}
+                  style={{
+                    padding: '6px 12px',
+                    fontSize: '13px',
+                    fontWeight: '500',
+                    color: '#374151',
+                    backgroundColor: '#f3f4f6',
+                    border: '1px solid #d1d5db',
+                    borderRadius: '6px',
+                    cursor: 'pointer'
+                  }}
+                >
+                  📅 {m.addToCalendar}
+                </button>
+              )}
               <button
                 onClick={() => handleAskAboutOpportunity(opp)}
                 style={{
@@ -415,7 +570,7 @@ export default function VolunteerList() {
                   cursor: 'pointer'
                 }}
               >
-                Ask More
+                {m.askMore}
               </button>
               {opp.source_url && (
                 <button
@@ -431,14 +586,51 @@ export default function VolunteerList() {
                     cursor: 'pointer'
                   }}
                 >
-                  Learn More
+                  {m.learnMore}
                 </button>
               )}
             </div>
+
+            {interestFor === opp.id && (
+              <InterestForm opp={opp} m={m} onClose={() => setInterestFor(null)} />
+            )}
           </div>
         ))}
       </div>
 
+      {/* Pagination */}
+      {(data.next_cursor || totalCount > opportunities.length) && (
+        <div style={{ textAlign: 'center', marginTop: '16px' }}>
+          <p style={{ margin: '0 0 8px 0', fontSize: '13px', color: '#6b7280' }}>
+            {m.showingCount(opportunities.length, totalCount)}
+          </p>
+          {data.next_cursor && (
+            <button
+              onClick={handleLoadMore}
+              disabled={loadingMore}
+              style={{
+                padding: '8px 16px',
+                fontSize: '14px',
+                fontWeight: '500',
+                color: '#fff',
+                backgroundColor: '#2563eb',
+                border: 'none',
+                borderRadius: '6px',
+                cursor: loadingMore ? 'default' : 'pointer',
+                opacity: loadingMore ? 0.6 : 1
+              }}
+            >
+              {loadingMore ? m.loading : m.loadMore}
+            </button>
+          )}
+          {loadMoreError && (
+            <p style={{ margin: '8px 0 0 0', fontSize: '13px', color: '#dc2626' }}>
+              {m.loadMoreFailed}
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Footer */}
       <div style={{
         textAlign: 'center',
@@ -451,7 +643,7 @@ export default function VolunteerList() {
         borderRadius: '8px'
       }}>
         <p style={{ margin: '0 0 12px 0' }}>
-          <strong>General volunteer inquiries:</strong>
+          <strong>{m.generalInquiries}</strong>
         </p>
         <p style={{ margin: '0 0 12px 0' }}>
           <a
@@ -484,7 +676,7 @@ export default function VolunteerList() {
             }}
             style={{ color: '#2563eb', cursor: 'pointer' }}
           >
-            Visit Website
+            {m.visitWebsite}
           </a>
         </p>
         <button
@@ -500,7 +692,7 @@ export default function VolunteerList() {
             cursor: 'pointer'
           }}
         >
-          💝 How to Donate
+          💝 {m.howToDonate}
         </button>
       </div>
     </div>